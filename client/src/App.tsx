@@ -16,6 +16,21 @@ const VehiclesPage = lazy(() => import("@/pages/vehicles-page"));
 const ServiceCreatePage = lazy(() => import("@/pages/service-create-page"));
 const ServiceDetailPage = lazy(() => import("@/pages/service-detail-page"));
 const DashboardPage = lazy(() => import("@/pages/dashboard-page"));
+const CustomerDetailPage = lazy(() => import("@/pages/customer-detail-page"));
+const VehicleDetailPage = lazy(() => import("@/pages/vehicle-detail-page"));
+const ServiceIntervalsPage = lazy(() => import("@/pages/service-intervals-page"));
+const EstimatePage = lazy(() => import("@/pages/estimate-page"));
+const AppointmentsPage = lazy(() => import("@/pages/appointments-page"));
+const TimeClockPage = lazy(() => import("@/pages/time-clock-page"));
+const ProductivityPage = lazy(() => import("@/pages/productivity-page"));
+const UsersPage = lazy(() => import("@/pages/users-page"));
+const LoginSecurityPage = lazy(() => import("@/pages/login-security-page"));
+const PermissionsPage = lazy(() => import("@/pages/permissions-page"));
+const AuditLogPage = lazy(() => import("@/pages/audit-log-page"));
+const ChangePasswordPage = lazy(() => import("@/pages/change-password-page"));
+const SessionsPage = lazy(() => import("@/pages/sessions-page"));
+const ApiTokensPage = lazy(() => import("@/pages/api-tokens-page"));
+const TwoFactorPage = lazy(() => import("@/pages/two-factor-page"));
 const AuthPage = lazy(() => import("@/pages/auth-page"));
 const NotFound = lazy(() => import("@/pages/not-found"));
 
@@ -27,6 +42,21 @@ function Router() {
         <ProtectedRoute path="/services/new" component={ServiceCreatePage} />
         <ProtectedRoute path="/services/:serviceId" component={ServiceDetailPage} />
         <ProtectedRoute path="/dashboard" component={DashboardPage} />
+        <ProtectedRoute path="/customers/:id" component={CustomerDetailPage} />
+        <ProtectedRoute path="/vehicles/:id" component={VehicleDetailPage} />
+        <ProtectedRoute path="/service-intervals" component={ServiceIntervalsPage} />
+        <ProtectedRoute path="/estimates/:id" component={EstimatePage} />
+        <ProtectedRoute path="/appointments" component={AppointmentsPage} />
+        <ProtectedRoute path="/time-clock" component={TimeClockPage} />
+        <ProtectedRoute path="/reports/productivity" component={ProductivityPage} />
+        <ProtectedRoute path="/users" component={UsersPage} />
+        <ProtectedRoute path="/security/logins" component={LoginSecurityPage} />
+        <ProtectedRoute path="/security/permissions" component={PermissionsPage} />
+        <ProtectedRoute path="/security/audit" component={AuditLogPage} />
+        <ProtectedRoute path="/account/password" component={ChangePasswordPage} />
+        <ProtectedRoute path="/account/two-factor" component={TwoFactorPage} />
+        <ProtectedRoute path="/account/sessions" component={SessionsPage} />
+        <ProtectedRoute path="/account/api-tokens" component={ApiTokensPage} />
         <Route path="/auth" component={AuthPage} />
         <Route component={NotFound} />
       </Switch>
@@ -69,6 +99,14 @@ function AppContent() {
     );
   }
 
+  if (user.mustChangePassword) {
+    return <ChangePasswordPage forced />;
+  }
+
+  if (user.twoFactorSetupRequired) {
+    return <TwoFactorPage forced />;
+  }
+
   return (
     <SidebarProvider style={style as React.CSSProperties}>
       <div className="flex min-h-screen w-full overflow-hidden">
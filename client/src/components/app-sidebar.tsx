@@ -1,4 +1,4 @@
-import { Home, Car, LogOut, Wrench } from "lucide-react";
+import { Home, Car, BarChart3, CalendarDays, Gauge, History, KeyRound, LockKeyhole, LogOut, MonitorSmartphone, Plug, ShieldAlert, ShieldCheck, Timer, UserCog, Wrench } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -15,8 +15,17 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
 
-const menuItems = [
+type MenuItem = {
+  title: string;
+  url: string;
+  icon: typeof Car;
+  // Limits the entry to users holding this permission; everyone sees it when omitted
+  permission?: Permission;
+};
+
+const menuItems: MenuItem[] = [
   {
     title: "Search",
     url: "/",
@@ -27,11 +36,58 @@ const menuItems = [
     url: "/dashboard",
     icon: Home,
   },
+  {
+    title: "Calendar",
+    url: "/appointments",
+    icon: CalendarDays,
+  },
+  {
+    title: "Time clock",
+    url: "/time-clock",
+    icon: Timer,
+    permission: "time.clock",
+  },
+  {
+    title: "Productivity",
+    url: "/reports/productivity",
+    icon: BarChart3,
+    permission: "report.view_productivity",
+  },
+  {
+    title: "Intervals",
+    url: "/service-intervals",
+    icon: Gauge,
+  },
+  {
+    title: "Users",
+    url: "/users",
+    icon: UserCog,
+    permission: "user.manage",
+  },
+  {
+    title: "Permissions",
+    url: "/security/permissions",
+    icon: LockKeyhole,
+    permission: "security.manage",
+  },
+  {
+    title: "Sign-in security",
+    url: "/security/logins",
+    icon: ShieldAlert,
+    permission: "security.manage",
+  },
+  {
+    title: "Audit log",
+    url: "/security/audit",
+    icon: History,
+    permission: "audit.view",
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
+  const visibleItems = menuItems.filter((item) => !item.permission || hasPermission(user, item.permission));
 
   return (
     <Sidebar>
@@ -52,7 +108,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => {
+              {visibleItems.map((item) => {
                 const isActive = location === item.url;
                 return (
                   <SidebarMenuItem key={item.title}>
@@ -87,6 +143,30 @@ export function AppSidebar() {
               </div>
             </div>
           </div>
+          <Button variant="ghost" className="w-full" asChild data-testid="link-change-password">
+            <Link href="/account/password">
+              <KeyRound className="h-4 w-4 mr-2" />
+              Change password
+            </Link>
+          </Button>
+          <Button variant="ghost" className="w-full" asChild data-testid="link-two-factor">
+            <Link href="/account/two-factor">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Two-factor authentication
+            </Link>
+          </Button>
+          <Button variant="ghost" className="w-full" asChild data-testid="link-sessions">
+            <Link href="/account/sessions">
+              <MonitorSmartphone className="h-4 w-4 mr-2" />
+              Active sessions
+            </Link>
+          </Button>
+          <Button variant="ghost" className="w-full" asChild data-testid="link-api-tokens">
+            <Link href="/account/api-tokens">
+              <Plug className="h-4 w-4 mr-2" />
+              API tokens
+            </Link>
+          </Button>
           <Button
             variant="outline"
             className="w-full"
@@ -0,0 +1,182 @@
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { AuditAction, AuditEntity, AuditLogEntry } from "@shared/schema";
+
+export const auditEntityLabels: Record<AuditEntity, string> = {
+  customer: "Customer",
+  vehicle: "Vehicle",
+  service: "Service",
+  service_item: "Line item",
+  service_media: "Photo or file",
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const actionVariants: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+};
+
+export type AuditQuery = {
+  entityType?: AuditEntity;
+  entityId?: number;
+  serviceId?: number;
+  search?: string;
+  from?: string;
+  to?: string;
+};
+
+export function useAuditLog(query: AuditQuery) {
+  return useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/audit", query],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== "") {
+          params.set(key, String(value));
+        }
+      }
+      const res = await apiRequest("GET", `/api/audit?${params.toString()}`);
+      return await res.json();
+    },
+    // Other screens change records without invalidating the log, so reload it whenever it is opened
+    staleTime: 0,
+  });
+}
+
+// "plateNumber" -> "Plate number"
+const fieldLabel = (field: string): string => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+type AuditEntryListProps = {
+  entries: AuditLogEntry[];
+  // Shows which kind of record each entry is about; off inside a single record's history
+  showRecordType?: boolean;
+};
+
+export function AuditEntryList({ entries, showRecordType = false }: AuditEntryListProps) {
+  if (entries.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">No changes recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const changes = Object.entries(entry.changes);
+        return (
+          <div key={entry.id} className="space-y-2 rounded-lg border p-3" data-testid={`audit-entry-${entry.id}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                <Badge variant={actionVariants[entry.action]}>{actionLabels[entry.action]}</Badge>
+                {(showRecordType || entry.entityType !== "service") && (
+                  <span className="text-muted-foreground">{auditEntityLabels[entry.entityType]}</span>
+                )}
+                {entry.label}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {entry.actorName ?? "System"}
+                {entry.ipAddress ? ` · ${entry.ipAddress}` : ""} · {format(new Date(entry.createdAt), "PPP p")}
+              </p>
+            </div>
+            {changes.length > 0 && (
+              <dl className="grid gap-1 text-xs sm:grid-cols-[minmax(0,10rem)_minmax(0,1fr)]">
+                {changes.map(([field, change]) => (
+                  <div key={field} className="contents">
+                    <dt className="font-medium text-muted-foreground">{fieldLabel(field)}</dt>
+                    <dd className="break-words">
+                      {entry.action === "update" ? (
+                        <>
+                          <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+                          {" → "}
+                          {formatValue(change.after)}
+                        </>
+                      ) : (
+                        formatValue(entry.action === "delete" ? change.before : change.after)
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function AuditHistory({ query }: { query: AuditQuery }) {
+  const { data: entries = [], isLoading, error } = useAuditLog(query);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>Every change to this record, newest first.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load history: {error.message}</p>
+        ) : (
+          <AuditEntryList entries={entries} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type HistoryTabsProps = {
+  query: AuditQuery;
+  children: ReactNode;
+};
+
+// Wraps a detail page's content in Details/History tabs for users who may see the audit log
+export function HistoryTabs({ query, children }: HistoryTabsProps) {
+  const { user } = useAuth();
+  if (!hasPermission(user, "audit.view")) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Tabs defaultValue="details" className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="details" data-testid="tab-details">
+          Details
+        </TabsTrigger>
+        <TabsTrigger value="history" data-testid="tab-history">
+          History
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="details" className="mt-0 space-y-6">
+        {children}
+      </TabsContent>
+      <TabsContent value="history" className="mt-0">
+        <AuditHistory query={query} />
+      </TabsContent>
+    </Tabs>
+  );
+}
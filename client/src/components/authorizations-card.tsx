@@ -0,0 +1,308 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Plus, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SignaturePad } from "@/components/signature-pad";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { calculateItemTax, roundCurrency } from "@shared/pricing";
+import { hasPermission } from "@shared/permissions";
+import type { AuthorizationChannel, Service, ServiceAuthorization, ServiceItem } from "@shared/schema";
+
+type AuthorizationEntry = ServiceAuthorization & {
+  signatureUrl: string | null;
+};
+
+type AuthorizationForm = {
+  approvedBy: string;
+  channel: AuthorizationChannel;
+  itemIds: number[];
+  amount: string;
+  notes: string;
+};
+
+export const authorizationChannelLabels: Record<AuthorizationChannel, string> = {
+  in_person: "In person",
+  phone: "Phone",
+  link: "Link",
+};
+
+type AuthorizationsCardProps = {
+  service: Service;
+  items: ServiceItem[];
+  customerName?: string;
+  formatCurrency: (value: number) => string;
+};
+
+export function AuthorizationsCard({ service, items, customerName = "", formatCurrency }: AuthorizationsCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [signature, setSignature] = useState<Blob | null>(null);
+  const [form, setForm] = useState<AuthorizationForm>({
+    approvedBy: customerName,
+    channel: "phone",
+    itemIds: [],
+    amount: "",
+    notes: "",
+  });
+
+  const canEdit =
+    hasPermission(user, "service.edit") && (service.status !== "closed" || hasPermission(user, "service.reopen"));
+  const queryKey = ["/api/services", service.id.toString(), "authorizations"];
+
+  const { data: authorizations = [], isLoading, error } = useQuery<AuthorizationEntry[]>({ queryKey });
+
+  const itemAmount = (item: ServiceItem) => calculateItemTax(item, service.taxMode, service.taxRate).gross;
+  const selectedTotal = roundCurrency(
+    items.filter((item) => form.itemIds.includes(item.id)).reduce((sum, item) => sum + itemAmount(item), 0),
+  );
+
+  const openDialog = () => {
+    setForm({ approvedBy: customerName, channel: "phone", itemIds: [], amount: "", notes: "" });
+    setSignature(null);
+    setDialogOpen(true);
+  };
+
+  const toggleItem = (itemId: number, checked: boolean) => {
+    setForm((previous) => ({
+      ...previous,
+      itemIds: checked ? [...previous.itemIds, itemId] : previous.itemIds.filter((id) => id !== itemId),
+    }));
+  };
+
+  const createMutation = useMutation<AuthorizationEntry, Error, AuthorizationForm>({
+    mutationFn: async (data) => {
+      const submission = new FormData();
+      submission.append("approvedBy", data.approvedBy.trim());
+      submission.append("channel", data.channel);
+      submission.append("itemIds", JSON.stringify(data.itemIds));
+      if (data.amount.trim()) {
+        submission.append("amount", data.amount.trim());
+      }
+      if (data.notes.trim()) {
+        submission.append("notes", data.notes.trim());
+      }
+      if (data.channel === "in_person" && signature) {
+        submission.append("signature", signature, `signature-service-${service.id}.png`);
+      }
+      const res = await apiRequest("POST", `/api/services/${service.id}/authorizations`, submission);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/services", service.id.toString(), "media"] });
+      toast({ title: "Approval recorded" });
+      setDialogOpen(false);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to record approval", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form.approvedBy.trim()) {
+      toast({ title: "Enter who approved the work" });
+      return;
+    }
+    if (form.itemIds.length === 0 && !form.amount.trim()) {
+      toast({ title: "Select the approved items or enter an amount" });
+      return;
+    }
+    if (form.channel === "in_person" && !signature) {
+      toast({ title: "Ask the customer to sign before saving" });
+      return;
+    }
+    createMutation.mutate(form);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+          Customer approvals
+        </CardTitle>
+        {canEdit && (
+          <Button size="sm" onClick={openDialog} data-testid="button-record-approval">
+            <Plus className="mr-2 h-4 w-4" />
+            Record approval
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load approvals: {error.message}</p>
+        ) : authorizations.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">No approvals recorded yet.</div>
+        ) : (
+          <div className="space-y-3">
+            {authorizations.map((authorization) => (
+              <div
+                key={authorization.id}
+                className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-start sm:justify-between"
+                data-testid={`authorization-${authorization.id}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-medium">{authorization.approvedBy}</p>
+                    <Badge variant="outline">{authorizationChannelLabels[authorization.channel]}</Badge>
+                    <span className="font-semibold">
+                      {formatCurrency(Number.parseFloat(String(authorization.amount)) || 0)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(authorization.approvedAt), "PPP p")}
+                  </p>
+                  {authorization.items.length > 0 && (
+                    <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                      {authorization.items.map((item) => (
+                        <li key={item.id}>
+                          {item.description} · {formatCurrency(Number.parseFloat(item.amount) || 0)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {authorization.notes && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">{authorization.notes}</p>
+                  )}
+                </div>
+                {authorization.signatureUrl && (
+                  <img
+                    src={authorization.signatureUrl}
+                    alt={`Signature of ${authorization.approvedBy}`}
+                    className="h-20 w-48 rounded-md border bg-white object-contain"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Record customer approval</DialogTitle>
+              <DialogDescription>Log who approved which work, for how much, and how.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="authorization-approved-by">Approved by</Label>
+                <Input
+                  id="authorization-approved-by"
+                  value={form.approvedBy}
+                  onChange={(event) => setForm((previous) => ({ ...previous, approvedBy: event.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="authorization-channel">Channel</Label>
+                <Select
+                  value={form.channel}
+                  onValueChange={(value) =>
+                    setForm((previous) => ({ ...previous, channel: value as AuthorizationChannel }))
+                  }
+                >
+                  <SelectTrigger id="authorization-channel">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(authorizationChannelLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {items.length > 0 && (
+              <div className="space-y-2">
+                <Label>Approved items</Label>
+                <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+                  {items.map((item) => (
+                    <label key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="flex items-center gap-2">
+                        <Checkbox
+                          checked={form.itemIds.includes(item.id)}
+                          onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                        />
+                        {item.description}
+                      </span>
+                      <span className="tabular-nums text-muted-foreground">{formatCurrency(itemAmount(item))}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="authorization-amount">Approved amount</Label>
+              <Input
+                id="authorization-amount"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.01"
+                value={form.amount}
+                onChange={(event) => setForm((previous) => ({ ...previous, amount: event.target.value }))}
+                placeholder={selectedTotal > 0 ? selectedTotal.toFixed(2) : "0.00"}
+              />
+              <p className="text-xs text-muted-foreground">Leave blank to use the total of the selected items.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="authorization-notes">Notes</Label>
+              <Textarea
+                id="authorization-notes"
+                value={form.notes}
+                onChange={(event) => setForm((previous) => ({ ...previous, notes: event.target.value }))}
+              />
+            </div>
+            {form.channel === "in_person" && (
+              <div className="space-y-2">
+                <Label>Customer signature</Label>
+                <SignaturePad onChange={setSignature} />
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                Save approval
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { roundCurrency, toAmount } from "@shared/pricing";
+import type { Estimate, EstimateItem, Service } from "@shared/schema";
+
+type EstimateDetails = {
+  estimate: Estimate;
+  items: EstimateItem[];
+};
+
+type VarianceRow = {
+  label: string;
+  estimated: number;
+  actual: number;
+};
+
+type EstimateVarianceCardProps = {
+  service: Service;
+  formatCurrency: (value: number) => string;
+};
+
+// Compares the approved estimate with what the service actually cost; renders nothing when the
+// service was not created from an estimate.
+export function EstimateVarianceCard({ service, formatCurrency }: EstimateVarianceCardProps) {
+  const [, setLocation] = useLocation();
+  const { data } = useQuery<EstimateDetails | null>({
+    queryKey: ["/api/services", service.id.toString(), "estimate"],
+    queryFn: async () => {
+      const res = await fetch(`/api/services/${service.id}/estimate`, { credentials: "include" });
+      if (res.status === 404) {
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error((await res.text()) || res.statusText);
+      }
+      return await res.json();
+    },
+  });
+
+  if (!data) {
+    return null;
+  }
+
+  const { estimate } = data;
+  const rows: VarianceRow[] = [
+    { label: "Labor", estimated: toAmount(estimate.laborCost), actual: toAmount(service.laborCost) },
+    { label: "Parts", estimated: toAmount(estimate.partsCost), actual: toAmount(service.partsCost) },
+    { label: "VAT", estimated: toAmount(estimate.taxAmount), actual: toAmount(service.taxAmount) },
+    { label: "Total", estimated: toAmount(estimate.totalCost), actual: toAmount(service.totalCost) },
+  ];
+
+  const formatVariance = ({ estimated, actual }: VarianceRow) => {
+    const difference = roundCurrency(actual - estimated);
+    const sign = difference > 0 ? "+" : difference < 0 ? "−" : "";
+    const percent = estimated !== 0 ? ` (${sign}${Math.abs((difference / estimated) * 100).toFixed(1)}%)` : "";
+    return `${sign}${formatCurrency(Math.abs(difference))}${percent}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-3">
+          <span className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-muted-foreground" />
+            Estimate vs actual
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setLocation(`/estimates/${estimate.id}`)}>
+            View estimate
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              <TableHead className="text-right">Estimated</TableHead>
+              <TableHead className="text-right">Actual</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const overrun = roundCurrency(row.actual - row.estimated) > 0;
+              return (
+                <TableRow key={row.label} data-testid={`row-variance-${row.label.toLowerCase()}`}>
+                  <TableCell className={row.label === "Total" ? "font-semibold" : undefined}>{row.label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(row.estimated)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(row.actual)}</TableCell>
+                  <TableCell
+                    className={`text-right tabular-nums ${overrun ? "text-destructive" : "text-muted-foreground"}`}
+                  >
+                    {formatVariance(row)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
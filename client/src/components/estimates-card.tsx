@@ -0,0 +1,133 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { FileText, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { Estimate, EstimateStatus } from "@shared/schema";
+
+export const estimateStatusLabels: Record<EstimateStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  approved: "Approved",
+  declined: "Declined",
+};
+
+export function EstimateStatusBadge({ estimate }: { estimate: Estimate }) {
+  const expired =
+    (estimate.status === "draft" || estimate.status === "sent") &&
+    estimate.validUntil !== null &&
+    new Date(estimate.validUntil).getTime() < Date.now();
+
+  if (expired) {
+    return <Badge variant="destructive">Expired</Badge>;
+  }
+
+  switch (estimate.status) {
+    case "approved":
+      return <Badge variant="default">{estimateStatusLabels.approved}</Badge>;
+    case "declined":
+      return <Badge variant="secondary">{estimateStatusLabels.declined}</Badge>;
+    default:
+      return <Badge variant="outline">{estimateStatusLabels[estimate.status]}</Badge>;
+  }
+}
+
+type EstimatesCardProps = {
+  vehicleId: number;
+  formatCurrency: (value: number) => string;
+};
+
+export function EstimatesCard({ vehicleId, formatCurrency }: EstimatesCardProps) {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const canEdit = hasPermission(user, "estimate.edit");
+
+  const { data: estimates = [], isLoading, error } = useQuery<Estimate[]>({
+    queryKey: ["/api/estimates", { vehicleId }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/estimates?vehicleId=${vehicleId}`);
+      return await res.json();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-3">
+          <span className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-muted-foreground" />
+            Estimates
+          </span>
+          {canEdit && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setLocation(`/estimates/new?vehicleId=${vehicleId}`)}
+              data-testid="button-new-estimate"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New estimate
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load estimates: {error.message}</p>
+        ) : estimates.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No estimates for this vehicle yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Created</TableHead>
+                <TableHead>Proposed work</TableHead>
+                <TableHead>Valid until</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {estimates.map((estimate) => (
+                <TableRow
+                  key={estimate.id}
+                  className="cursor-pointer hover:bg-muted/50"
+                  onClick={() => setLocation(`/estimates/${estimate.id}`)}
+                  data-testid={`row-estimate-${estimate.id}`}
+                >
+                  <TableCell>{format(new Date(estimate.createdAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="max-w-xs truncate">{estimate.description}</TableCell>
+                  <TableCell>
+                    {estimate.validUntil ? format(new Date(estimate.validUntil), "MMM d, yyyy") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <EstimateStatusBadge estimate={estimate} />
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(Number.parseFloat(String(estimate.totalCost)) || 0)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
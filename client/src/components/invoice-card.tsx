@@ -0,0 +1,418 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Ban, Printer, Receipt, RotateCcw, Wallet } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatInvoiceNumber, type InvoiceBalance } from "@shared/pricing";
+import { hasPermission } from "@shared/permissions";
+import { paymentMethodEnum, type Invoice, type Payment, type PaymentMethod, type PaymentStatus } from "@shared/schema";
+
+export type InvoiceDetails = {
+  invoice: Invoice;
+  payments: Payment[];
+  summary: InvoiceBalance;
+};
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  bank_transfer: "Bank transfer",
+  check: "Cheque",
+  other: "Other",
+};
+
+export function PaymentStatusBadge({ status }: { status: PaymentStatus }) {
+  switch (status) {
+    case "paid":
+      return <Badge variant="secondary">Paid</Badge>;
+    case "partial":
+      return <Badge variant="default">Partially paid</Badge>;
+    case "void":
+      return <Badge variant="outline">Void</Badge>;
+    default:
+      return <Badge variant="destructive">Unpaid</Badge>;
+  }
+}
+
+type LedgerMode = "payment" | "refund";
+
+type LedgerFormState = {
+  amount: string;
+  method: PaymentMethod;
+  referenceNumber: string;
+  notes: string;
+};
+
+type InvoiceCardProps = {
+  serviceId: number;
+  customerId: number;
+  // Compared with the issued amount, which stays as it was when the invoice was issued
+  serviceTotal: number;
+  formatCurrency: (value: number) => string;
+};
+
+export function InvoiceCard({ serviceId, customerId, serviceTotal, formatCurrency }: InvoiceCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [ledgerMode, setLedgerMode] = useState<LedgerMode | null>(null);
+  const [form, setForm] = useState<LedgerFormState>({
+    amount: "",
+    method: "cash",
+    referenceNumber: "",
+    notes: "",
+  });
+
+  const canCreateInvoice = hasPermission(user, "invoice.create");
+  const canRecordPayments = hasPermission(user, "invoice.record_payment");
+  const canRefund = hasPermission(user, "invoice.refund");
+  const canVoid = hasPermission(user, "invoice.void");
+  const invoiceQueryKey = ["/api/services", serviceId.toString(), "invoice"];
+
+  const { data: details, isLoading, error } = useQuery<InvoiceDetails | null>({
+    queryKey: invoiceQueryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/services/${serviceId}/invoice`, { credentials: "include" });
+      if (res.status === 404) {
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error((await res.text()) || res.statusText);
+      }
+      return await res.json();
+    },
+  });
+
+  const onLedgerChanged = (updated: InvoiceDetails) => {
+    queryClient.setQueryData(invoiceQueryKey, updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/customers", customerId.toString(), "receivables"] });
+  };
+
+  const createInvoiceMutation = useMutation<InvoiceDetails, Error>({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/services/${serviceId}/invoice`, {});
+      return await res.json();
+    },
+    onSuccess: (created) => {
+      onLedgerChanged(created);
+      toast({ title: `Invoice ${formatInvoiceNumber(created.invoice.invoiceNumber)} created` });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to create invoice", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const ledgerMutation = useMutation<InvoiceDetails, Error, { mode: LedgerMode; data: LedgerFormState }>({
+    mutationFn: async ({ mode, data }) => {
+      const endpoint = mode === "refund" ? "refunds" : "payments";
+      const res = await apiRequest("POST", `/api/invoices/${details?.invoice.id}/${endpoint}`, {
+        amount: Number.parseFloat(data.amount),
+        method: data.method,
+        referenceNumber: data.referenceNumber.trim() || null,
+        notes: data.notes.trim() || null,
+      });
+      return await res.json();
+    },
+    onSuccess: (updated, { mode }) => {
+      onLedgerChanged(updated);
+      toast({ title: mode === "refund" ? "Refund recorded" : "Payment recorded" });
+      setLedgerMode(null);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to save", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const voidMutation = useMutation<InvoiceDetails, Error>({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${details?.invoice.id}/void`);
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      onLedgerChanged(updated);
+      toast({ title: "Invoice voided" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to void invoice", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const openLedgerDialog = (mode: LedgerMode) => {
+    if (!details) {
+      return;
+    }
+    const suggested = mode === "refund" ? details.summary.netPaid : details.summary.balance;
+    setForm({
+      amount: suggested > 0 ? suggested.toFixed(2) : "",
+      method: "cash",
+      referenceNumber: "",
+      notes: "",
+    });
+    setLedgerMode(mode);
+  };
+
+  const handleLedgerSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = Number.parseFloat(form.amount);
+    if (!ledgerMode || !Number.isFinite(amount) || amount <= 0) {
+      toast({ title: "Enter an amount greater than zero" });
+      return;
+    }
+    ledgerMutation.mutate({ mode: ledgerMode, data: form });
+  };
+
+  const invoice = details?.invoice;
+  const summary = details?.summary;
+  const isVoid = invoice?.status === "void";
+  const isOutdated = Boolean(summary && !isVoid && Math.abs(summary.invoiced - serviceTotal) >= 0.005);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5 text-muted-foreground" />
+          {invoice ? `Invoice ${formatInvoiceNumber(invoice.invoiceNumber)}` : "Invoice"}
+          {invoice && <PaymentStatusBadge status={invoice.status} />}
+        </CardTitle>
+        {invoice && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant="outline" asChild>
+              <a href={`/api/invoices/${invoice.id}/print`} target="_blank" rel="noreferrer">
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </a>
+            </Button>
+            {!isVoid && canRecordPayments && summary && summary.balance > 0 && (
+              <Button size="sm" onClick={() => openLedgerDialog("payment")} data-testid="button-record-payment">
+                <Wallet className="mr-2 h-4 w-4" />
+                Record payment
+              </Button>
+            )}
+            {!isVoid && canRefund && summary && summary.netPaid > 0 && (
+              <Button size="sm" variant="outline" onClick={() => openLedgerDialog("refund")}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Refund
+              </Button>
+            )}
+            {isVoid && canCreateInvoice && (
+              <Button
+                size="sm"
+                onClick={() => createInvoiceMutation.mutate()}
+                disabled={createInvoiceMutation.isPending}
+                data-testid="button-reissue-invoice"
+              >
+                <Receipt className="mr-2 h-4 w-4" />
+                {createInvoiceMutation.isPending ? "Issuing..." : "Issue new invoice"}
+              </Button>
+            )}
+            {!isVoid && canVoid && summary && summary.netPaid === 0 && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => voidMutation.mutate()}
+                disabled={voidMutation.isPending}
+              >
+                <Ban className="mr-2 h-4 w-4" />
+                Void
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load invoice: {error.message}</p>
+        ) : !invoice || !summary ? (
+          <div className="flex flex-col items-center gap-3 py-6 text-center text-sm text-muted-foreground">
+            <p>This service has not been invoiced yet.</p>
+            {canCreateInvoice && (
+              <Button
+                size="sm"
+                onClick={() => createInvoiceMutation.mutate()}
+                disabled={createInvoiceMutation.isPending}
+                data-testid="button-create-invoice"
+              >
+                {createInvoiceMutation.isPending ? "Creating..." : "Create invoice"}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <>
+            {isOutdated && (
+              <Alert data-testid="alert-invoice-outdated">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>The service has changed since this invoice was issued</AlertTitle>
+                <AlertDescription>
+                  The service total is now {formatCurrency(serviceTotal)}. Issued invoices do not change; refund any
+                  payments and void this invoice to issue a corrected one.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="grid gap-4 text-sm sm:grid-cols-5">
+              <div>
+                <p className="text-muted-foreground">Issued</p>
+                <p className="font-medium">{format(new Date(invoice.issuedAt), "PPP")}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Invoiced</p>
+                <p className="font-medium">{formatCurrency(summary.invoiced)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">VAT</p>
+                <p className="font-medium">{formatCurrency(Number.parseFloat(String(invoice.taxAmount)) || 0)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Paid</p>
+                <p className="font-medium">{formatCurrency(summary.netPaid)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Outstanding</p>
+                <p className="font-semibold" data-testid="text-invoice-balance">
+                  {formatCurrency(isVoid ? 0 : summary.balance)}
+                </p>
+              </div>
+            </div>
+
+            <Separator />
+
+            {details.payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No payments recorded.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {details.payments.map((payment) => (
+                    <TableRow key={payment.id} data-testid={`row-payment-${payment.id}`}>
+                      <TableCell>{format(new Date(payment.receivedAt), "MMM d, yyyy")}</TableCell>
+                      <TableCell className="capitalize">{payment.kind}</TableCell>
+                      <TableCell>{paymentMethodLabels[payment.method]}</TableCell>
+                      <TableCell className="text-muted-foreground">{payment.referenceNumber || "—"}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {payment.kind === "refund" ? "−" : ""}
+                        {formatCurrency(Number.parseFloat(String(payment.amount)) || 0)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={ledgerMode !== null} onOpenChange={(open) => !open && setLedgerMode(null)}>
+        <DialogContent>
+          <form onSubmit={handleLedgerSubmit}>
+            <DialogHeader>
+              <DialogTitle>{ledgerMode === "refund" ? "Record refund" : "Record payment"}</DialogTitle>
+              <DialogDescription>
+                {ledgerMode === "refund"
+                  ? `Up to ${formatCurrency(summary?.netPaid ?? 0)} can be refunded.`
+                  : `Outstanding balance is ${formatCurrency(summary?.balance ?? 0)}. Record each method separately to split a payment.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="ledger-amount">Amount *</Label>
+                <Input
+                  id="ledger-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(event) => setForm({ ...form, amount: event.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select
+                  value={form.method}
+                  onValueChange={(value) => setForm({ ...form, method: value as PaymentMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentMethodEnum.enumValues.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {paymentMethodLabels[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="ledger-reference">Reference</Label>
+                <Input
+                  id="ledger-reference"
+                  value={form.referenceNumber}
+                  onChange={(event) => setForm({ ...form, referenceNumber: event.target.value })}
+                  placeholder="Card slip, transfer or cheque number"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="ledger-notes">Notes</Label>
+                <Input
+                  id="ledger-notes"
+                  value={form.notes}
+                  onChange={(event) => setForm({ ...form, notes: event.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setLedgerMode(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={ledgerMutation.isPending}>
+                {ledgerMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
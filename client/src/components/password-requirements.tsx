@@ -0,0 +1,26 @@
+import { Check, X } from "lucide-react";
+import { checkPasswordStrength, describePasswordRules, type PasswordPolicy } from "@shared/password-policy";
+
+type PasswordRequirementsProps = {
+  password: string;
+  policy: PasswordPolicy;
+};
+
+// Live checklist of the password policy for the password being typed.
+export function PasswordRequirements({ password, policy }: PasswordRequirementsProps) {
+  const problems = new Set(checkPasswordStrength(password, policy));
+
+  return (
+    <ul className="space-y-1 text-xs" aria-label="Password requirements">
+      {describePasswordRules(policy).map((rule) => {
+        const met = password.length > 0 && !problems.has(rule);
+        return (
+          <li key={rule} className={`flex items-center gap-2 ${met ? "text-foreground" : "text-muted-foreground"}`}>
+            {met ? <Check className="h-3 w-3 text-primary" /> : <X className="h-3 w-3" />}
+            Contains {rule}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
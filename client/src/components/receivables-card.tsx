@@ -0,0 +1,136 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Landmark } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PaymentStatusBadge } from "@/components/invoice-card";
+import { formatInvoiceNumber, type InvoiceBalance } from "@shared/pricing";
+import type { Invoice, Service } from "@shared/schema";
+
+type ReceivableEntry = {
+  service: Service;
+  invoice: Invoice | null;
+  summary: InvoiceBalance | null;
+};
+
+type CustomerReceivables = {
+  entries: ReceivableEntry[];
+  totals: {
+    invoiced: string;
+    paid: string;
+    outstanding: string;
+    uninvoiced: string;
+  };
+};
+
+type ReceivablesCardProps = {
+  customerId: number;
+  formatCurrency: (value: number) => string;
+};
+
+const toNumber = (value: string) => Number.parseFloat(value) || 0;
+
+export function ReceivablesCard({ customerId, formatCurrency }: ReceivablesCardProps) {
+  const [, setLocation] = useLocation();
+  const { data, isLoading, error } = useQuery<CustomerReceivables>({
+    queryKey: ["/api/customers", customerId.toString(), "receivables"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-muted-foreground" />
+          Accounts receivable
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load balances: {error.message}</p>
+        ) : data ? (
+          <>
+            <div className="grid gap-4 text-sm sm:grid-cols-4">
+              <div>
+                <p className="text-muted-foreground">Invoiced</p>
+                <p className="font-medium">{formatCurrency(toNumber(data.totals.invoiced))}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Paid</p>
+                <p className="font-medium">{formatCurrency(toNumber(data.totals.paid))}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Outstanding</p>
+                <p className="font-semibold" data-testid="text-customer-outstanding">
+                  {formatCurrency(toNumber(data.totals.outstanding))}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Not yet invoiced</p>
+                <p className="font-medium">{formatCurrency(toNumber(data.totals.uninvoiced))}</p>
+              </div>
+            </div>
+
+            {data.entries.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Invoiced</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.entries.map(({ service, invoice, summary }) => (
+                    <TableRow
+                      key={service.id}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => setLocation(`/services/${service.id}`)}
+                      data-testid={`row-receivable-${service.id}`}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{format(new Date(service.serviceDate), "MMM d, yyyy")}</p>
+                        <p className="max-w-xs truncate text-xs text-muted-foreground">{service.workPerformed}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {invoice ? formatInvoiceNumber(invoice.invoiceNumber) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {invoice ? (
+                          <PaymentStatusBadge status={invoice.status} />
+                        ) : (
+                          <Badge variant="outline">Not invoiced</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(summary?.invoiced ?? (Number.parseFloat(String(service.totalCost)) || 0))}
+                      </TableCell>
+                      <TableCell className="text-right">{summary ? formatCurrency(summary.netPaid) : "—"}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {summary && invoice?.status !== "void" ? formatCurrency(summary.balance) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,336 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { differenceInCalendarDays, format } from "date-fns";
+import { BellRing, Check, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { MaintenanceReminder, Vehicle } from "@shared/schema";
+
+export const DUE_SOON_DAYS = 14;
+
+export type ReminderDueState = "completed" | "overdue" | "due_soon" | "upcoming";
+
+export function getReminderDueState(reminder: MaintenanceReminder, now = new Date()): ReminderDueState {
+  if (reminder.completed) {
+    return "completed";
+  }
+  const daysUntilDue = differenceInCalendarDays(new Date(reminder.dueDate), now);
+  if (daysUntilDue < 0) {
+    return "overdue";
+  }
+  return daysUntilDue <= DUE_SOON_DAYS ? "due_soon" : "upcoming";
+}
+
+export function ReminderDueBadge({ reminder }: { reminder: MaintenanceReminder }) {
+  const state = getReminderDueState(reminder);
+  switch (state) {
+    case "overdue":
+      return <Badge variant="destructive">Overdue</Badge>;
+    case "due_soon":
+      return <Badge variant="default">Due soon</Badge>;
+    case "completed":
+      return <Badge variant="secondary">Completed</Badge>;
+    default:
+      return <Badge variant="outline">Upcoming</Badge>;
+  }
+}
+
+export const invalidateReminderQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/reminders/due"] });
+};
+
+type ReminderFormState = {
+  title: string;
+  description: string;
+  dueDate: string;
+  vehicleId: string;
+};
+
+const NO_VEHICLE = "none";
+
+type RemindersCardProps = {
+  customerId: number;
+  vehicleId?: number;
+  vehicles?: Vehicle[];
+};
+
+export function RemindersCard({ customerId, vehicleId, vehicles = [] }: RemindersCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ReminderFormState>(() => ({
+    title: "",
+    description: "",
+    dueDate: format(new Date(), "yyyy-MM-dd"),
+    vehicleId: vehicleId ? String(vehicleId) : NO_VEHICLE,
+  }));
+
+  const canEdit = hasPermission(user, "reminder.manage");
+  const vehiclesById = new Map(vehicles.map((vehicle) => [vehicle.id, vehicle]));
+
+  const { data: reminders = [], isLoading, error } = useQuery<MaintenanceReminder[]>({
+    queryKey: ["/api/reminders", { customerId, vehicleId, showCompleted }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (vehicleId !== undefined) {
+        params.set("vehicleId", String(vehicleId));
+      } else {
+        params.set("customerId", String(customerId));
+      }
+      if (showCompleted) {
+        params.set("includeCompleted", "true");
+      }
+      const res = await apiRequest("GET", `/api/reminders?${params.toString()}`);
+      return await res.json();
+    },
+  });
+
+  const createMutation = useMutation<MaintenanceReminder, Error, ReminderFormState>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("POST", "/api/reminders", {
+        customerId,
+        vehicleId: data.vehicleId === NO_VEHICLE ? null : Number.parseInt(data.vehicleId, 10),
+        title: data.title.trim(),
+        description: data.description.trim() || null,
+        dueDate: new Date(data.dueDate).toISOString(),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateReminderQueries();
+      toast({ title: "Reminder added" });
+      setDialogOpen(false);
+      setForm((previous) => ({ ...previous, title: "", description: "" }));
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to add reminder", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const completeMutation = useMutation<MaintenanceReminder, Error, number>({
+    mutationFn: async (id) => {
+      const res = await apiRequest("POST", `/api/reminders/${id}/complete`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateReminderQueries();
+      toast({ title: "Reminder completed" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to complete reminder", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation<void, Error, number>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `/api/reminders/${id}`);
+    },
+    onSuccess: () => {
+      invalidateReminderQueries();
+      toast({ title: "Reminder deleted" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to delete reminder", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form.title.trim()) {
+      toast({ title: "Add a reminder title" });
+      return;
+    }
+    createMutation.mutate(form);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-muted-foreground" />
+          Maintenance reminders
+        </CardTitle>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`show-completed-${customerId}-${vehicleId ?? "all"}`}
+              checked={showCompleted}
+              onCheckedChange={setShowCompleted}
+            />
+            <Label htmlFor={`show-completed-${customerId}-${vehicleId ?? "all"}`} className="text-sm">
+              Show completed
+            </Label>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => setDialogOpen(true)} data-testid="button-add-reminder">
+              <Plus className="mr-2 h-4 w-4" />
+              Add reminder
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((key) => (
+              <Skeleton key={key} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load reminders: {error.message}</p>
+        ) : reminders.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">No reminders on file.</div>
+        ) : (
+          <div className="space-y-3">
+            {reminders.map((reminder) => {
+              const vehicle = reminder.vehicleId ? vehiclesById.get(reminder.vehicleId) : undefined;
+              return (
+                <div
+                  key={reminder.id}
+                  className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+                  data-testid={`reminder-${reminder.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium">{reminder.title}</p>
+                      <ReminderDueBadge reminder={reminder} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Due {format(new Date(reminder.dueDate), "PPP")}
+                      {vehicle ? ` · ${vehicle.plateNumber}` : ""}
+                      {reminder.completedAt
+                        ? ` · Completed ${format(new Date(reminder.completedAt), "PPP")}`
+                        : ""}
+                    </p>
+                    {reminder.description && (
+                      <p className="text-sm text-muted-foreground whitespace-pre-line">{reminder.description}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      {!reminder.completed && (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => completeMutation.mutate(reminder.id)}
+                          disabled={completeMutation.isPending}
+                        >
+                          <Check className="mr-2 h-4 w-4" />
+                          Done
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(reminder.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label={`Delete reminder ${reminder.title}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Add reminder</DialogTitle>
+              <DialogDescription>Schedule a follow-up so the front desk knows when to call.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="reminder-title">Title *</Label>
+                <Input
+                  id="reminder-title"
+                  value={form.title}
+                  onChange={(event) => setForm({ ...form, title: event.target.value })}
+                  placeholder="Oil change, tyre rotation…"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reminder-due">Due date *</Label>
+                <Input
+                  id="reminder-due"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(event) => setForm({ ...form, dueDate: event.target.value })}
+                  required
+                />
+              </div>
+              {vehicleId === undefined && vehicles.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Vehicle</Label>
+                  <Select value={form.vehicleId} onValueChange={(value) => setForm({ ...form, vehicleId: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any vehicle" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_VEHICLE}>Not vehicle specific</SelectItem>
+                      {vehicles.map((vehicle) => (
+                        <SelectItem key={vehicle.id} value={String(vehicle.id)}>
+                          {vehicle.plateNumber} · {vehicle.make} {vehicle.model}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="reminder-description">Notes</Label>
+                <Textarea
+                  id="reminder-description"
+                  value={form.description}
+                  onChange={(event) => setForm({ ...form, description: event.target.value })}
+                  rows={3}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? "Saving..." : "Save reminder"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
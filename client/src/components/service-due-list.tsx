@@ -0,0 +1,70 @@
+import { format } from "date-fns";
+import { Gauge } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { ServiceDueProjection, ServiceDueState } from "@shared/service-intervals";
+
+const stateBadge: Record<ServiceDueState, { label: string; variant: "destructive" | "default" | "outline" | "secondary" }> = {
+  overdue: { label: "Overdue", variant: "destructive" },
+  due_soon: { label: "Due soon", variant: "default" },
+  ok: { label: "OK", variant: "outline" },
+  unknown: { label: "No history", variant: "secondary" },
+};
+
+const formatKm = (value: number) => `${Math.round(value).toLocaleString()} km`;
+
+function describeInterval(projection: ServiceDueProjection): string {
+  const parts: string[] = [];
+  if (projection.intervalKm) {
+    parts.push(`every ${formatKm(projection.intervalKm)}`);
+  }
+  if (projection.intervalMonths) {
+    parts.push(`${projection.intervalMonths} month${projection.intervalMonths === 1 ? "" : "s"}`);
+  }
+  return parts.join(" or ");
+}
+
+export function ServiceDueList({ projections }: { projections: ServiceDueProjection[] }) {
+  if (projections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {projections.map((projection) => {
+        const badge = stateBadge[projection.state];
+        return (
+          <div
+            key={projection.serviceType}
+            className="flex flex-col gap-2 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+            data-testid={`service-due-${projection.serviceType}`}
+          >
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="font-medium">{projection.serviceType}</p>
+                <Badge variant={badge.variant}>{badge.label}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">{describeInterval(projection)}, whichever first</p>
+            </div>
+            <div className="space-y-1 text-sm text-muted-foreground sm:text-right">
+              {projection.state === "unknown" ? (
+                <p>Not yet performed on this vehicle</p>
+              ) : (
+                <>
+                  {projection.dueDate && <p>Due by {format(new Date(projection.dueDate), "PPP")}</p>}
+                  {projection.dueOdometer !== null && <p>or at {formatKm(projection.dueOdometer)}</p>}
+                </>
+              )}
+              {projection.estimatedOdometer !== null && (
+                <p className="flex items-center gap-1 text-xs sm:justify-end">
+                  <Gauge className="h-3 w-3" />
+                  Est. {formatKm(projection.estimatedOdometer)}
+                  {projection.kmPerDay !== null && ` · ~${Math.round(projection.kmPerDay)} km/day`}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { calculateItemTax, summarizeServiceTotals } from "@shared/pricing";
+import type { EstimateItem, ServiceItem, ServiceItemInput, TaxMode } from "@shared/schema";
+
+export type ServiceItemDraft = {
+  key: string;
+  id?: number;
+  description: string;
+  partNumber: string;
+  quantity: string;
+  unitCost: string;
+  laborHours: string;
+  laborRate: string;
+  // Blank uses the service's VAT rate
+  taxRate: string;
+};
+
+type EditableField = Exclude<keyof ServiceItemDraft, "key" | "id">;
+
+let draftCounter = 0;
+const nextDraftKey = () => {
+  draftCounter += 1;
+  return `item-${draftCounter}`;
+};
+
+export const createEmptyItemDraft = (): ServiceItemDraft => ({
+  key: nextDraftKey(),
+  description: "",
+  partNumber: "",
+  quantity: "1",
+  unitCost: "",
+  laborHours: "",
+  laborRate: "",
+  taxRate: "",
+});
+
+export const toItemDraft = (item: ServiceItem | EstimateItem): ServiceItemDraft => ({
+  key: `saved-${item.id}`,
+  id: item.id,
+  description: item.description,
+  partNumber: item.partNumber ?? "",
+  quantity: String(item.quantity),
+  unitCost: String(item.unitCost),
+  laborHours: String(item.laborHours),
+  laborRate: String(item.laborRate),
+  taxRate: item.taxRate === null ? "" : String(item.taxRate),
+});
+
+const parseOrZero = (value: string): number => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const toItemPayload = (draft: ServiceItemDraft): ServiceItemInput => ({
+  description: draft.description.trim(),
+  partNumber: draft.partNumber.trim() || null,
+  quantity: parseOrZero(draft.quantity),
+  unitCost: parseOrZero(draft.unitCost),
+  laborHours: parseOrZero(draft.laborHours),
+  laborRate: parseOrZero(draft.laborRate),
+  taxRate: draft.taxRate.trim() ? parseOrZero(draft.taxRate) : null,
+});
+
+// Rows without a description are treated as blank placeholders and never submitted.
+export const isBlankItemDraft = (draft: ServiceItemDraft): boolean => !draft.description.trim();
+
+export type ServiceTaxSettings = {
+  mode: TaxMode;
+  rate: number;
+};
+
+type ServiceItemsGridProps = {
+  items: ServiceItemDraft[];
+  onChange?: (items: ServiceItemDraft[]) => void;
+  formatCurrency: (value: number) => string;
+  tax: ServiceTaxSettings;
+  readOnly?: boolean;
+};
+
+export function ServiceItemsGrid({ items, onChange, formatCurrency, tax, readOnly = false }: ServiceItemsGridProps) {
+  const totals = summarizeServiceTotals(
+    { laborCost: 0, partsCost: 0, taxMode: tax.mode, taxRate: tax.rate },
+    items,
+  );
+
+  // Line totals are shown the way prices were entered: gross when inclusive, net otherwise.
+  const lineAmount = (item: ServiceItemDraft) => {
+    const line = calculateItemTax(item, tax.mode, tax.rate);
+    return tax.mode === "inclusive" ? line.gross : line.net;
+  };
+
+  const updateItem = (key: string, field: EditableField, value: string) => {
+    onChange?.(items.map((item) => (item.key === key ? { ...item, [field]: value } : item)));
+  };
+
+  const removeItem = (key: string) => {
+    onChange?.(items.filter((item) => item.key !== key));
+  };
+
+  const addItem = () => {
+    onChange?.([...items, createEmptyItemDraft()]);
+  };
+
+  const renderCell = (
+    item: ServiceItemDraft,
+    field: EditableField,
+    props: { numeric?: boolean; placeholder?: string },
+  ) =>
+    readOnly ? (
+      <span className={props.numeric ? "tabular-nums" : undefined}>{item[field] || "—"}</span>
+    ) : (
+      <Input
+        value={item[field]}
+        onChange={(event) => updateItem(item.key, field, event.target.value)}
+        placeholder={props.placeholder}
+        type={props.numeric ? "number" : "text"}
+        inputMode={props.numeric ? "decimal" : undefined}
+        min={props.numeric ? "0" : undefined}
+        step={props.numeric ? "0.01" : undefined}
+        className="h-9"
+        aria-label={field}
+      />
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <Table className="min-w-[900px]">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[28%]">Description</TableHead>
+              <TableHead>Part #</TableHead>
+              <TableHead>Qty</TableHead>
+              <TableHead>Unit cost</TableHead>
+              <TableHead>Labor hrs</TableHead>
+              <TableHead>Labor rate</TableHead>
+              <TableHead>VAT %</TableHead>
+              <TableHead className="text-right">
+                Line total {tax.mode === "inclusive" ? "(incl. VAT)" : "(excl. VAT)"}
+              </TableHead>
+              {!readOnly && <TableHead className="w-10" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={readOnly ? 8 : 9} className="py-6 text-center text-sm text-muted-foreground">
+                  No line items yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((item) => (
+                <TableRow key={item.key} data-testid={`row-service-item-${item.key}`}>
+                  <TableCell>{renderCell(item, "description", { placeholder: "Oil filter, brake pads…" })}</TableCell>
+                  <TableCell>{renderCell(item, "partNumber", { placeholder: "Optional" })}</TableCell>
+                  <TableCell>{renderCell(item, "quantity", { numeric: true })}</TableCell>
+                  <TableCell>{renderCell(item, "unitCost", { numeric: true, placeholder: "0.00" })}</TableCell>
+                  <TableCell>{renderCell(item, "laborHours", { numeric: true, placeholder: "0" })}</TableCell>
+                  <TableCell>{renderCell(item, "laborRate", { numeric: true, placeholder: "0.00" })}</TableCell>
+                  <TableCell>{renderCell(item, "taxRate", { numeric: true, placeholder: String(tax.rate) })}</TableCell>
+                  <TableCell className="text-right font-medium tabular-nums">
+                    {formatCurrency(lineAmount(item))}
+                  </TableCell>
+                  {!readOnly && (
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeItem(item.key)}
+                        aria-label={`Remove ${item.description || "line item"}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={7} className="text-right text-muted-foreground">
+                Labor {formatCurrency(totals.laborCost)} · Parts {formatCurrency(totals.partsCost)} · Net{" "}
+                {formatCurrency(totals.netTotal)} · VAT {formatCurrency(totals.taxTotal)}
+              </TableCell>
+              <TableCell className="text-right font-semibold tabular-nums">
+                {formatCurrency(totals.grossTotal)}
+              </TableCell>
+              {!readOnly && <TableCell />}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+      {!readOnly && (
+        <Button type="button" variant="secondary" size="sm" onClick={addItem} data-testid="button-add-service-item">
+          <Plus className="mr-2 h-4 w-4" />
+          Add line item
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { format, formatDistanceToNow } from "date-fns";
+import { Monitor, Smartphone, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { ActiveSession } from "@shared/schema";
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const systems: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Good enough to tell a user's devices apart; the full user agent is kept in the tooltip
+const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Browser";
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return system ? `${browser} on ${system}` : browser;
+};
+
+const isMobile = (userAgent: string | null) => Boolean(userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent));
+
+type SessionListProps = {
+  sessions: ActiveSession[];
+  // Omit to show the list read-only
+  onRevoke?: (session: ActiveSession) => void;
+  revoking?: boolean;
+};
+
+export function SessionList({ sessions, onRevoke, revoking = false }: SessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((session) => {
+        const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+        return (
+          <div
+            key={session.id}
+            className="flex items-start justify-between gap-3 rounded-lg border p-3"
+            data-testid={`session-${session.id}`}
+          >
+            <div className="flex min-w-0 items-start gap-3">
+              <Icon className="mt-0.5 h-5 w-5 flex-shrink-0 text-muted-foreground" />
+              <div className="min-w-0 space-y-1">
+                <p className="flex flex-wrap items-center gap-2 font-medium" title={session.userAgent ?? undefined}>
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && <Badge variant="outline">This device</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {session.ipAddress ?? "Unknown IP"}
+                  {session.lastSeenAt &&
+                    ` · active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {session.createdAt ? `Signed in ${format(new Date(session.createdAt), "PPP p")} · ` : ""}
+                  Expires {format(new Date(session.expiresAt), "PPP p")}
+                </p>
+              </div>
+            </div>
+            {onRevoke && !session.current && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRevoke(session)}
+                disabled={revoking}
+                aria-label="Sign out this session"
+                data-testid={`button-revoke-session-${session.id}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
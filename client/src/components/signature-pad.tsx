@@ -0,0 +1,96 @@
+import { useEffect, useRef, type PointerEvent } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type SignaturePadProps = {
+  // Receives a PNG of the signature after each stroke, or null once cleared
+  onChange: (signature: Blob | null) => void;
+  height?: number;
+};
+
+export function SignaturePad({ onChange, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // Match the backing store to the rendered size so strokes line up with the pointer.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.strokeStyle = "#111827";
+    }
+  }, [height]);
+
+  const pointFor = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointFor(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!drawingRef.current || !context) {
+      return;
+    }
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) {
+      return;
+    }
+    drawingRef.current = false;
+    event.currentTarget.toBlob((blob) => onChange(blob), "image/png");
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full touch-none rounded-md border bg-white"
+        style={{ height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        data-testid="canvas-signature"
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Sign inside the box</span>
+        <Button type="button" variant="ghost" size="sm" onClick={clear}>
+          <Eraser className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTechnicians } from "@/hooks/use-technicians";
+
+export const ALL_TECHNICIANS = "all";
+export const UNASSIGNED_TECHNICIAN = "unassigned";
+
+type TechnicianSelectProps = {
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+  className?: string;
+  // Adds an "All technicians" option for list filters
+  includeAll?: boolean;
+};
+
+export function TechnicianSelect({ value, onValueChange, id, className, includeAll = false }: TechnicianSelectProps) {
+  const { technicians } = useTechnicians();
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={className} aria-label={id ? undefined : "Technician"}>
+        <SelectValue placeholder="Select technician" />
+      </SelectTrigger>
+      <SelectContent>
+        {includeAll && <SelectItem value={ALL_TECHNICIANS}>All technicians</SelectItem>}
+        <SelectItem value={UNASSIGNED_TECHNICIAN}>Unassigned</SelectItem>
+        {technicians.map((technician) => (
+          <SelectItem key={technician.id} value={technician.id}>
+            {technician.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
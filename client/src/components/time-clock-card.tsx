@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Clock, Play, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { formatHours, useNow, useTimeClock } from "@/hooks/use-time-clock";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { clockedHours } from "@shared/time-clock";
+import { hasPermission } from "@shared/permissions";
+import type { Service, ServiceItem, TimeEntry, User } from "@shared/schema";
+
+type TimeEntryRow = {
+  entry: TimeEntry;
+  technician: Pick<User, "id" | "name" | "username"> | null;
+};
+
+const OWN_LABOR_LINE = "own";
+
+type TimeClockCardProps = {
+  service: Service;
+  items: ServiceItem[];
+};
+
+export function TimeClockCard({ service, items }: TimeClockCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const now = useNow();
+  const { active, clockOnMutation, clockOffMutation } = useTimeClock();
+  const [serviceItemId, setServiceItemId] = useState(OWN_LABOR_LINE);
+
+  const canClock = hasPermission(user, "time.clock");
+  const canManage = hasPermission(user, "time.manage");
+  const isOpenJob = service.status === "scheduled" || service.status === "in_progress";
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  const { data: rows = [], isLoading, error } = useQuery<TimeEntryRow[]>({
+    queryKey: ["/api/services", service.id.toString(), "time-entries"],
+  });
+
+  const deleteMutation = useMutation<void, Error, number>({
+    mutationFn: async (entryId) => {
+      await apiRequest("DELETE", `/api/time-entries/${entryId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", service.id.toString()] });
+      toast({ title: "Time entry removed" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to remove time entry", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const hoursByTechnician = new Map<string, { name: string; hours: number }>();
+  for (const { entry, technician } of rows) {
+    const current = hoursByTechnician.get(entry.technicianId) ?? { name: technician?.name ?? "Unknown", hours: 0 };
+    current.hours += clockedHours(entry, now);
+    hoursByTechnician.set(entry.technicianId, current);
+  }
+
+  const activeHere = active?.entry.serviceId === service.id ? active.entry : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-muted-foreground" />
+          Time clock
+        </CardTitle>
+        {canClock &&
+          (activeHere ? (
+            <Button
+              variant="destructive"
+              onClick={() => clockOffMutation.mutate(activeHere.id)}
+              disabled={clockOffMutation.isPending}
+              data-testid="button-clock-off"
+            >
+              <Square className="mr-2 h-4 w-4" />
+              Clock off · {formatHours(clockedHours(activeHere, now))}
+            </Button>
+          ) : isOpenJob && !active ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={serviceItemId} onValueChange={setServiceItemId}>
+                <SelectTrigger className="w-56" aria-label="Line item to clock against">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={OWN_LABOR_LINE}>My labor line</SelectItem>
+                  {items.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() =>
+                  clockOnMutation.mutate({
+                    serviceId: service.id,
+                    serviceItemId: serviceItemId === OWN_LABOR_LINE ? null : Number.parseInt(serviceItemId, 10),
+                  })
+                }
+                disabled={clockOnMutation.isPending}
+                data-testid="button-clock-on"
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Clock on
+              </Button>
+            </div>
+          ) : active ? (
+            <p className="text-sm text-muted-foreground">Clocked on to service #{active.entry.serviceId}</p>
+          ) : null)}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {hoursByTechnician.size > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {Array.from(hoursByTechnician.entries()).map(([technicianId, summary]) => (
+              <Badge key={technicianId} variant="secondary">
+                {summary.name}: {formatHours(summary.hours)}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load time entries: {error.message}</p>
+        ) : rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nobody has clocked on to this job yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Technician</TableHead>
+                <TableHead>Line item</TableHead>
+                <TableHead>On</TableHead>
+                <TableHead>Off</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+                {canManage && <TableHead className="w-10" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ entry, technician }) => (
+                <TableRow key={entry.id} data-testid={`row-time-entry-${entry.id}`}>
+                  <TableCell className="font-medium">{technician?.name ?? "Unknown"}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate text-muted-foreground">
+                    {entry.serviceItemId ? itemsById.get(entry.serviceItemId)?.description ?? "—" : "—"}
+                  </TableCell>
+                  <TableCell>{format(new Date(entry.startedAt), "MMM d, HH:mm")}</TableCell>
+                  <TableCell>
+                    {entry.endedAt ? format(new Date(entry.endedAt), "HH:mm") : <Badge variant="default">On the clock</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatHours(clockedHours(entry, now))}</TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(entry.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Remove time entry"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
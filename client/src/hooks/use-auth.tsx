@@ -4,15 +4,17 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User as SelectUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import type { SessionUser, TwoFactorChallenge } from "@shared/schema";
+import { getQueryFn, apiRequest, parseApiError, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: SessionUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // Resolves to a challenge instead of the user when the account has 2FA turned on
+  loginMutation: UseMutationResult<SessionUser | TwoFactorChallenge, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<SessionUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
 };
 
@@ -29,26 +31,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | undefined, Error>({
+  } = useQuery<SessionUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const showLoginError = (error: Error) => {
+    const { status, message } = parseApiError(error);
+    // Throttled and locked sign-ins are explained inline on the login form.
+    if (status === 429) {
+      return;
+    }
+    toast({
+      title: "Login failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: SessionUser | TwoFactorChallenge) => {
+      if (!("twoFactorRequired" in result)) {
+        queryClient.setQueryData(["/api/user"], result);
+      }
     },
-    onError: (error: Error) => {
-      toast({
-        title: "Login failed",
-        description: error.message,
-        variant: "destructive",
-      });
+    onError: (error: Error) => showLoginError(error),
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", { code });
+      return await res.json();
+    },
+    onSuccess: (user: SessionUser) => {
+      queryClient.setQueryData(["/api/user"], user);
     },
+    onError: (error: Error) => showLoginError(error),
   });
 
   const logoutMutation = useMutation({
@@ -74,6 +96,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
       }}
     >
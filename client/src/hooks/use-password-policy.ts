@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_PASSWORD_POLICY, type PasswordPolicy } from "@shared/password-policy";
+
+// Server-configured strength rules, so forms can explain them before submitting.
+export function usePasswordPolicy(): PasswordPolicy {
+  const { data } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+  return data ?? DEFAULT_PASSWORD_POLICY;
+}
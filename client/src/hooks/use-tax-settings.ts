@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import type { TaxMode } from "@shared/schema";
+
+export type TaxSettings = {
+  rate: number;
+  mode: TaxMode;
+  sellerName: string;
+  sellerVatNumber: string;
+};
+
+const FALLBACK_TAX_SETTINGS: TaxSettings = {
+  rate: 15,
+  mode: "exclusive",
+  sellerName: "",
+  sellerVatNumber: "",
+};
+
+// Shop-wide VAT defaults used to pre-fill new services.
+export function useTaxSettings(): TaxSettings {
+  const { data } = useQuery<TaxSettings>({
+    queryKey: ["/api/tax-settings"],
+  });
+  return data ?? FALLBACK_TAX_SETTINGS;
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+
+export type Technician = Pick<User, "id" | "name" | "username">;
+
+// Admin and mechanic accounts that services can be assigned to.
+export function useTechnicians() {
+  const { data: technicians = [], isLoading } = useQuery<Technician[]>({
+    queryKey: ["/api/technicians"],
+  });
+  return { technicians, isLoading };
+}
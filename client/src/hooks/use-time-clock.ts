@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Service, TimeEntry, Vehicle } from "@shared/schema";
+
+export type ActiveTimeEntry = {
+  entry: TimeEntry;
+  service: Service | null;
+  vehicle: Vehicle | null;
+};
+
+type ClockOnInput = {
+  serviceId: number;
+  serviceItemId?: number | null;
+};
+
+const invalidateTimeClockQueries = (serviceId: number) => {
+  queryClient.invalidateQueries({ queryKey: ["/api/time-clock/active"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/time-clock/jobs"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/services", serviceId.toString()] });
+};
+
+// The signed-in technician's running time entry plus clock on/off actions.
+export function useTimeClock() {
+  const { toast } = useToast();
+
+  const { data: active = null, isLoading } = useQuery<ActiveTimeEntry | null>({
+    queryKey: ["/api/time-clock/active"],
+  });
+
+  const clockOnMutation = useMutation<TimeEntry, Error, ClockOnInput>({
+    mutationFn: async ({ serviceId, serviceItemId }) => {
+      const res = await apiRequest("POST", `/api/services/${serviceId}/clock-on`, { serviceItemId });
+      return await res.json();
+    },
+    onSuccess: (entry) => {
+      invalidateTimeClockQueries(entry.serviceId);
+      toast({ title: "Clocked on" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to clock on", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clockOffMutation = useMutation<TimeEntry, Error, number>({
+    mutationFn: async (entryId) => {
+      const res = await apiRequest("POST", `/api/time-entries/${entryId}/clock-off`);
+      return await res.json();
+    },
+    onSuccess: (entry) => {
+      invalidateTimeClockQueries(entry.serviceId);
+      toast({ title: "Clocked off" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to clock off", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return { active, isLoading, clockOnMutation, clockOffMutation };
+}
+
+// Re-renders every `intervalMs` so running timers stay current.
+export function useNow(intervalMs = 30_000): Date {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+export const formatHours = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, "0")}m`;
+};
@@ -7,6 +7,31 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export type ApiError = {
+  status: number | null;
+  message: string;
+  body: Record<string, unknown> | null;
+};
+
+// Splits the "<status>: <body>" errors thrown above back into the status and the server's `error` message.
+export function parseApiError(error: Error): ApiError {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) {
+    return { status: null, message: error.message, body: null };
+  }
+
+  const status = Number.parseInt(match[1], 10);
+  try {
+    const body = JSON.parse(match[2]);
+    if (body && typeof body === "object") {
+      return { status, message: typeof body.error === "string" ? body.error : match[2], body };
+    }
+  } catch {
+    // Plain-text bodies such as "Unauthorized" are used as-is.
+  }
+  return { status, message: match[2], body: null };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
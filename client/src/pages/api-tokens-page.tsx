@@ -0,0 +1,287 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, Plug, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission, PERMISSION_GROUPS, type Permission } from "@shared/permissions";
+import type { ApiTokenSummary, CreateApiToken, CreatedApiToken } from "@shared/schema";
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+const permissionLabels = new Map<string, string>(
+  PERMISSION_GROUPS.flatMap((group) => group.permissions.map(({ key, label }) => [key, label] as const)),
+);
+
+const isExpired = (token: ApiTokenSummary) => Boolean(token.expiresAt && new Date(token.expiresAt) <= new Date());
+
+export default function ApiTokensPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [expiry, setExpiry] = useState("90");
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<ApiTokenSummary | null>(null);
+
+  // Tokens can never do more than their owner, so only the user's own permissions are offered
+  const grantableGroups = PERMISSION_GROUPS.map((group) => ({
+    ...group,
+    permissions: group.permissions.filter(({ key }) => hasPermission(user, key)),
+  })).filter((group) => group.permissions.length > 0);
+
+  const { data: tokens = [], isLoading, error } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/user/api-tokens"],
+  });
+
+  const createMutation = useMutation<CreatedApiToken, Error, CreateApiToken>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("POST", "/api/user/api-tokens", data);
+      return await res.json();
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/api-tokens"] });
+      setCreatedToken(created);
+      setName("");
+      setScopes([]);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to create the token", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation<void, Error, ApiTokenSummary>({
+    mutationFn: async (token) => {
+      await apiRequest("DELETE", `/api/user/api-tokens/${token.id}`);
+    },
+    onSuccess: (_data, token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/api-tokens"] });
+      setRevokeTarget(null);
+      if (createdToken?.id === token.id) {
+        setCreatedToken(null);
+      }
+      toast({ title: `Revoked ${token.name}` });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to revoke the token", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (permission: Permission, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, permission] : current.filter((entry) => entry !== permission)));
+  };
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    createMutation.mutate({
+      name,
+      scopes,
+      expiresInDays: expiry === "never" ? undefined : Number.parseInt(expiry, 10),
+    });
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(createdToken.token);
+      toast({ title: "Token copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the token and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plug className="h-5 w-5 text-muted-foreground" />
+            New API token
+          </CardTitle>
+          <CardDescription>
+            Scripts and kiosks send the token as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+            Every token can read what you can; tick the actions it may also perform.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {createdToken ? (
+            <div className="space-y-4">
+              <p className="text-sm">
+                Copy the token for <span className="font-medium">{createdToken.name}</span> now. It will not be shown
+                again.
+              </p>
+              <p className="break-all rounded-md border bg-muted p-4 font-mono text-sm" data-testid="text-created-api-token">
+                {createdToken.token}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" onClick={copyToken}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button type="button" className="flex-1" onClick={() => setCreatedToken(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+                <div className="space-y-2">
+                  <Label htmlFor="api-token-name">Name</Label>
+                  <Input
+                    id="api-token-name"
+                    placeholder="Accounting spreadsheet"
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    maxLength={100}
+                    required
+                    data-testid="input-api-token-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="api-token-expiry">Expires after</Label>
+                  <Select value={expiry} onValueChange={setExpiry}>
+                    <SelectTrigger id="api-token-expiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {expiryOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {grantableGroups.map((group) => (
+                <div key={group.label} className="space-y-2">
+                  <p className="text-xs font-semibold uppercase text-muted-foreground">{group.label}</p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {group.permissions.map((permission) => (
+                      <label key={permission.key} className="flex items-start gap-2 text-sm">
+                        <Checkbox
+                          checked={scopes.includes(permission.key)}
+                          onCheckedChange={(checked) => toggleScope(permission.key, checked === true)}
+                          data-testid={`checkbox-scope-${permission.key}`}
+                        />
+                        {permission.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <Button type="submit" className="w-full" disabled={createMutation.isPending} data-testid="button-create-api-token">
+                {createMutation.isPending ? "Creating..." : "Create token"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle>Your tokens</CardTitle>
+          <CardDescription>Revoke a token as soon as the device or script using it is retired.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load tokens: {error.message}</p>
+          ) : tokens.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No API tokens yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {tokens.map((token) => (
+                <div
+                  key={token.id}
+                  className="flex items-start justify-between gap-3 rounded-lg border p-3"
+                  data-testid={`api-token-${token.id}`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="flex flex-wrap items-center gap-2 font-medium">
+                      {token.name}
+                      <span className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span>
+                      {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {token.scopes.length === 0
+                        ? "Read only"
+                        : token.scopes.map((scope) => permissionLabels.get(scope) ?? scope).join(" · ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {format(new Date(token.createdAt), "PPP")}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}`
+                        : "never used"}
+                      {" · "}
+                      {token.expiresAt ? `expires ${format(new Date(token.expiresAt), "PPP")}` : "never expires"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRevokeTarget(token)}
+                    aria-label={`Revoke ${token.name}`}
+                    data-testid={`button-revoke-api-token-${token.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revokeTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anything still using this token stops working immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeTarget && revokeMutation.mutate(revokeTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={revokeMutation.isPending}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,784 @@
+import { useMemo, useState, type CSSProperties, type FormEvent } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  format,
+  isSameDay,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  LogIn,
+  Plus,
+  Settings2,
+  Undo2,
+  UserX,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { buildDaySlots, formatClockTime, parseClockTime, type OpeningHours } from "@shared/scheduling";
+import type {
+  Appointment,
+  AppointmentStatus,
+  Bay,
+  Customer,
+  Service,
+  ServiceIntervalRule,
+  Vehicle,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+type CalendarView = "day" | "week";
+
+type AppointmentEntry = {
+  appointment: Appointment;
+  bay: Bay | null;
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+};
+
+type BookingForm = {
+  plateNumber: string;
+  bayId: string;
+  date: Date;
+  startMinutes: string;
+  durationMinutes: string;
+  serviceType: string;
+  notes: string;
+};
+
+const NO_SERVICE_TYPE = "none";
+const SLOT_ROW_HEIGHT_REM = 2.75;
+
+const FALLBACK_OPENING_HOURS: OpeningHours = {
+  opensAt: "08:00",
+  closesAt: "18:00",
+  closedDays: [],
+  slotMinutes: 30,
+  timeZone: "UTC",
+};
+
+const statusLabels: Record<AppointmentStatus, string> = {
+  booked: "Booked",
+  checked_in: "Checked in",
+  cancelled: "Cancelled",
+  no_show: "No-show",
+};
+
+const statusClasses: Record<AppointmentStatus, string> = {
+  booked: "border-primary/40 bg-primary/10",
+  checked_in: "border-emerald-500/40 bg-emerald-500/10",
+  cancelled: "border-dashed border-muted-foreground/30 bg-muted/40 text-muted-foreground line-through",
+  no_show: "border-destructive/40 bg-destructive/10 text-muted-foreground",
+};
+
+function AppointmentStatusBadge({ status }: { status: AppointmentStatus }) {
+  const variant = status === "booked" ? "default" : status === "no_show" ? "destructive" : "secondary";
+  return <Badge variant={variant}>{statusLabels[status]}</Badge>;
+}
+
+const invalidateAppointmentQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+};
+
+export default function AppointmentsPage() {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [view, setView] = useState<CalendarView>("day");
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(new Date()));
+  const [datePickerOpen, setDatePickerOpen] = useState(false);
+  const [bookingForm, setBookingForm] = useState<BookingForm | null>(null);
+  const [selectedEntry, setSelectedEntry] = useState<AppointmentEntry | null>(null);
+  const [baysDialogOpen, setBaysDialogOpen] = useState(false);
+  const [newBayName, setNewBayName] = useState("");
+
+  const canEdit = hasPermission(user, "appointment.manage");
+  const canManageBays = hasPermission(user, "bay.manage");
+
+  const { data: openingHours = FALLBACK_OPENING_HOURS } = useQuery<OpeningHours>({
+    queryKey: ["/api/scheduling-settings"],
+  });
+
+  const { data: bays = [], isLoading: loadingBays } = useQuery<Bay[]>({
+    queryKey: ["/api/bays"],
+  });
+
+  const { data: intervalRules = [] } = useQuery<ServiceIntervalRule[]>({
+    queryKey: ["/api/service-intervals"],
+  });
+
+  const range = useMemo(() => {
+    const from = view === "day" ? selectedDate : startOfWeek(selectedDate);
+    return { from, to: addDays(from, view === "day" ? 1 : 7) };
+  }, [view, selectedDate]);
+
+  const {
+    data: entries = [],
+    isLoading: loadingAppointments,
+    error: appointmentsError,
+  } = useQuery<AppointmentEntry[]>({
+    queryKey: ["/api/appointments", { from: range.from.toISOString(), to: range.to.toISOString() }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() });
+      const res = await apiRequest("GET", `/api/appointments?${params.toString()}`);
+      return await res.json();
+    },
+  });
+
+  const slots = useMemo(() => buildDaySlots(openingHours), [openingHours]);
+  const opensAtMinutes = parseClockTime(openingHours.opensAt);
+  const closesAtMinutes = parseClockTime(openingHours.closesAt);
+
+  // Inactive bays stay on the grid while they still hold bookings for the period.
+  const visibleBays = bays.filter(
+    (bay) => bay.active || entries.some((entry) => entry.appointment.bayId === bay.id),
+  );
+  const activeBays = bays.filter((bay) => bay.active);
+
+  const durationOptions = useMemo(() => {
+    const options: number[] = [];
+    for (let minutes = openingHours.slotMinutes; minutes <= closesAtMinutes - opensAtMinutes; minutes += openingHours.slotMinutes) {
+      options.push(minutes);
+    }
+    return options;
+  }, [openingHours.slotMinutes, opensAtMinutes, closesAtMinutes]);
+
+  const isClosedDay = (day: Date) => openingHours.closedDays.includes(day.getDay());
+
+  const openBooking = (prefill: Partial<BookingForm> = {}) => {
+    setBookingForm({
+      plateNumber: "",
+      bayId: activeBays[0] ? String(activeBays[0].id) : "",
+      date: selectedDate,
+      startMinutes: String(slots[0] ?? opensAtMinutes),
+      durationMinutes: String(openingHours.slotMinutes * 2),
+      serviceType: NO_SERVICE_TYPE,
+      notes: "",
+      ...prefill,
+    });
+  };
+
+  const bookMutation = useMutation<Appointment, Error, BookingForm>({
+    mutationFn: async (form) => {
+      const res = await apiRequest("POST", "/api/appointments", {
+        plateNumber: form.plateNumber.trim().toUpperCase(),
+        bayId: Number.parseInt(form.bayId, 10),
+        startsAt: addMinutes(startOfDay(form.date), Number.parseInt(form.startMinutes, 10)).toISOString(),
+        durationMinutes: Number.parseInt(form.durationMinutes, 10),
+        serviceType: form.serviceType === NO_SERVICE_TYPE ? null : form.serviceType,
+        notes: form.notes.trim() || null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateAppointmentQueries();
+      toast({ title: "Appointment booked" });
+      setBookingForm(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to book appointment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation<Appointment, Error, { id: number; status: AppointmentStatus }>({
+    mutationFn: async ({ id, status }) => {
+      const res = await apiRequest("POST", `/api/appointments/${id}/status`, { status });
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      invalidateAppointmentQueries();
+      toast({ title: `Appointment marked ${statusLabels[updated.status].toLowerCase()}` });
+      setSelectedEntry(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update appointment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const checkInMutation = useMutation<{ appointment: Appointment; service: Service }, Error, number>({
+    mutationFn: async (id) => {
+      const res = await apiRequest("POST", `/api/appointments/${id}/check-in`);
+      return await res.json();
+    },
+    onSuccess: ({ service }) => {
+      invalidateAppointmentQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      toast({ title: "Vehicle checked in", description: "The service is now in progress." });
+      setSelectedEntry(null);
+      setLocation(`/services/${service.id}`);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to check in", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createBayMutation = useMutation<Bay, Error, string>({
+    mutationFn: async (name) => {
+      const res = await apiRequest("POST", "/api/bays", { name, sortOrder: bays.length });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bays"] });
+      setNewBayName("");
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add bay", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleBayMutation = useMutation<Bay, Error, Bay>({
+    mutationFn: async (bay) => {
+      const res = await apiRequest("PATCH", `/api/bays/${bay.id}`, { active: !bay.active });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bays"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update bay", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleBookingSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!bookingForm) {
+      return;
+    }
+    if (!bookingForm.plateNumber.trim()) {
+      toast({ title: "Enter the plate number to book" });
+      return;
+    }
+    if (!bookingForm.bayId) {
+      toast({ title: "Choose a bay" });
+      return;
+    }
+    bookMutation.mutate(bookingForm);
+  };
+
+  const shiftDate = (direction: 1 | -1) => {
+    setSelectedDate((current) => addDays(current, direction * (view === "day" ? 1 : 7)));
+  };
+
+  const dayEntries = entries.filter((entry) => isSameDay(new Date(entry.appointment.startsAt), selectedDate));
+
+  const renderDayView = () => {
+    if (isClosedDay(selectedDate)) {
+      return <div className="py-16 text-center text-muted-foreground">The shop is closed on this day.</div>;
+    }
+    if (visibleBays.length === 0) {
+      return (
+        <div className="py-16 text-center text-muted-foreground">
+          No bays set up yet.{canManageBays ? " Use “Manage bays” to add your lifts and work bays." : ""}
+        </div>
+      );
+    }
+
+    const gridStyle: CSSProperties = {
+      gridTemplateColumns: `4.5rem repeat(${visibleBays.length}, minmax(9rem, 1fr))`,
+      gridTemplateRows: `auto repeat(${slots.length}, ${SLOT_ROW_HEIGHT_REM}rem)`,
+    };
+
+    return (
+      <div className="overflow-x-auto">
+        <div className="grid min-w-max gap-px rounded-md border bg-border" style={gridStyle}>
+          <div className="bg-background" />
+          {visibleBays.map((bay, index) => (
+            <div
+              key={bay.id}
+              className="bg-background px-2 py-2 text-sm font-medium"
+              style={{ gridColumn: index + 2, gridRow: 1 }}
+            >
+              {bay.name}
+              {!bay.active && <span className="ml-2 text-xs text-muted-foreground">(inactive)</span>}
+            </div>
+          ))}
+
+          {slots.map((minutes, slotIndex) => (
+            <div
+              key={`time-${minutes}`}
+              className="bg-background px-2 text-xs text-muted-foreground"
+              style={{ gridColumn: 1, gridRow: slotIndex + 2 }}
+            >
+              {formatClockTime(minutes)}
+            </div>
+          ))}
+
+          {visibleBays.map((bay, bayIndex) =>
+            slots.map((minutes, slotIndex) => (
+              <button
+                key={`slot-${bay.id}-${minutes}`}
+                type="button"
+                className="bg-background transition-colors hover:bg-muted/60 disabled:cursor-default disabled:hover:bg-background"
+                style={{ gridColumn: bayIndex + 2, gridRow: slotIndex + 2 }}
+                disabled={!canEdit || !bay.active}
+                onClick={() => openBooking({ bayId: String(bay.id), startMinutes: String(minutes) })}
+                aria-label={`Book ${bay.name} at ${formatClockTime(minutes)}`}
+              />
+            )),
+          )}
+
+          {dayEntries.map((entry) => {
+            const bayIndex = visibleBays.findIndex((bay) => bay.id === entry.appointment.bayId);
+            if (bayIndex < 0) {
+              return null;
+            }
+            const startsAt = new Date(entry.appointment.startsAt);
+            const startOffset = differenceInMinutes(startsAt, startOfDay(startsAt)) - opensAtMinutes;
+            const duration = differenceInMinutes(new Date(entry.appointment.endsAt), startsAt);
+            const firstRow = Math.max(0, Math.floor(startOffset / openingHours.slotMinutes));
+            const span = Math.max(1, Math.ceil(duration / openingHours.slotMinutes));
+            // Cancelled bookings sit behind live ones so a rebooked slot stays clickable.
+            const isInactive = entry.appointment.status === "cancelled" || entry.appointment.status === "no_show";
+
+            return (
+              <button
+                key={entry.appointment.id}
+                type="button"
+                className={`m-0.5 overflow-hidden rounded-md border p-2 text-left text-xs ${statusClasses[entry.appointment.status]} ${isInactive ? "z-0 opacity-70" : "z-10"}`}
+                style={{ gridColumn: bayIndex + 2, gridRow: `${firstRow + 2} / span ${span}` }}
+                onClick={() => setSelectedEntry(entry)}
+                data-testid={`appointment-${entry.appointment.id}`}
+              >
+                <p className="font-mono font-semibold">{entry.vehicle?.plateNumber ?? "—"}</p>
+                <p>
+                  {format(startsAt, "HH:mm")}–{format(new Date(entry.appointment.endsAt), "HH:mm")}
+                </p>
+                <p className="truncate text-muted-foreground">
+                  {entry.appointment.serviceType ?? entry.customer?.name ?? ""}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderWeekView = () => {
+    const days = Array.from({ length: 7 }, (_, index) => addDays(range.from, index));
+    return (
+      <div className="grid gap-3 md:grid-cols-7">
+        {days.map((day) => {
+          const dayList = entries.filter((entry) => isSameDay(new Date(entry.appointment.startsAt), day));
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-40 rounded-md border p-2 ${isClosedDay(day) ? "bg-muted/40" : ""}`}
+            >
+              <button
+                type="button"
+                className={`mb-2 w-full text-left text-sm font-medium ${isSameDay(day, new Date()) ? "text-primary" : ""}`}
+                onClick={() => {
+                  setSelectedDate(startOfDay(day));
+                  setView("day");
+                }}
+              >
+                {format(day, "EEE d MMM")}
+              </button>
+              {isClosedDay(day) ? (
+                <p className="text-xs text-muted-foreground">Closed</p>
+              ) : dayList.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No bookings</p>
+              ) : (
+                <div className="space-y-1">
+                  {dayList.map((entry) => (
+                    <button
+                      key={entry.appointment.id}
+                      type="button"
+                      className={`w-full rounded border p-1.5 text-left text-xs ${statusClasses[entry.appointment.status]}`}
+                      onClick={() => setSelectedEntry(entry)}
+                    >
+                      <span className="font-medium">{format(new Date(entry.appointment.startsAt), "HH:mm")}</span>{" "}
+                      <span className="font-mono">{entry.vehicle?.plateNumber ?? "—"}</span>
+                      <span className="block truncate text-muted-foreground">{entry.bay?.name ?? ""}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const selectedAppointment = selectedEntry?.appointment;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-appointments-title">
+            Appointments
+          </h1>
+          <p className="text-muted-foreground">
+            Book vehicles into bays · open {openingHours.opensAt}–{openingHours.closesAt}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {canManageBays && (
+            <Button variant="outline" onClick={() => setBaysDialogOpen(true)} data-testid="button-manage-bays">
+              <Settings2 className="mr-2 h-4 w-4" />
+              Manage bays
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => openBooking()} disabled={activeBays.length === 0} data-testid="button-new-appointment">
+              <Plus className="mr-2 h-4 w-4" />
+              Book appointment
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => shiftDate(-1)} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="min-w-48 justify-start">
+                  <CalendarDays className="mr-2 h-4 w-4" />
+                  {view === "day"
+                    ? format(selectedDate, "EEEE, d MMM yyyy")
+                    : `${format(range.from, "d MMM")} – ${format(addDays(range.to, -1), "d MMM yyyy")}`}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={(day) => {
+                    if (day) {
+                      setSelectedDate(startOfDay(day));
+                      setDatePickerOpen(false);
+                    }
+                  }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            <Button variant="outline" size="icon" onClick={() => shiftDate(1)} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" onClick={() => setSelectedDate(startOfDay(new Date()))}>
+              Today
+            </Button>
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="day">Day</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {loadingBays || loadingAppointments ? (
+            <Skeleton className="h-96 w-full" />
+          ) : appointmentsError ? (
+            <p className="text-sm text-destructive">Failed to load appointments: {appointmentsError.message}</p>
+          ) : view === "day" ? (
+            renderDayView()
+          ) : (
+            renderWeekView()
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={bookingForm !== null} onOpenChange={(open) => !open && setBookingForm(null)}>
+        <DialogContent className="max-w-lg">
+          {bookingForm && (
+            <form onSubmit={handleBookingSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Book appointment</DialogTitle>
+                <DialogDescription>Reserve a bay for a vehicle. Overlapping bookings are rejected.</DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="booking-plate">Plate number</Label>
+                  <Input
+                    id="booking-plate"
+                    value={bookingForm.plateNumber}
+                    onChange={(event) => setBookingForm({ ...bookingForm, plateNumber: event.target.value })}
+                    className="font-mono uppercase"
+                    placeholder="ABC 1234"
+                    autoFocus
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="booking-bay">Bay</Label>
+                  <Select value={bookingForm.bayId} onValueChange={(value) => setBookingForm({ ...bookingForm, bayId: value })}>
+                    <SelectTrigger id="booking-bay">
+                      <SelectValue placeholder="Choose a bay" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeBays.map((bay) => (
+                        <SelectItem key={bay.id} value={String(bay.id)}>
+                          {bay.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="booking-date">Date</Label>
+                  <Input
+                    id="booking-date"
+                    type="date"
+                    value={format(bookingForm.date, "yyyy-MM-dd")}
+                    onChange={(event) =>
+                      event.target.value &&
+                      setBookingForm({ ...bookingForm, date: startOfDay(new Date(`${event.target.value}T00:00`)) })
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="booking-start">Start</Label>
+                  <Select
+                    value={bookingForm.startMinutes}
+                    onValueChange={(value) => setBookingForm({ ...bookingForm, startMinutes: value })}
+                  >
+                    <SelectTrigger id="booking-start">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {slots.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {formatClockTime(minutes)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="booking-duration">Duration</Label>
+                  <Select
+                    value={bookingForm.durationMinutes}
+                    onValueChange={(value) => setBookingForm({ ...bookingForm, durationMinutes: value })}
+                  >
+                    <SelectTrigger id="booking-duration">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {durationOptions.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes >= 60 ? `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ""}` : `${minutes} min`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="booking-service-type">Service type</Label>
+                  <Select
+                    value={bookingForm.serviceType}
+                    onValueChange={(value) => setBookingForm({ ...bookingForm, serviceType: value })}
+                  >
+                    <SelectTrigger id="booking-service-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SERVICE_TYPE}>General service</SelectItem>
+                      {intervalRules.map((rule) => (
+                        <SelectItem key={rule.id} value={rule.serviceType}>
+                          {rule.serviceType}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="booking-notes">Notes</Label>
+                  <Textarea
+                    id="booking-notes"
+                    value={bookingForm.notes}
+                    onChange={(event) => setBookingForm({ ...bookingForm, notes: event.target.value })}
+                    placeholder="Customer's complaint or requested work"
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setBookingForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={bookMutation.isPending} data-testid="button-submit-appointment">
+                  Book
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={selectedEntry !== null} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent>
+          {selectedEntry && selectedAppointment && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <span className="font-mono">{selectedEntry.vehicle?.plateNumber ?? "Appointment"}</span>
+                  <AppointmentStatusBadge status={selectedAppointment.status} />
+                </DialogTitle>
+                <DialogDescription>
+                  {format(new Date(selectedAppointment.startsAt), "EEEE d MMM yyyy, HH:mm")}–
+                  {format(new Date(selectedAppointment.endsAt), "HH:mm")} · {selectedEntry.bay?.name ?? "Unknown bay"}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 text-sm">
+                {selectedEntry.vehicle && (
+                  <p>
+                    {selectedEntry.vehicle.make} {selectedEntry.vehicle.model} ({selectedEntry.vehicle.year})
+                  </p>
+                )}
+                {selectedEntry.customer && (
+                  <p className="text-muted-foreground">
+                    {selectedEntry.customer.name} · <span className="font-mono">{selectedEntry.customer.phone}</span>
+                  </p>
+                )}
+                {selectedAppointment.serviceType && <p>Service type: {selectedAppointment.serviceType}</p>}
+                {selectedAppointment.notes && (
+                  <p className="whitespace-pre-line text-muted-foreground">{selectedAppointment.notes}</p>
+                )}
+              </div>
+              <DialogFooter className="flex-wrap gap-2">
+                {selectedAppointment.serviceId && (
+                  <Button variant="secondary" onClick={() => setLocation(`/services/${selectedAppointment.serviceId}`)}>
+                    Open service
+                  </Button>
+                )}
+                {canEdit && selectedAppointment.status === "booked" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => statusMutation.mutate({ id: selectedAppointment.id, status: "no_show" })}
+                      disabled={statusMutation.isPending}
+                    >
+                      <UserX className="mr-2 h-4 w-4" />
+                      No-show
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => statusMutation.mutate({ id: selectedAppointment.id, status: "cancelled" })}
+                      disabled={statusMutation.isPending}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel booking
+                    </Button>
+                    <Button
+                      onClick={() => checkInMutation.mutate(selectedAppointment.id)}
+                      disabled={checkInMutation.isPending}
+                      data-testid="button-check-in"
+                    >
+                      <LogIn className="mr-2 h-4 w-4" />
+                      Check in
+                    </Button>
+                  </>
+                )}
+                {canEdit && (selectedAppointment.status === "cancelled" || selectedAppointment.status === "no_show") && (
+                  <Button
+                    variant="outline"
+                    onClick={() => statusMutation.mutate({ id: selectedAppointment.id, status: "booked" })}
+                    disabled={statusMutation.isPending}
+                  >
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Reinstate booking
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={baysDialogOpen} onOpenChange={setBaysDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bays</DialogTitle>
+            <DialogDescription>Lifts and work bays that can be booked. Deactivate a bay to stop new bookings.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {bays.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No bays yet.</p>
+            ) : (
+              bays.map((bay) => (
+                <div key={bay.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                  <span className="font-medium">{bay.name}</span>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`bay-active-${bay.id}`} className="text-sm text-muted-foreground">
+                      Active
+                    </Label>
+                    <Switch
+                      id={`bay-active-${bay.id}`}
+                      checked={bay.active}
+                      onCheckedChange={() => toggleBayMutation.mutate(bay)}
+                      disabled={toggleBayMutation.isPending}
+                    />
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (newBayName.trim()) {
+                createBayMutation.mutate(newBayName.trim());
+              }
+            }}
+          >
+            <Input
+              value={newBayName}
+              onChange={(event) => setNewBayName(event.target.value)}
+              placeholder="Lift 1, Alignment bay…"
+              aria-label="New bay name"
+            />
+            <Button type="submit" disabled={createBayMutation.isPending || !newBayName.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, type FormEvent } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AuditEntryList, auditEntityLabels, useAuditLog, type AuditQuery } from "@/components/audit-history";
+import { auditEntityEnum, type AuditEntity } from "@shared/schema";
+
+const ALL_RECORDS = "all";
+
+type AuditFilterForm = {
+  search: string;
+  entityType: AuditEntity | typeof ALL_RECORDS;
+  from: string;
+  to: string;
+};
+
+const emptyFilters: AuditFilterForm = { search: "", entityType: ALL_RECORDS, from: "", to: "" };
+
+// Date inputs give local calendar days; the "to" day is included in full
+const toAuditQuery = (form: AuditFilterForm): AuditQuery => {
+  const to = form.to ? new Date(`${form.to}T00:00`) : undefined;
+  to?.setDate(to.getDate() + 1);
+  return {
+    search: form.search.trim() || undefined,
+    entityType: form.entityType === ALL_RECORDS ? undefined : form.entityType,
+    from: form.from ? new Date(`${form.from}T00:00`).toISOString() : undefined,
+    to: to?.toISOString(),
+  };
+};
+
+export default function AuditLogPage() {
+  const [form, setForm] = useState<AuditFilterForm>(emptyFilters);
+  const [query, setQuery] = useState<AuditQuery>({});
+
+  const { data: entries = [], isLoading, error } = useAuditLog(query);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setQuery(toAuditQuery(form));
+  };
+
+  const handleReset = () => {
+    setForm(emptyFilters);
+    setQuery({});
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold" data-testid="text-audit-log-title">
+          Audit log
+        </h1>
+        <p className="text-muted-foreground">Who created, changed or deleted customers, vehicles, services, items and media</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Search</CardTitle>
+          <CardDescription>Matches the record name, the person who made the change or their IP address.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-[minmax(0,2fr)_repeat(3,minmax(0,1fr))_auto] md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input
+                id="audit-search"
+                placeholder="Name, plate, user or IP"
+                value={form.search}
+                onChange={(event) => setForm((current) => ({ ...current, search: event.target.value }))}
+                data-testid="input-audit-search"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity">Record</Label>
+              <Select
+                value={form.entityType}
+                onValueChange={(value) => setForm((current) => ({ ...current, entityType: value as AuditFilterForm["entityType"] }))}
+              >
+                <SelectTrigger id="audit-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_RECORDS}>All records</SelectItem>
+                  {auditEntityEnum.enumValues.map((entity) => (
+                    <SelectItem key={entity} value={entity}>
+                      {auditEntityLabels[entity]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={form.from}
+                onChange={(event) => setForm((current) => ({ ...current, from: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={form.to}
+                onChange={(event) => setForm((current) => ({ ...current, to: event.target.value }))}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="ghost" onClick={handleReset}>
+                Reset
+              </Button>
+              <Button type="submit" data-testid="button-audit-search">
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>The latest 100 matching changes, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load the audit log: {error.message}</p>
+          ) : (
+            <AuditEntryList entries={entries} showRecordType />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,22 +5,64 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Wrench, ClipboardCheck, Users, TrendingUp } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Wrench, ClipboardCheck, Users, TrendingUp, Lock } from "lucide-react";
+import { format } from "date-fns";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { parseApiError } from "@/lib/queryClient";
 
 export default function AuthPage() {
-  const { user, loginMutation } = useAuth();
+  const { user, loginMutation, twoFactorMutation } = useAuth();
   const [loginData, setLoginData] = useState({ username: "", password: "" });
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   if (user) {
     return <Redirect to="/" />;
   }
 
+  const challenged = loginMutation.data !== undefined && "twoFactorRequired" in loginMutation.data;
+  const failure = twoFactorMutation.error ?? loginMutation.error;
+  const loginError = failure ? parseApiError(failure) : null;
+  const blocked = loginError?.status === 429 ? loginError : null;
+  const lockedUntil = typeof blocked?.body?.lockedUntil === "string" ? new Date(blocked.body.lockedUntil) : null;
+
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
+    twoFactorMutation.reset();
+    setCode("");
+    setUseRecoveryCode(false);
     loginMutation.mutate(loginData);
   };
 
+  const verifyCode = (value: string) => {
+    if (!value.trim() || twoFactorMutation.isPending) {
+      return;
+    }
+    twoFactorMutation.mutate(value.trim(), {
+      onError: (error) => {
+        setCode("");
+        // The pending sign-in expired or got locked, so the password has to be entered again
+        const { status } = parseApiError(error);
+        if (status === 401 || status === 429) {
+          loginMutation.reset();
+        }
+      },
+    });
+  };
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyCode(code);
+  };
+
+  const startOver = () => {
+    loginMutation.reset();
+    twoFactorMutation.reset();
+    setCode("");
+  };
+
   return (
     <div className="grid min-h-screen lg:grid-cols-2">
       <div className="flex items-center justify-center px-6 py-10 sm:p-12">
@@ -34,44 +76,123 @@ export default function AuthPage() {
           </div>
           <Card>
             <CardHeader>
-              <CardTitle>Welcome Back</CardTitle>
-              <CardDescription>Sign in with your shop credentials to continue</CardDescription>
+              <CardTitle>{challenged ? "Two-factor authentication" : "Welcome Back"}</CardTitle>
+              <CardDescription>
+                {challenged
+                  ? useRecoveryCode
+                    ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+                    : "Enter the 6-digit code from your authenticator app"
+                  : "Sign in with your shop credentials to continue"}
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleLogin} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="login-username">Username</Label>
-                  <Input
-                    id="login-username"
-                    type="text"
-                    placeholder="Enter your username"
-                    value={loginData.username}
-                    onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
-                    required
-                    data-testid="input-login-username"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="login-password">Password</Label>
-                  <Input
-                    id="login-password"
-                    type="password"
-                    placeholder="Enter your password"
-                    value={loginData.password}
-                    onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
-                    required
-                    data-testid="input-login-password"
-                  />
-                </div>
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={loginMutation.isPending}
-                  data-testid="button-login-submit"
-                >
-                  {loginMutation.isPending ? "Signing in..." : "Sign In"}
-                </Button>
-              </form>
+              {challenged ? (
+                <form onSubmit={handleVerify} className="space-y-4">
+                  {useRecoveryCode ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="login-recovery-code">Recovery code</Label>
+                      <Input
+                        id="login-recovery-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="xxxxx-xxxxx"
+                        autoComplete="off"
+                        autoFocus
+                        required
+                        data-testid="input-login-recovery-code"
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex justify-center">
+                      <InputOTP
+                        maxLength={6}
+                        value={code}
+                        onChange={setCode}
+                        onComplete={verifyCode}
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        data-testid="input-login-otp"
+                      >
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={twoFactorMutation.isPending}
+                    data-testid="button-verify-code"
+                  >
+                    {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                  </Button>
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setUseRecoveryCode((previous) => !previous);
+                        setCode("");
+                      }}
+                    >
+                      {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={startOver}>
+                      Start over
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleLogin} className="space-y-4">
+                  {blocked && (
+                    <Alert variant="destructive" data-testid="alert-login-blocked">
+                      <Lock className="h-4 w-4" />
+                      <AlertTitle>{lockedUntil ? "Sign-in locked" : "Too many attempts"}</AlertTitle>
+                      <AlertDescription>
+                        {blocked.message}
+                        {lockedUntil && ` Locked until ${format(lockedUntil, "p")}.`}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="login-username">Username</Label>
+                    <Input
+                      id="login-username"
+                      type="text"
+                      placeholder="Enter your username"
+                      value={loginData.username}
+                      onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
+                      required
+                      data-testid="input-login-username"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={loginData.password}
+                      onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
+                      required
+                      data-testid="input-login-password"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={loginMutation.isPending}
+                    data-testid="button-login-submit"
+                  >
+                    {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                  </Button>
+                </form>
+              )}
               <p className="text-xs text-muted-foreground mt-4 text-center">
                 Use the credentials provided by your shop administrator.
               </p>
@@ -0,0 +1,136 @@
+import { useState, type FormEvent } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { KeyRound, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordRequirements } from "@/components/password-requirements";
+import { useAuth } from "@/hooks/use-auth";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { checkPasswordStrength, describePasswordProblems } from "@shared/password-policy";
+import type { ChangePassword, SessionUser } from "@shared/schema";
+
+type ChangePasswordPageProps = {
+  // Shown instead of the app when an admin requires a new password
+  forced?: boolean;
+};
+
+export default function ChangePasswordPage({ forced = false }: ChangePasswordPageProps) {
+  const [, setLocation] = useLocation();
+  const { logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const policy = usePasswordPolicy();
+  const [form, setForm] = useState({ currentPassword: "", newPassword: "", confirmPassword: "" });
+
+  const changeMutation = useMutation<SessionUser, Error, ChangePassword>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("POST", "/api/user/password", data);
+      return await res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      toast({ title: "Password changed", description: "Other devices have been signed out." });
+      setForm({ currentPassword: "", newPassword: "", confirmPassword: "" });
+      if (!forced) {
+        setLocation("/");
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Failed to change password", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const problems = checkPasswordStrength(form.newPassword, policy);
+    if (problems.length > 0) {
+      toast({ title: describePasswordProblems(problems) });
+      return;
+    }
+    if (form.newPassword !== form.confirmPassword) {
+      toast({ title: "The new passwords do not match" });
+      return;
+    }
+    changeMutation.mutate({ currentPassword: form.currentPassword, newPassword: form.newPassword });
+  };
+
+  const content = (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-muted-foreground" />
+          {forced ? "Choose a new password" : "Change password"}
+        </CardTitle>
+        <CardDescription>
+          {forced
+            ? "Your administrator requires you to set a new password before continuing."
+            : "Changing your password signs you out on every other device."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={form.currentPassword}
+              onChange={(event) => setForm((previous) => ({ ...previous, currentPassword: event.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={form.newPassword}
+              onChange={(event) => setForm((previous) => ({ ...previous, newPassword: event.target.value }))}
+              required
+              data-testid="input-new-password"
+            />
+            <PasswordRequirements password={form.newPassword} policy={policy} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm new password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={form.confirmPassword}
+              onChange={(event) => setForm((previous) => ({ ...previous, confirmPassword: event.target.value }))}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={changeMutation.isPending} data-testid="button-change-password">
+            {changeMutation.isPending ? "Saving..." : "Change password"}
+          </Button>
+          {forced && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+
+  if (forced) {
+    return <div className="flex min-h-screen items-center justify-center p-6">{content}</div>;
+  }
+
+  return <div className="flex justify-center">{content}</div>;
+}
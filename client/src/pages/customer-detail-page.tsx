@@ -1,8 +1,19 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState, type FormEvent } from "react";
 import { useLocation, useRoute } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Table,
   TableBody,
@@ -13,19 +24,50 @@ import {
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, Calendar, DollarSign, Wrench } from "lucide-react";
+import { ChevronLeft, Calendar, DollarSign, Edit, Wrench } from "lucide-react";
 import { format } from "date-fns";
-import type { Customer, Service, Vehicle } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RemindersCard } from "@/components/reminders-card";
+import { ReceivablesCard } from "@/components/receivables-card";
+import { ALL_TECHNICIANS, TechnicianSelect } from "@/components/technician-select";
+import { HistoryTabs } from "@/components/audit-history";
+import type { Customer, InsertCustomer, Service, Vehicle } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 
 const currencyFormatter = new Intl.NumberFormat("en-US", {
   style: "currency",
-  currency: "USD",
+  currency: "SAR",
   minimumFractionDigits: 2,
 });
 
+type CustomerForm = {
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  vatNumber: string;
+  notes: string;
+};
+
+const toCustomerForm = (customer: Customer): CustomerForm => ({
+  name: customer.name,
+  phone: customer.phone,
+  email: customer.email ?? "",
+  address: customer.address ?? "",
+  vatNumber: customer.vatNumber ?? "",
+  notes: customer.notes ?? "",
+});
+
 export default function CustomerDetailPage() {
   const [, setLocation] = useLocation();
   const [match, params] = useRoute("/customers/:id");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editForm, setEditForm] = useState<CustomerForm | null>(null);
+  const [technicianFilter, setTechnicianFilter] = useState(ALL_TECHNICIANS);
+  const canEdit = hasPermission(user, "customer.edit");
 
   const customerId = useMemo(() => {
     const raw = params?.id;
@@ -47,8 +89,14 @@ export default function CustomerDetailPage() {
     isLoading: loadingServices,
     error: servicesError,
   } = useQuery<Service[]>({
-    queryKey: ["/api/services/customer", customerId?.toString() ?? ""],
+    queryKey: ["/api/services/customer", customerId?.toString() ?? "", { technicianId: technicianFilter }],
+    queryFn: async () => {
+      const query = technicianFilter === ALL_TECHNICIANS ? "" : `?technicianId=${encodeURIComponent(technicianFilter)}`;
+      const res = await apiRequest("GET", `/api/services/customer/${customerId}${query}`);
+      return await res.json();
+    },
     enabled: match && customerId !== null,
+    placeholderData: keepPreviousData,
   });
 
   const {
@@ -60,9 +108,41 @@ export default function CustomerDetailPage() {
     enabled: match && customerId !== null,
   });
 
+  const updateCustomerMutation = useMutation<Customer, Error, InsertCustomer>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("PATCH", `/api/customers/${customerId}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({ title: "Customer updated" });
+      setEditForm(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update customer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleEditSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editForm) {
+      return;
+    }
+    updateCustomerMutation.mutate({
+      name: editForm.name.trim(),
+      phone: editForm.phone.trim(),
+      email: editForm.email.trim(),
+      address: editForm.address.trim() || null,
+      vatNumber: editForm.vatNumber.trim() || null,
+      notes: editForm.notes.trim() || null,
+    });
+  };
+
+  const vehiclesById = useMemo(() => new Map(vehicles.map((vehicle) => [vehicle.id, vehicle])), [vehicles]);
+
   useEffect(() => {
     if (!match || customerId === null) {
-      setLocation("/customers");
+      setLocation("/");
     }
   }, [match, customerId, setLocation]);
 
@@ -72,14 +152,13 @@ export default function CustomerDetailPage() {
 
   const isLoading = loadingCustomer || loadingServices || loadingVehicles;
   const errorMessage = customerError?.message || servicesError?.message || vehiclesError?.message;
-  const vehiclesById = useMemo(() => new Map(vehicles.map((vehicle) => [vehicle.id, vehicle])), [vehicles]);
 
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
-        <Button variant="ghost" onClick={() => setLocation("/customers")}>
+        <Button variant="ghost" onClick={() => setLocation("/")}>
           <ChevronLeft className="mr-2 h-4 w-4" />
-          Back to customers
+          Back to search
         </Button>
         <div>
           <h1 className="text-3xl font-bold" data-testid="text-customer-detail-title">
@@ -101,12 +180,25 @@ export default function CustomerDetailPage() {
           </CardContent>
         </Card>
       ) : customer ? (
-        <>
+        <HistoryTabs query={{ entityType: "customer", entityId: customer.id }}>
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>{customer.name}</span>
-                <Badge variant="outline">#{customer.id}</Badge>
+                <div className="flex items-center gap-2">
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditForm(toCustomerForm(customer))}
+                      data-testid="button-edit-customer"
+                    >
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  )}
+                  <Badge variant="outline">#{customer.id}</Badge>
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -128,6 +220,12 @@ export default function CustomerDetailPage() {
                   {customer.address || "—"}
                 </p>
               </div>
+              <div>
+                <p className="text-sm text-muted-foreground">VAT number</p>
+                <p className="font-medium" data-testid="text-customer-detail-vat">
+                  {customer.vatNumber || "—"}
+                </p>
+              </div>
               <div>
                 <p className="text-sm text-muted-foreground">Notes</p>
                 <p className="font-medium" data-testid="text-customer-detail-notes">
@@ -149,7 +247,11 @@ export default function CustomerDetailPage() {
               ) : (
                 <div className="grid gap-4 md:grid-cols-2">
                   {vehicles.map((vehicle) => (
-                    <Card key={vehicle.id} className="border-muted">
+                    <Card
+                      key={vehicle.id}
+                      className="border-muted cursor-pointer hover:bg-muted/50"
+                      onClick={() => setLocation(`/vehicles/${vehicle.id}`)}
+                    >
                       <CardHeader className="pb-2">
                         <CardTitle className="flex items-center justify-between text-base">
                           <span className="font-semibold">
@@ -177,14 +279,26 @@ export default function CustomerDetailPage() {
             </CardContent>
           </Card>
 
+          <RemindersCard customerId={customer.id} vehicles={vehicles} />
+
+          <ReceivablesCard customerId={customer.id} formatCurrency={currencyFormatter.format} />
+
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
               <CardTitle>Service history</CardTitle>
+              <TechnicianSelect
+                value={technicianFilter}
+                onValueChange={setTechnicianFilter}
+                className="w-48"
+                includeAll
+              />
             </CardHeader>
             <CardContent>
               {services.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
-                  This customer does not have any recorded service visits yet.
+                  {technicianFilter === ALL_TECHNICIANS
+                    ? "This customer does not have any recorded service visits yet."
+                    : "No services for this technician."}
                 </div>
               ) : (
                 <Table>
@@ -261,8 +375,85 @@ export default function CustomerDetailPage() {
               )}
             </CardContent>
           </Card>
-        </>
+        </HistoryTabs>
       ) : null}
+
+      <Dialog open={editForm !== null} onOpenChange={(open) => !open && setEditForm(null)}>
+        <DialogContent>
+          <form onSubmit={handleEditSubmit}>
+            <DialogHeader>
+              <DialogTitle>Edit customer</DialogTitle>
+              <DialogDescription>
+                Business customers with a VAT number receive a full tax invoice instead of a simplified one.
+              </DialogDescription>
+            </DialogHeader>
+            {editForm && (
+              <div className="grid gap-4 py-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="customer-name">Name *</Label>
+                  <Input
+                    id="customer-name"
+                    value={editForm.name}
+                    onChange={(event) => setEditForm({ ...editForm, name: event.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customer-phone">Phone *</Label>
+                  <Input
+                    id="customer-phone"
+                    value={editForm.phone}
+                    onChange={(event) => setEditForm({ ...editForm, phone: event.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customer-email">Email</Label>
+                  <Input
+                    id="customer-email"
+                    type="email"
+                    value={editForm.email}
+                    onChange={(event) => setEditForm({ ...editForm, email: event.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customer-vat">VAT number</Label>
+                  <Input
+                    id="customer-vat"
+                    value={editForm.vatNumber}
+                    onChange={(event) => setEditForm({ ...editForm, vatNumber: event.target.value })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="customer-address">Address</Label>
+                  <Input
+                    id="customer-address"
+                    value={editForm.address}
+                    onChange={(event) => setEditForm({ ...editForm, address: event.target.value })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="customer-notes">Notes</Label>
+                  <Textarea
+                    id="customer-notes"
+                    value={editForm.notes}
+                    onChange={(event) => setEditForm({ ...editForm, notes: event.target.value })}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditForm(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateCustomerMutation.isPending}>
+                {updateCustomerMutation.isPending ? "Saving..." : "Save changes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
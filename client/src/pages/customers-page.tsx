@@ -37,6 +37,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import type { Customer, InsertCustomer } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { Skeleton } from "@/components/ui/skeleton";
 
 export default function CustomersPage() {
@@ -150,7 +151,10 @@ export default function CustomersPage() {
       (customer.email && customer.email.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
-  const canEdit = user?.role === "admin" || user?.role === "mechanic";
+  const canCreate = hasPermission(user, "customer.create");
+  const canEdit = hasPermission(user, "customer.edit");
+  const canDelete = hasPermission(user, "customer.delete");
+  const showActions = canEdit || canDelete;
 
   return (
     <div className="space-y-6">
@@ -159,7 +163,7 @@ export default function CustomersPage() {
           <h1 className="text-3xl font-bold" data-testid="text-customers-title">Customers</h1>
           <p className="text-muted-foreground">Manage customer information and contacts</p>
         </div>
-        {canEdit && (
+        {canCreate && (
           <Button
             onClick={() => handleOpenDialog()}
             data-testid="button-add-customer"
@@ -203,7 +207,7 @@ export default function CustomersPage() {
                     <TableHead>Phone</TableHead>
                     <TableHead>Email</TableHead>
                     <TableHead>Address</TableHead>
-                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                    {showActions && <TableHead className="text-right">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -250,31 +254,35 @@ export default function CustomersPage() {
                         <span className="text-muted-foreground">—</span>
                       )}
                     </TableCell>
-                    {canEdit && (
+                    {showActions && (
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              handleOpenDialog(customer);
-                            }}
-                            data-testid={`button-edit-customer-${customer.id}`}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              handleDelete(customer);
-                            }}
-                            data-testid={`button-delete-customer-${customer.id}`}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                handleOpenDialog(customer);
+                              }}
+                              data-testid={`button-edit-customer-${customer.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                handleDelete(customer);
+                              }}
+                              data-testid={`button-delete-customer-${customer.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     )}
@@ -1,14 +1,26 @@
 import { useMemo } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Users, Car, Wrench, DollarSign } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Users, Car, Wrench, DollarSign, Phone, Check } from "lucide-react";
 import { format } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
-import type { Customer, Vehicle, Service } from "@shared/schema";
+import { ReminderDueBadge, invalidateReminderQueries } from "@/components/reminders-card";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Customer, Vehicle, Service, MaintenanceReminder } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+type DueReminderEntry = {
+  reminder: MaintenanceReminder;
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+};
 
 const currencyFormatter = new Intl.NumberFormat("en-US", {
   style: "currency",
@@ -18,6 +30,29 @@ const currencyFormatter = new Intl.NumberFormat("en-US", {
 
 export default function DashboardPage() {
   const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManageReminders = hasPermission(user, "reminder.manage");
+  const canViewRevenue = hasPermission(user, "report.view_revenue");
+
+  const { data: dueReminders = [], isLoading: loadingReminders } = useQuery<DueReminderEntry[]>({
+    queryKey: ["/api/reminders/due"],
+  });
+
+  const completeReminderMutation = useMutation<MaintenanceReminder, Error, number>({
+    mutationFn: async (id) => {
+      const res = await apiRequest("POST", `/api/reminders/${id}/complete`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateReminderQueries();
+      toast({ title: "Reminder completed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to complete reminder", description: error.message, variant: "destructive" });
+    },
+  });
+
   const { data: customers = [], isLoading: loadingCustomers } = useQuery<Customer[]>({
     queryKey: ["/api/customers"],
   });
@@ -190,6 +225,7 @@ export default function DashboardPage() {
         {
           title: "Total Revenue",
           value: currencyFormatter.format(totalRevenueAllTime),
+          revenue: true,
           icon: DollarSign,
           color: "text-amber-600",
           bgColor: "bg-amber-600/10",
@@ -207,6 +243,7 @@ export default function DashboardPage() {
         {
           label: "Revenue this month",
           value: currencyFormatter.format(totalRevenueThisMonth),
+          revenue: true,
         },
       ],
       dailyStats: [
@@ -221,6 +258,7 @@ export default function DashboardPage() {
         {
           label: "Revenue today",
           value: currencyFormatter.format(totalRevenueToday),
+          revenue: true,
         },
       ],
       hourlyChartData: hourlyData,
@@ -238,7 +276,7 @@ export default function DashboardPage() {
       </div>
 
   <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-        {overallStats.map((stat, index) => (
+        {overallStats.filter((stat) => canViewRevenue || !stat.revenue).map((stat, index) => (
           <Card key={stat.title} data-testid={`card-stat-${index}`} className="h-full">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2 p-4 sm:p-6">
               <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
@@ -259,6 +297,70 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle>Follow-up calls</CardTitle>
+          <CardDescription>Maintenance reminders that are overdue or due in the next two weeks.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 p-4 pt-0 sm:px-6 sm:pb-6">
+          {loadingReminders ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : dueReminders.length === 0 ? (
+            <div className="rounded-lg border border-dashed py-8 text-center text-sm text-muted-foreground">
+              No reminders due right now.
+            </div>
+          ) : (
+            dueReminders.map(({ reminder, customer, vehicle }) => (
+              <div
+                key={reminder.id}
+                className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+                data-testid={`due-reminder-${reminder.id}`}
+              >
+                <button
+                  type="button"
+                  className="space-y-1 text-left"
+                  onClick={() => customer && setLocation(`/customers/${customer.id}`)}
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-semibold sm:text-base">{customer?.name ?? "Unknown customer"}</p>
+                    <ReminderDueBadge reminder={reminder} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {reminder.title} · due {format(new Date(reminder.dueDate), "PP")}
+                    {vehicle ? ` · ${vehicle.make} ${vehicle.model} (${vehicle.plateNumber})` : ""}
+                  </p>
+                </button>
+                <div className="flex items-center gap-2">
+                  {customer?.phone && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`tel:${customer.phone}`}>
+                        <Phone className="mr-2 h-4 w-4" />
+                        <span className="font-mono">{customer.phone}</span>
+                      </a>
+                    </Button>
+                  )}
+                  {canManageReminders && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => completeReminderMutation.mutate(reminder.id)}
+                      disabled={completeReminderMutation.isPending}
+                    >
+                      <Check className="mr-2 h-4 w-4" />
+                      Done
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
       <section className="space-y-6">
         <Card>
           <CardHeader className="p-4 sm:p-6">
@@ -320,7 +422,7 @@ export default function DashboardPage() {
                   ))}
                 </div>
               ) : (
-                monthlyStats.map((item) => (
+                monthlyStats.filter((item) => canViewRevenue || !item.revenue).map((item) => (
                   <div
                     key={item.label}
                     className="flex items-center justify-between rounded-lg bg-muted px-4 py-3"
@@ -345,7 +447,7 @@ export default function DashboardPage() {
                   ))}
                 </div>
               ) : (
-                dailyStats.map((item) => (
+                dailyStats.filter((item) => canViewRevenue || !item.revenue).map((item) => (
                   <div
                     key={item.label}
                     className="flex items-center justify-between rounded-lg bg-muted px-4 py-3"
@@ -0,0 +1,501 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Car, CheckCircle2, ChevronLeft, Loader2, Send, Trash2, Undo2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { EstimateStatusBadge } from "@/components/estimates-card";
+import {
+  ServiceItemsGrid,
+  createEmptyItemDraft,
+  isBlankItemDraft,
+  toItemDraft,
+  toItemPayload,
+  type ServiceItemDraft,
+} from "@/components/service-items-grid";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaxSettings } from "@/hooks/use-tax-settings";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  Estimate,
+  EstimateItem,
+  EstimateStatus,
+  Service,
+  ServiceIntervalRule,
+  TaxMode,
+  Vehicle,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+const NO_SERVICE_TYPE = "none";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "SAR",
+  minimumFractionDigits: 2,
+});
+
+type EstimateDetails = {
+  estimate: Estimate;
+  items: EstimateItem[];
+};
+
+type EstimateForm = {
+  description: string;
+  serviceType: string;
+  validUntil: string;
+  notes: string;
+  taxMode: TaxMode | "";
+  taxRate: string;
+};
+
+const emptyForm: EstimateForm = {
+  description: "",
+  serviceType: NO_SERVICE_TYPE,
+  validUntil: "",
+  notes: "",
+  taxMode: "",
+  taxRate: "",
+};
+
+const toEstimateForm = (estimate: Estimate): EstimateForm => ({
+  description: estimate.description,
+  serviceType: estimate.serviceType ?? NO_SERVICE_TYPE,
+  validUntil: estimate.validUntil ? format(new Date(estimate.validUntil), "yyyy-MM-dd") : "",
+  notes: estimate.notes ?? "",
+  taxMode: estimate.taxMode,
+  taxRate: String(estimate.taxRate),
+});
+
+export default function EstimatePage() {
+  const [, setLocation] = useLocation();
+  const [match, params] = useRoute("/estimates/:id");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const taxSettings = useTaxSettings();
+  const [form, setForm] = useState<EstimateForm>(emptyForm);
+  const [lineItems, setLineItems] = useState<ServiceItemDraft[]>(() => [createEmptyItemDraft()]);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const isNew = params?.id === "new";
+  const estimateId = useMemo(() => {
+    const parsed = params?.id && !isNew ? Number.parseInt(params.id, 10) : NaN;
+    return Number.isFinite(parsed) ? parsed : null;
+  }, [params?.id, isNew]);
+
+  const newVehicleId = useMemo(() => {
+    const parsed = Number.parseInt(new URLSearchParams(window.location.search).get("vehicleId") ?? "", 10);
+    return Number.isFinite(parsed) ? parsed : null;
+  }, []);
+
+  const canEdit = hasPermission(user, "estimate.edit");
+
+  const {
+    data: details,
+    isLoading: loadingEstimate,
+    error: estimateError,
+  } = useQuery<EstimateDetails>({
+    queryKey: ["/api/estimates", estimateId?.toString() ?? ""],
+    enabled: match && estimateId !== null,
+  });
+
+  const vehicleId = details?.estimate.vehicleId ?? (isNew ? newVehicleId : null);
+
+  const { data: vehicle } = useQuery<Vehicle>({
+    queryKey: ["/api/vehicles", vehicleId?.toString() ?? ""],
+    enabled: vehicleId !== null,
+  });
+
+  const { data: intervalRules = [] } = useQuery<ServiceIntervalRule[]>({
+    queryKey: ["/api/service-intervals"],
+  });
+
+  useEffect(() => {
+    if (details) {
+      setForm(toEstimateForm(details.estimate));
+      setLineItems(details.items.map(toItemDraft));
+    }
+  }, [details]);
+
+  useEffect(() => {
+    if (!match || (!isNew && estimateId === null) || (isNew && newVehicleId === null)) {
+      setLocation("/");
+    }
+  }, [match, isNew, estimateId, newVehicleId, setLocation]);
+
+  const estimate = details?.estimate;
+  const isEditable = canEdit && (isNew || estimate?.status === "draft" || estimate?.status === "sent");
+  const parsedTaxRate = Number.parseFloat(form.taxRate);
+  const estimateTax = {
+    mode: form.taxMode || taxSettings.mode,
+    rate: Number.isFinite(parsedTaxRate) ? parsedTaxRate : taxSettings.rate,
+  };
+
+  const invalidateEstimateQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+  };
+
+  const buildPayload = () => ({
+    description: form.description.trim(),
+    serviceType: form.serviceType === NO_SERVICE_TYPE ? null : form.serviceType,
+    validUntil: form.validUntil || null,
+    notes: form.notes.trim() || null,
+    taxMode: estimateTax.mode,
+    taxRate: estimateTax.rate,
+    items: lineItems.filter((draft) => !isBlankItemDraft(draft)).map(toItemPayload),
+  });
+
+  const saveMutation = useMutation<EstimateDetails, Error>({
+    mutationFn: async () => {
+      const res = isNew
+        ? await apiRequest("POST", "/api/estimates", { ...buildPayload(), vehicleId })
+        : await apiRequest("PATCH", `/api/estimates/${estimateId}`, buildPayload());
+      return await res.json();
+    },
+    onSuccess: (saved) => {
+      invalidateEstimateQueries();
+      toast({ title: isNew ? "Estimate created" : "Estimate saved" });
+      if (isNew) {
+        setLocation(`/estimates/${saved.estimate.id}`);
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation<EstimateDetails, Error, EstimateStatus>({
+    mutationFn: async (status) => {
+      const res = await apiRequest("POST", `/api/estimates/${estimateId}/status`, { status });
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      invalidateEstimateQueries();
+      toast({ title: `Estimate marked ${updated.estimate.status}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to change status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const approveMutation = useMutation<{ estimate: Estimate; service: Service }, Error>({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/estimates/${estimateId}/approve`);
+      return await res.json();
+    },
+    onSuccess: ({ service }) => {
+      invalidateEstimateQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/services/vehicle"] });
+      toast({ title: "Estimate approved", description: "A service record was created from this estimate." });
+      setLocation(`/services/${service.id}`);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to approve estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation<void, Error>({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/estimates/${estimateId}`);
+    },
+    onSuccess: () => {
+      invalidateEstimateQueries();
+      toast({ title: "Estimate deleted" });
+      setDeleteDialogOpen(false);
+      setLocation(vehicleId ? `/vehicles/${vehicleId}` : "/");
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!form.description.trim()) {
+      toast({ title: "Describe the proposed work", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const handleFormChange = (field: keyof EstimateForm) => (value: string) => {
+    setForm((previous) => ({ ...previous, [field]: value }));
+  };
+
+  if (!match || (!isNew && estimateId === null)) {
+    return null;
+  }
+
+  const statusBusy = statusMutation.isPending || approveMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" onClick={() => setLocation(vehicleId ? `/vehicles/${vehicleId}` : "/")}>
+            <ChevronLeft className="mr-2 h-4 w-4" />
+            Back to vehicle
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold" data-testid="text-estimate-title">
+              {isNew ? "New estimate" : `Estimate #${estimateId}`}
+            </h1>
+            <p className="text-muted-foreground">Quote the work before it starts</p>
+          </div>
+        </div>
+        {estimate && <EstimateStatusBadge estimate={estimate} />}
+      </div>
+
+      {loadingEstimate ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : estimateError ? (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-destructive">Failed to load estimate: {estimateError.message}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Car className="h-5 w-5 text-muted-foreground" />
+                {vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.year})` : "Vehicle"}
+                {vehicle && (
+                  <Badge variant="outline" className="font-mono">
+                    {vehicle.plateNumber}
+                  </Badge>
+                )}
+              </CardTitle>
+              {estimate?.serviceId && (
+                <CardDescription>
+                  Approved {estimate.approvedAt ? format(new Date(estimate.approvedAt), "MMM d, yyyy") : ""} as{" "}
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => setLocation(`/services/${estimate.serviceId}`)}
+                  >
+                    service #{estimate.serviceId}
+                  </button>
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="estimate-description">Proposed work</Label>
+                <Textarea
+                  id="estimate-description"
+                  value={form.description}
+                  onChange={(event) => handleFormChange("description")(event.target.value)}
+                  placeholder="What will be done?"
+                  disabled={!isEditable}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="estimate-service-type">Service type</Label>
+                <Select value={form.serviceType} onValueChange={handleFormChange("serviceType")} disabled={!isEditable}>
+                  <SelectTrigger id="estimate-service-type">
+                    <SelectValue placeholder="General service" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SERVICE_TYPE}>General service</SelectItem>
+                    {intervalRules.map((rule) => (
+                      <SelectItem key={rule.id} value={rule.serviceType}>
+                        {rule.serviceType}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="estimate-valid-until">Valid until</Label>
+                <Input
+                  id="estimate-valid-until"
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(event) => handleFormChange("validUntil")(event.target.value)}
+                  disabled={!isEditable}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="estimate-notes">Notes</Label>
+                <Textarea
+                  id="estimate-notes"
+                  value={form.notes}
+                  onChange={(event) => handleFormChange("notes")(event.target.value)}
+                  placeholder="Terms, assumptions or anything the customer should know"
+                  disabled={!isEditable}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Parts & labor</CardTitle>
+              <CardDescription>Approving the estimate copies these lines onto the new service.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="estimate-tax-mode">Prices</Label>
+                  <Select value={estimateTax.mode} onValueChange={handleFormChange("taxMode")} disabled={!isEditable}>
+                    <SelectTrigger id="estimate-tax-mode" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="exclusive">Exclude VAT</SelectItem>
+                      <SelectItem value="inclusive">Include VAT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="estimate-tax-rate">VAT rate (%)</Label>
+                  <Input
+                    id="estimate-tax-rate"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    className="w-32"
+                    value={form.taxRate}
+                    onChange={(event) => handleFormChange("taxRate")(event.target.value)}
+                    placeholder={String(taxSettings.rate)}
+                    disabled={!isEditable}
+                  />
+                </div>
+              </div>
+              <ServiceItemsGrid
+                items={lineItems}
+                onChange={setLineItems}
+                formatCurrency={currencyFormatter.format}
+                tax={estimateTax}
+                readOnly={!isEditable}
+              />
+            </CardContent>
+          </Card>
+
+          {canEdit && (
+            <div className="flex flex-wrap justify-end gap-2">
+              {estimate && estimate.status !== "approved" && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="text-destructive"
+                  onClick={() => setDeleteDialogOpen(true)}
+                  data-testid="button-delete-estimate"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+              {estimate?.status === "declined" && (
+                <Button type="button" variant="outline" onClick={() => statusMutation.mutate("draft")} disabled={statusBusy}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  Reopen as draft
+                </Button>
+              )}
+              {estimate && isEditable && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => statusMutation.mutate("declined")}
+                  disabled={statusBusy}
+                  data-testid="button-decline-estimate"
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Declined
+                </Button>
+              )}
+              {estimate?.status === "draft" && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => statusMutation.mutate("sent")}
+                  disabled={statusBusy}
+                  data-testid="button-send-estimate"
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  Mark sent
+                </Button>
+              )}
+              {isEditable && (
+                <Button type="submit" variant="secondary" disabled={saveMutation.isPending} data-testid="button-save-estimate">
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isNew ? "Create estimate" : "Save changes"}
+                </Button>
+              )}
+              {estimate && isEditable && (
+                <Button
+                  type="button"
+                  onClick={() => approveMutation.mutate()}
+                  disabled={statusBusy || saveMutation.isPending}
+                  data-testid="button-approve-estimate"
+                >
+                  {approveMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                  )}
+                  Approve & create service
+                </Button>
+              )}
+            </div>
+          )}
+        </form>
+      )}
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete estimate?</AlertDialogTitle>
+            <AlertDialogDescription>This permanently removes estimate #{estimateId} and its line items.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { LockOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  LoginAttempt,
+  LoginOutcome,
+  LoginThrottle,
+  LoginThrottleScope,
+  RoleSetting,
+  UpdateRoleSetting,
+  UserRole,
+} from "@shared/schema";
+
+const scopeLabels: Record<LoginThrottleScope, string> = {
+  username: "Account",
+  ip: "IP address",
+};
+
+const roleLabels: Record<UserRole, string> = {
+  admin: "Admins",
+  mechanic: "Mechanics",
+  viewer: "Viewers",
+};
+
+const outcomeLabels: Record<LoginOutcome, string> = {
+  success: "Signed in",
+  invalid_credentials: "Wrong password",
+  invalid_code: "Wrong 2FA code",
+  throttled: "Slowed down",
+  locked: "Locked out",
+};
+
+export default function LoginSecurityPage() {
+  const { toast } = useToast();
+
+  const lockoutsQuery = useQuery<LoginThrottle[]>({
+    queryKey: ["/api/security/lockouts"],
+  });
+
+  const attemptsQuery = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/security/failed-logins"],
+  });
+
+  const unlockMutation = useMutation<void, Error, LoginThrottle>({
+    mutationFn: async (lockout) => {
+      await apiRequest("DELETE", `/api/security/lockouts/${lockout.id}`);
+    },
+    onSuccess: (_data, lockout) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/security/lockouts"] });
+      toast({ title: `Unlocked ${lockout.key}` });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to unlock", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const roleSettingsQuery = useQuery<RoleSetting[]>({
+    queryKey: ["/api/security/role-settings"],
+  });
+
+  const roleSettingMutation = useMutation<RoleSetting, Error, { role: UserRole; data: UpdateRoleSetting }>({
+    mutationFn: async ({ role, data }) => {
+      const res = await apiRequest("PUT", `/api/security/role-settings/${role}`, data);
+      return await res.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/security/role-settings"] });
+      // Admins may have just made 2FA mandatory for themselves
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: saved.requireTwoFactor
+          ? `Two-factor authentication required for ${roleLabels[saved.role].toLowerCase()}`
+          : `Two-factor authentication optional for ${roleLabels[saved.role].toLowerCase()}`,
+      });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to update the requirement", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const lockouts = lockoutsQuery.data ?? [];
+  const attempts = attemptsQuery.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold" data-testid="text-login-security-title">
+          Sign-in security
+        </h1>
+        <p className="text-muted-foreground">Two-factor rules, locked accounts and recent failed sign-in attempts</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            Users in a role that requires it must set up an authenticator app before they can use the app.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {roleSettingsQuery.isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : roleSettingsQuery.error ? (
+            <p className="text-sm text-destructive">Failed to load role settings: {roleSettingsQuery.error.message}</p>
+          ) : (
+            <div className="space-y-3">
+              {(roleSettingsQuery.data ?? []).map((setting) => (
+                <div key={setting.role} className="flex items-center justify-between gap-3">
+                  <label htmlFor={`require-two-factor-${setting.role}`} className="text-sm font-medium">
+                    {roleLabels[setting.role]}
+                  </label>
+                  <Switch
+                    id={`require-two-factor-${setting.role}`}
+                    checked={setting.requireTwoFactor}
+                    onCheckedChange={(checked) =>
+                      roleSettingMutation.mutate({ role: setting.role, data: { requireTwoFactor: checked } })
+                    }
+                    disabled={roleSettingMutation.isPending}
+                    data-testid={`switch-require-two-factor-${setting.role}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active lockouts</CardTitle>
+          <CardDescription>Unlocking clears the failure count so the next sign-in is not slowed down.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lockoutsQuery.isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : lockoutsQuery.error ? (
+            <p className="text-sm text-destructive">Failed to load lockouts: {lockoutsQuery.error.message}</p>
+          ) : lockouts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Nothing is locked right now.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Locked</TableHead>
+                  <TableHead>Failures</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockouts.map((lockout) => (
+                  <TableRow key={lockout.id} data-testid={`row-lockout-${lockout.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{scopeLabels[lockout.scope]}</Badge>
+                        <span className="font-mono text-sm">{lockout.key}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="tabular-nums">{lockout.failures}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {lockout.lockedUntil ? format(new Date(lockout.lockedUntil), "MMM d, HH:mm") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => unlockMutation.mutate(lockout)}
+                        disabled={unlockMutation.isPending}
+                        data-testid={`button-unlock-${lockout.id}`}
+                      >
+                        <LockOpen className="mr-2 h-4 w-4" />
+                        Unlock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Failed sign-ins</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {attemptsQuery.isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : attemptsQuery.error ? (
+            <p className="text-sm text-destructive">Failed to load sign-in attempts: {attemptsQuery.error.message}</p>
+          ) : attempts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No failed sign-ins recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>IP address</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => (
+                  <TableRow key={attempt.id} data-testid={`row-login-attempt-${attempt.id}`}>
+                    <TableCell className="text-sm" title={format(new Date(attempt.createdAt), "PPP p")}>
+                      {formatDistanceToNow(new Date(attempt.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-mono text-sm">{attempt.username || "—"}</p>
+                      {!attempt.userId && attempt.username && (
+                        <p className="text-xs text-muted-foreground">No such account</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-mono text-sm">{attempt.ipAddress}</p>
+                      {attempt.userAgent && (
+                        <p className="max-w-[16rem] truncate text-xs text-muted-foreground" title={attempt.userAgent}>
+                          {attempt.userAgent}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={attempt.outcome === "locked" ? "destructive" : "secondary"}>
+                        {outcomeLabels[attempt.outcome]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { Fragment } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PERMISSION_GROUPS, isAdminOnlyPermission, type Permission } from "@shared/permissions";
+import type { RoleSetting, UserRole } from "@shared/schema";
+
+const roleLabels: Record<UserRole, string> = {
+  admin: "Admins",
+  mechanic: "Mechanics",
+  viewer: "Viewers",
+};
+
+export default function PermissionsPage() {
+  const { toast } = useToast();
+
+  const { data: settings = [], isLoading, error } = useQuery<RoleSetting[]>({
+    queryKey: ["/api/security/role-settings"],
+  });
+
+  const permissionsMutation = useMutation<RoleSetting, Error, { role: UserRole; permissions: Permission[] }>({
+    mutationFn: async ({ role, permissions }) => {
+      const res = await apiRequest("PUT", `/api/security/role-settings/${role}`, { permissions });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/security/role-settings"] });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to update permissions", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (setting: RoleSetting, permission: Permission, granted: boolean) => {
+    const current = (setting.permissions ?? []) as Permission[];
+    const permissions = granted
+      ? [...current, permission]
+      : current.filter((entry) => entry !== permission);
+    permissionsMutation.mutate({ role: setting.role, permissions });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold" data-testid="text-permissions-title">
+          Permissions
+        </h1>
+        <p className="text-muted-foreground">Choose what each role can do. Changes apply on the user's next request.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Role permissions</CardTitle>
+          <CardDescription>
+            Admins always hold every permission so the matrix cannot lock everyone out. Managing users and security
+            settings stays with admins.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load permissions: {error.message}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Permission</TableHead>
+                    {settings.map((setting) => (
+                      <TableHead key={setting.role} className="w-28 text-center">
+                        {roleLabels[setting.role]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PERMISSION_GROUPS.map((group) => (
+                    <Fragment key={group.label}>
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell colSpan={settings.length + 1} className="text-xs font-semibold uppercase text-muted-foreground">
+                          {group.label}
+                        </TableCell>
+                      </TableRow>
+                      {group.permissions.map((permission) => (
+                        <TableRow key={permission.key}>
+                          <TableCell className="text-sm">{permission.label}</TableCell>
+                          {settings.map((setting) => (
+                            <TableCell key={setting.role} className="text-center">
+                              <Checkbox
+                                checked={setting.role === "admin" || Boolean(setting.permissions?.includes(permission.key))}
+                                onCheckedChange={(checked) => toggle(setting, permission.key, checked === true)}
+                                disabled={
+                                  setting.role === "admin" ||
+                                  isAdminOnlyPermission(permission.key) ||
+                                  permissionsMutation.isPending
+                                }
+                                aria-label={`${roleLabels[setting.role]}: ${permission.label}`}
+                                data-testid={`checkbox-permission-${setting.role}-${permission.key}`}
+                              />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
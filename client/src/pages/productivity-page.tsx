@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { BarChart3 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { formatHours } from "@/hooks/use-time-clock";
+import type { TechnicianProductivity } from "@shared/time-clock";
+
+type ProductivityReport = {
+  from: string;
+  to: string;
+  technicians: TechnicianProductivity[];
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export default function ProductivityPage() {
+  const [from, setFrom] = useState(() => format(subDays(new Date(), DEFAULT_RANGE_DAYS), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data, isLoading, error } = useQuery<ProductivityReport>({
+    queryKey: ["/api/reports/technician-productivity", { from, to }],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00`).toISOString(),
+        // Include the whole of the end day
+        to: new Date(new Date(`${to}T00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+      });
+      const res = await apiRequest("GET", `/api/reports/technician-productivity?${params.toString()}`);
+      return await res.json();
+    },
+    enabled: Boolean(from && to),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-productivity-title">
+          Technician productivity
+        </h1>
+        <p className="text-muted-foreground">Clocked time compared with the labor hours billed on each job</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-4 space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-muted-foreground" />
+            By technician
+          </CardTitle>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="productivity-from">From</Label>
+              <Input id="productivity-from" type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="productivity-to">To</Label>
+              <Input id="productivity-to" type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load report: {error.message}</p>
+          ) : !data || data.technicians.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No clocked time in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Technician</TableHead>
+                  <TableHead className="text-right">Jobs</TableHead>
+                  <TableHead className="text-right">Clocked</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead className="text-right">Efficiency</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.technicians.map((technician) => (
+                  <TableRow key={technician.technicianId} data-testid={`row-productivity-${technician.technicianId}`}>
+                    <TableCell className="font-medium">{technician.technicianName}</TableCell>
+                    <TableCell className="text-right">{technician.services}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatHours(technician.clockedHours)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatHours(technician.billedHours)}</TableCell>
+                    <TableCell className="text-right">
+                      {technician.efficiency === null ? (
+                        "—"
+                      ) : (
+                        <Badge variant={technician.efficiency >= 1 ? "default" : "secondary"}>
+                          {Math.round(technician.efficiency * 100)}%
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
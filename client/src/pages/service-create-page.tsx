@@ -20,11 +20,35 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TechnicianSelect, UNASSIGNED_TECHNICIAN } from "@/components/technician-select";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useTaxSettings } from "@/hooks/use-tax-settings";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Customer, Service, Vehicle } from "@shared/schema";
+import {
+  ServiceItemsGrid,
+  createEmptyItemDraft,
+  isBlankItemDraft,
+  toItemPayload,
+  type ServiceItemDraft,
+} from "@/components/service-items-grid";
+import type { Customer, Service, ServiceIntervalRule, TaxMode, Vehicle } from "@shared/schema";
 
 const MAX_MEDIA_FILES = 10;
+const NO_SERVICE_TYPE = "none";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "SAR",
+  minimumFractionDigits: 2,
+});
 
 type LookupResult = {
   vehicle: Vehicle;
@@ -33,30 +57,40 @@ type LookupResult = {
 
 type ServiceDraft = {
   serviceDate: string;
-  mechanicName: string;
+  assignedTechnicianId: string;
   workPerformed: string;
-  partsReplaced: string;
   notes: string;
-  laborCost: string;
-  partsCost: string;
+  serviceType: string;
+  odometer: string;
+  nextServiceDue: string;
+  // Blank values fall back to the shop's VAT settings
+  taxMode: TaxMode | "";
+  taxRate: string;
 };
 
-const initialDraft = (): ServiceDraft => ({
+const initialDraft = (assignedTechnicianId = UNASSIGNED_TECHNICIAN): ServiceDraft => ({
   serviceDate: format(new Date(), "yyyy-MM-dd"),
-  mechanicName: "",
+  assignedTechnicianId,
   workPerformed: "",
-  partsReplaced: "",
   notes: "",
-  laborCost: "",
-  partsCost: "",
+  serviceType: NO_SERVICE_TYPE,
+  odometer: "",
+  nextServiceDue: "",
+  taxMode: "",
+  taxRate: "",
 });
 
 export default function ServiceCreatePage() {
   const [currentLocation, setLocation] = useLocation();
+  const { user } = useAuth();
   const { toast } = useToast();
 
-  const [draft, setDraft] = useState<ServiceDraft>(() => initialDraft());
+  const [draft, setDraft] = useState<ServiceDraft>(() =>
+    // Mechanics creating a record are usually the ones doing the work
+    initialDraft(user?.role === "mechanic" ? user.id : undefined),
+  );
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
+  const [lineItems, setLineItems] = useState<ServiceItemDraft[]>(() => [createEmptyItemDraft()]);
   const galleryFileInputRef = useRef<HTMLInputElement | null>(null);
   const photoCaptureInputRef = useRef<HTMLInputElement | null>(null);
   const videoCaptureInputRef = useRef<HTMLInputElement | null>(null);
@@ -108,6 +142,17 @@ export default function ServiceCreatePage() {
     },
   });
 
+  const taxSettings = useTaxSettings();
+  const parsedTaxRate = Number.parseFloat(draft.taxRate);
+  const serviceTax = {
+    mode: draft.taxMode || taxSettings.mode,
+    rate: Number.isFinite(parsedTaxRate) ? parsedTaxRate : taxSettings.rate,
+  };
+
+  const { data: intervalRules = [] } = useQuery<ServiceIntervalRule[]>({
+    queryKey: ["/api/service-intervals"],
+  });
+
   const createServiceMutation = useMutation<Service, Error, FormData>({
     mutationFn: async (formData) => {
       const response = await apiRequest("POST", "/api/services", formData);
@@ -140,18 +185,6 @@ export default function ServiceCreatePage() {
     },
   });
 
-  const derivedTotalCost = useMemo(() => {
-    const labor = Number.parseFloat(draft.laborCost || "0");
-    const parts = Number.parseFloat(draft.partsCost || "0");
-
-    if (!draft.laborCost && !draft.partsCost) {
-      return "";
-    }
-
-    const total = (Number.isFinite(labor) ? labor : 0) + (Number.isFinite(parts) ? parts : 0);
-    return total.toFixed(2);
-  }, [draft.laborCost, draft.partsCost]);
-
   const handleDraftChange = (field: keyof ServiceDraft) => (value: string) => {
     setDraft((previous) => ({ ...previous, [field]: value }));
   };
@@ -201,28 +234,33 @@ export default function ServiceCreatePage() {
     submission.append("serviceDate", new Date(draft.serviceDate).toISOString());
     submission.append("workPerformed", draft.workPerformed.trim());
 
-    if (draft.partsReplaced.trim()) {
-      submission.append("partsReplaced", draft.partsReplaced.trim());
-    }
-
     if (draft.notes.trim()) {
       submission.append("notes", draft.notes.trim());
     }
 
-    if (draft.mechanicName.trim()) {
-      submission.append("mechanicName", draft.mechanicName.trim());
+    if (draft.assignedTechnicianId !== UNASSIGNED_TECHNICIAN) {
+      submission.append("assignedTechnicianId", draft.assignedTechnicianId);
     }
 
-    if (draft.laborCost.trim()) {
-      submission.append("laborCost", draft.laborCost.trim());
+    if (draft.serviceType !== NO_SERVICE_TYPE) {
+      submission.append("serviceType", draft.serviceType);
     }
 
-    if (draft.partsCost.trim()) {
-      submission.append("partsCost", draft.partsCost.trim());
+    const odometer = Number.parseInt(draft.odometer, 10);
+    if (Number.isFinite(odometer) && odometer >= 0) {
+      submission.append("odometer", String(odometer));
     }
 
-    if (derivedTotalCost) {
-      submission.append("totalCost", derivedTotalCost);
+    if (draft.nextServiceDue) {
+      submission.append("nextServiceDue", new Date(draft.nextServiceDue).toISOString());
+    }
+
+    submission.append("taxMode", serviceTax.mode);
+    submission.append("taxRate", String(serviceTax.rate));
+
+    const filledItems = lineItems.filter((item) => !isBlankItemDraft(item));
+    if (filledItems.length > 0) {
+      submission.append("items", JSON.stringify(filledItems.map(toItemPayload)));
     }
 
     mediaFiles.forEach((file) => {
@@ -454,27 +492,62 @@ export default function ServiceCreatePage() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-sm font-medium" htmlFor="service-mechanic">
-                      Mechanic
+                    <label className="text-sm font-medium" htmlFor="service-technician">
+                      Technician
+                    </label>
+                    <TechnicianSelect
+                      id="service-technician"
+                      value={draft.assignedTechnicianId}
+                      onValueChange={handleDraftChange("assignedTechnicianId")}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium" htmlFor="service-type">
+                      Service type
+                    </label>
+                    <Select value={draft.serviceType} onValueChange={handleDraftChange("serviceType")}>
+                      <SelectTrigger id="service-type">
+                        <SelectValue placeholder="General service" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_SERVICE_TYPE}>General service</SelectItem>
+                        {intervalRules.map((rule) => (
+                          <SelectItem key={rule.id} value={rule.serviceType}>
+                            {rule.serviceType}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium" htmlFor="service-odometer">
+                      Odometer (km)
                     </label>
                     <Input
-                      id="service-mechanic"
-                      value={draft.mechanicName}
-                      onChange={(event) => handleDraftChange("mechanicName")(event.target.value)}
-                      placeholder="Who carried out the work?"
+                      id="service-odometer"
+                      type="number"
+                      inputMode="numeric"
+                      min="0"
+                      value={draft.odometer}
+                      onChange={(event) => handleDraftChange("odometer")(event.target.value)}
+                      placeholder="Current reading"
                     />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-sm font-medium" htmlFor="service-parts">
-                      Parts replaced
+                    <label className="text-sm font-medium" htmlFor="service-next-due">
+                      Next service due
                     </label>
-                    <Textarea
-                      id="service-parts"
-                      value={draft.partsReplaced}
-                      onChange={(event) => handleDraftChange("partsReplaced")(event.target.value)}
-                      placeholder="List any major components swapped out during the visit."
-                      rows={3}
+                    <Input
+                      id="service-next-due"
+                      type="date"
+                      value={draft.nextServiceDue}
+                      onChange={(event) => handleDraftChange("nextServiceDue")(event.target.value)}
+                      min={format(new Date(), "yyyy-MM-dd")}
                     />
+                    <p className="text-xs text-muted-foreground">
+                      A follow-up reminder is created automatically for the front desk. Leave blank to project it
+                      from the service type's interval.
+                    </p>
                   </div>
                 </CardContent>
               </Card>
@@ -483,46 +556,52 @@ export default function ServiceCreatePage() {
 
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Cost breakdown</CardTitle>
-              <CardDescription>Log labor and parts totals once you have the story captured.</CardDescription>
+              <CardTitle className="text-lg">Parts & labor</CardTitle>
+              <CardDescription>
+                Add a line for each part or labor task. Labor, parts, VAT, and total costs are calculated from these
+                lines.
+              </CardDescription>
             </CardHeader>
-            <CardContent className="grid gap-4 md:grid-cols-3">
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="service-labor">
-                  Labor cost
-                </label>
-                <Input
-                  id="service-labor"
-                  type="number"
-                  inputMode="decimal"
-                  min="0"
-                  step="0.01"
-                  placeholder="0.00"
-                  value={draft.laborCost}
-                  onChange={(event) => handleDraftChange("laborCost")(event.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="service-parts-cost">
-                  Parts cost
-                </label>
-                <Input
-                  id="service-parts-cost"
-                  type="number"
-                  inputMode="decimal"
-                  min="0"
-                  step="0.01"
-                  placeholder="0.00"
-                  value={draft.partsCost}
-                  onChange={(event) => handleDraftChange("partsCost")(event.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="service-total">
-                  Total (calculated)
-                </label>
-                <Input id="service-total" value={derivedTotalCost} readOnly placeholder="—" />
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium" htmlFor="service-tax-mode">
+                    Prices
+                  </label>
+                  <Select value={serviceTax.mode} onValueChange={handleDraftChange("taxMode")}>
+                    <SelectTrigger id="service-tax-mode" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="exclusive">Exclude VAT</SelectItem>
+                      <SelectItem value="inclusive">Include VAT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium" htmlFor="service-tax-rate">
+                    VAT rate (%)
+                  </label>
+                  <Input
+                    id="service-tax-rate"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    className="w-32"
+                    value={draft.taxRate}
+                    onChange={(event) => handleDraftChange("taxRate")(event.target.value)}
+                    placeholder={String(taxSettings.rate)}
+                  />
+                </div>
               </div>
+              <ServiceItemsGrid
+                items={lineItems}
+                onChange={setLineItems}
+                formatCurrency={currencyFormatter.format}
+                tax={serviceTax}
+              />
             </CardContent>
           </Card>
         </>
@@ -1,17 +1,94 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from "react";
 import { useLocation, useRoute } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, Car, ChevronLeft, MapPin, NotebookPen, User } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowDown,
+  ArrowRight,
+  ArrowUp,
+  Calendar,
+  Car,
+  ChevronLeft,
+  Clock,
+  Edit,
+  ImagePlus,
+  Loader2,
+  MapPin,
+  NotebookPen,
+  Share2,
+  Star,
+  Trash2,
+  User,
+} from "lucide-react";
 import { format } from "date-fns";
-import type { Customer, Service, Vehicle } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { InvoiceCard } from "@/components/invoice-card";
+import { EstimateVarianceCard } from "@/components/estimate-variance-card";
+import { AuthorizationsCard } from "@/components/authorizations-card";
+import { TimeClockCard } from "@/components/time-clock-card";
+import { TechnicianSelect, UNASSIGNED_TECHNICIAN } from "@/components/technician-select";
+import { HistoryTabs } from "@/components/audit-history";
+import { useTechnicians } from "@/hooks/use-technicians";
+import {
+  ServiceItemsGrid,
+  isBlankItemDraft,
+  toItemDraft,
+  toItemPayload,
+  type ServiceItemDraft,
+} from "@/components/service-items-grid";
+import {
+  MEDIA_CAPTION_MAX_LENGTH,
+  serviceStatusTransitions,
+  type Customer,
+  type Service,
+  type ServiceItem,
+  type ServiceStatus,
+  type TaxMode,
+  type UpdateService,
+  type UpdateServiceMedia,
+  type MediaDerivativeSize,
+  type MediaDerivativeUrls,
+  type MediaLink,
+  type Vehicle,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 
 const currencyFormatter = new Intl.NumberFormat("en-US", {
   style: "currency",
-  currency: "USD",
+  currency: "SAR",
   minimumFractionDigits: 2,
 });
 
@@ -21,10 +98,52 @@ type ServiceMediaEntry = {
   fileName: string;
   fileType: string;
   fileSize: number;
+  width: number | null;
+  height: number | null;
+  capturedAt: string | null;
+  caption: string | null;
+  sortOrder: number;
+  isCover: boolean;
   url: string;
+  derivatives: Partial<Record<MediaDerivativeSize, MediaDerivativeUrls>>;
   createdAt: string;
 };
 
+type MediaUpdate = {
+  entry: ServiceMediaEntry;
+  updates: UpdateServiceMedia;
+};
+
+type ServiceEditForm = {
+  serviceDate: string;
+  assignedTechnicianId: string;
+  workPerformed: string;
+  partsReplaced: string;
+  notes: string;
+  laborCost: string;
+  partsCost: string;
+  taxMode: TaxMode;
+  taxRate: string;
+  odometer: string;
+  nextServiceDue: string;
+};
+
+const toEditForm = (service: Service): ServiceEditForm => ({
+  serviceDate: format(new Date(service.serviceDate), "yyyy-MM-dd"),
+  assignedTechnicianId: service.assignedTechnicianId ?? UNASSIGNED_TECHNICIAN,
+  workPerformed: service.workPerformed,
+  partsReplaced: service.partsReplaced ?? "",
+  notes: service.notes ?? "",
+  laborCost: String(service.laborCost ?? ""),
+  partsCost: String(service.partsCost ?? ""),
+  taxMode: service.taxMode,
+  taxRate: String(service.taxRate),
+  odometer: service.odometer !== null && service.odometer !== undefined ? String(service.odometer) : "",
+  nextServiceDue: service.nextServiceDue ? format(new Date(service.nextServiceDue), "yyyy-MM-dd") : "",
+});
+
+const formatStatus = (status: ServiceStatus): string => status.replace(/_/g, " ");
+
 function formatFileSize(bytes: number): string {
   if (!Number.isFinite(bytes) || bytes <= 0) {
     return "0 B";
@@ -37,9 +156,53 @@ function formatFileSize(bytes: number): string {
   return `${value.toFixed(decimals)} ${units[exponent]}`;
 }
 
+// Grid tiles pick the smallest derivative that fills them; the full-size original is only fetched
+// for photos without derivatives (uploaded before they existed or in a format the server cannot read)
+function MediaImage({ entry }: { entry: ServiceMediaEntry }) {
+  const sources = [entry.derivatives.thumbnail, entry.derivatives.medium].filter(
+    (source): source is MediaDerivativeUrls => source !== undefined,
+  );
+  const alt = entry.caption ?? entry.fileName;
+  const className = "h-full w-full object-cover";
+  if (sources.length === 0) {
+    return <img src={entry.url} alt={alt} loading="lazy" decoding="async" className={className} />;
+  }
+
+  const srcSet = (format: "webp" | "jpeg") => sources.map((source) => `${source[format]} ${source.width}w`).join(", ");
+  const sizes = "(min-width: 640px) 50vw, 100vw";
+  return (
+    <picture className="block h-full w-full">
+      <source type="image/webp" srcSet={srcSet("webp")} sizes={sizes} />
+      <img
+        src={sources[sources.length - 1].jpeg}
+        srcSet={srcSet("jpeg")}
+        sizes={sizes}
+        alt={alt}
+        width={entry.width ?? undefined}
+        height={entry.height ?? undefined}
+        loading="lazy"
+        decoding="async"
+        className={className}
+      />
+    </picture>
+  );
+}
+
 export default function ServiceDetailPage() {
   const [currentLocation, setLocation] = useLocation();
   const [match, params] = useRoute("/services/:serviceId");
+  const { user } = useAuth();
+  const { technicians } = useTechnicians();
+  const { toast } = useToast();
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [editForm, setEditForm] = useState<ServiceEditForm | null>(null);
+  const [itemDrafts, setItemDrafts] = useState<ServiceItemDraft[] | null>(null);
+  const [uploadCaption, setUploadCaption] = useState("");
+  const [captionTarget, setCaptionTarget] = useState<ServiceMediaEntry | null>(null);
+  const [captionDraft, setCaptionDraft] = useState("");
+  const [mediaDeleteTarget, setMediaDeleteTarget] = useState<ServiceMediaEntry | null>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
 
   const serviceId = useMemo(() => {
     const raw = params?.serviceId;
@@ -84,15 +247,201 @@ export default function ServiceDetailPage() {
     enabled: !!service?.customerId,
   });
 
+  const mediaQueryKey = ["/api/services", serviceId?.toString() ?? "", "media"];
+
   const {
     data: media = [],
     isLoading: loadingMedia,
     error: mediaError,
   } = useQuery<ServiceMediaEntry[]>({
-    queryKey: ["/api/services", serviceId?.toString() ?? "", "media"],
+    queryKey: mediaQueryKey,
     enabled: match && serviceId !== null,
   });
 
+  const {
+    data: items = [],
+    isLoading: loadingItems,
+    error: itemsError,
+  } = useQuery<ServiceItem[]>({
+    queryKey: ["/api/services", serviceId?.toString() ?? "", "items"],
+    enabled: match && serviceId !== null,
+  });
+
+  const assignedTechnician = technicians.find((technician) => technician.id === service?.assignedTechnicianId);
+
+  const invalidateServiceQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/services/vehicle"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/services/customer"] });
+  };
+
+  const updateMutation = useMutation<Service, Error, UpdateService>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("PATCH", `/api/services/${serviceId}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateServiceQueries();
+      toast({ title: "Service updated" });
+      setEditDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update service", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const shareMediaMutation = useMutation<MediaLink, Error, ServiceMediaEntry>({
+    mutationFn: async (entry) => {
+      const res = await apiRequest("POST", `/api/media/${entry.id}/links`, {});
+      return await res.json();
+    },
+    onSuccess: async (link) => {
+      const url = new URL(link.url, window.location.origin).toString();
+      const expires = format(new Date(link.expiresAt), "PPP p");
+      try {
+        await navigator.clipboard.writeText(url);
+        toast({ title: "Share link copied", description: `Anyone with the link can open the file until ${expires}.` });
+      } catch {
+        toast({ title: "Share link created", description: `${url} (works until ${expires})` });
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create a share link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const uploadMediaMutation = useMutation<ServiceMediaEntry[], Error, File[]>({
+    mutationFn: async (files) => {
+      const submission = new FormData();
+      files.forEach((file) => submission.append("media", file));
+      if (uploadCaption.trim()) {
+        submission.append("caption", uploadCaption.trim());
+      }
+      const res = await apiRequest("POST", `/api/services/${serviceId}/media`, submission);
+      return await res.json();
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+      setUploadCaption("");
+      toast({ title: created.length === 1 ? "File uploaded" : `${created.length} files uploaded` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to upload media", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMediaMutation = useMutation<ServiceMediaEntry, Error, MediaUpdate>({
+    mutationFn: async ({ entry, updates }) => {
+      const res = await apiRequest("PATCH", `/api/services/${serviceId}/media/${entry.id}`, updates);
+      return await res.json();
+    },
+    onSuccess: (_updated, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+      setCaptionTarget(null);
+      toast({ title: updates.isCover ? "Cover photo set" : "Media updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update media", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reorderMediaMutation = useMutation<ServiceMediaEntry[], Error, number[]>({
+    mutationFn: async (mediaIds) => {
+      const res = await apiRequest("PUT", `/api/services/${serviceId}/media/order`, { mediaIds });
+      return await res.json();
+    },
+    onSuccess: (reordered) => {
+      queryClient.setQueryData(mediaQueryKey, reordered);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+      toast({ title: "Failed to reorder media", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMediaMutation = useMutation<void, Error, ServiceMediaEntry>({
+    mutationFn: async (entry) => {
+      await apiRequest("DELETE", `/api/services/${serviceId}/media/${entry.id}`);
+    },
+    onSuccess: (_data, entry) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+      setMediaDeleteTarget(null);
+      toast({ title: `Deleted ${entry.fileName}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete media", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation<Service, Error, ServiceStatus>({
+    mutationFn: async (status) => {
+      const res = await apiRequest("POST", `/api/services/${serviceId}/status`, { status });
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      invalidateServiceQueries();
+      toast({ title: `Service marked ${formatStatus(updated.status)}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to change status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveItemsMutation = useMutation<void, Error, ServiceItemDraft[]>({
+    mutationFn: async (drafts) => {
+      const keptIds = new Set(drafts.map((draft) => draft.id).filter((id): id is number => id !== undefined));
+      const savedById = new Map(items.map((item) => [item.id, item]));
+
+      for (const item of items) {
+        if (!keptIds.has(item.id)) {
+          await apiRequest("DELETE", `/api/services/${serviceId}/items/${item.id}`);
+        }
+      }
+
+      for (const draft of drafts) {
+        if (isBlankItemDraft(draft)) {
+          continue;
+        }
+
+        const payload = toItemPayload(draft);
+        if (draft.id === undefined) {
+          await apiRequest("POST", `/api/services/${serviceId}/items`, payload);
+          continue;
+        }
+
+        const saved = savedById.get(draft.id);
+        const unchanged = saved && JSON.stringify(toItemDraft(saved)) === JSON.stringify(draft);
+        if (!unchanged) {
+          await apiRequest("PATCH", `/api/services/${serviceId}/items/${draft.id}`, payload);
+        }
+      }
+    },
+    onSuccess: () => {
+      invalidateServiceQueries();
+      toast({ title: "Line items saved" });
+      setItemDrafts(null);
+    },
+    onError: (error) => {
+      invalidateServiceQueries();
+      toast({ title: "Failed to save line items", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/services/${serviceId}`);
+    },
+    onSuccess: () => {
+      invalidateServiceQueries();
+      toast({ title: "Service deleted" });
+      setDeleteDialogOpen(false);
+      setLocation(backPlate ? `/?plate=${encodeURIComponent(backPlate)}` : "/");
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete service", description: error.message, variant: "destructive" });
+    },
+  });
+
   useEffect(() => {
     if (!match || serviceId === null) {
       if (plateFromQuery) {
@@ -111,6 +460,94 @@ export default function ServiceDetailPage() {
   const loadError = serviceError?.message || vehicleError?.message || customerError?.message;
   const backPlate = plateFromQuery ?? vehicle?.plateNumber ?? null;
 
+  const canEdit =
+    hasPermission(user, "service.edit") &&
+    (service?.status !== "closed" || hasPermission(user, "service.reopen"));
+  const canDelete = canEdit && hasPermission(user, "service.delete");
+  const nextStatuses: ServiceStatus[] = !service || !canEdit
+    ? []
+    : service.status === "closed"
+      ? ["completed"]
+      : serviceStatusTransitions[service.status].filter(
+          (status) => status !== "closed" || hasPermission(user, "service.close"),
+        );
+
+  const openEditDialog = () => {
+    if (!service) {
+      return;
+    }
+    setEditForm(toEditForm(service));
+    setEditDialogOpen(true);
+  };
+
+  const handleMediaSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Clearing the input lets the same file be picked again after a failed upload
+    event.target.value = "";
+    if (files.length > 0) {
+      uploadMediaMutation.mutate(files);
+    }
+  };
+
+  const moveMedia = (index: number, offset: -1 | 1) => {
+    const mediaIds = media.map((entry) => entry.id);
+    const [moved] = mediaIds.splice(index, 1);
+    mediaIds.splice(index + offset, 0, moved);
+    reorderMediaMutation.mutate(mediaIds);
+  };
+
+  // Files without a capture time (videos, screenshots) keep their relative order after the dated photos
+  const sortMediaByCaptureTime = () => {
+    const takenAt = (entry: ServiceMediaEntry) =>
+      entry.capturedAt ? new Date(entry.capturedAt).getTime() : Number.MAX_SAFE_INTEGER;
+    const mediaIds = [...media].sort((a, b) => takenAt(a) - takenAt(b)).map((entry) => entry.id);
+    reorderMediaMutation.mutate(mediaIds);
+  };
+
+  const openCaptionDialog = (entry: ServiceMediaEntry) => {
+    setCaptionDraft(entry.caption ?? "");
+    setCaptionTarget(entry);
+  };
+
+  const handleCaptionSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (captionTarget) {
+      updateMediaMutation.mutate({ entry: captionTarget, updates: { caption: captionDraft.trim() || null } });
+    }
+  };
+
+  const handleEditChange = (field: keyof ServiceEditForm) => (value: string) => {
+    setEditForm((previous) => (previous ? { ...previous, [field]: value } : previous));
+  };
+
+  const handleEditSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editForm) {
+      return;
+    }
+
+    if (!editForm.workPerformed.trim()) {
+      toast({ title: "Add service notes", description: "Describe the work that was completed." });
+      return;
+    }
+
+    const odometer = Number.parseInt(editForm.odometer, 10);
+    updateMutation.mutate({
+      serviceDate: new Date(editForm.serviceDate),
+      workPerformed: editForm.workPerformed.trim(),
+      partsReplaced: editForm.partsReplaced.trim() || null,
+      notes: editForm.notes.trim() || null,
+      assignedTechnicianId:
+        editForm.assignedTechnicianId === UNASSIGNED_TECHNICIAN ? null : editForm.assignedTechnicianId,
+      laborCost: editForm.laborCost.trim() || "0",
+      partsCost: editForm.partsCost.trim() || "0",
+      taxMode: editForm.taxMode,
+      taxRate: Number.parseFloat(editForm.taxRate) || 0,
+      odometer: Number.isFinite(odometer) ? odometer : null,
+      nextServiceDue: editForm.nextServiceDue ? new Date(editForm.nextServiceDue) : null,
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between gap-3 flex-wrap">
@@ -131,12 +568,50 @@ export default function ServiceDetailPage() {
             <p className="text-muted-foreground">Review work history, costs, and related records</p>
           </div>
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           {service && (
             <Badge variant="outline" className="capitalize">
-              {service.status}
+              {formatStatus(service.status)}
             </Badge>
           )}
+          {nextStatuses.map((status) => (
+            <Button
+              key={status}
+              variant="secondary"
+              size="sm"
+              onClick={() => statusMutation.mutate(status)}
+              disabled={statusMutation.isPending}
+              data-testid={`button-status-${status}`}
+            >
+              {statusMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ArrowRight className="mr-2 h-4 w-4" />
+              )}
+              <span className="capitalize">
+                {service?.status === "closed" ? "Reopen" : `Mark ${formatStatus(status)}`}
+              </span>
+            </Button>
+          ))}
+          {service && canEdit && (
+            <>
+              <Button variant="outline" size="sm" onClick={openEditDialog} data-testid="button-edit-service">
+                <Edit className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              {canDelete && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDeleteDialogOpen(true)}
+                  data-testid="button-delete-service"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+            </>
+          )}
         </div>
       </div>
 
@@ -157,7 +632,7 @@ export default function ServiceDetailPage() {
           </CardContent>
         </Card>
       ) : service ? (
-        <>
+        <HistoryTabs query={{ serviceId: service.id }}>
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
@@ -181,10 +656,10 @@ export default function ServiceDetailPage() {
                       <Calendar className="h-4 w-4" />
                       <span>{format(new Date(service.serviceDate), "MMM d, yyyy p")}</span>
                     </div>
-                    {service.mechanicName && (
+                    {(assignedTechnician || service.mechanicName) && (
                       <div className="flex items-center gap-2">
                         <NotebookPen className="h-4 w-4" />
-                        <span>Mechanic: {service.mechanicName}</span>
+                        <span>Technician: {assignedTechnician?.name ?? service.mechanicName}</span>
                       </div>
                     )}
                     {service.odometer !== null && service.odometer !== undefined && (
@@ -220,7 +695,111 @@ export default function ServiceDetailPage() {
                 </section>
 
                 <section>
-                  <h2 className="text-base font-semibold">Media</h2>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h2 className="text-base font-semibold">Parts & labor</h2>
+                    {canEdit && (
+                      itemDrafts ? (
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setItemDrafts(null)}
+                            disabled={saveItemsMutation.isPending}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => saveItemsMutation.mutate(itemDrafts)}
+                            disabled={saveItemsMutation.isPending}
+                            data-testid="button-save-service-items"
+                          >
+                            {saveItemsMutation.isPending ? "Saving..." : "Save line items"}
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setItemDrafts(items.map(toItemDraft))}
+                          disabled={loadingItems}
+                          data-testid="button-edit-service-items"
+                        >
+                          <Edit className="mr-2 h-4 w-4" />
+                          Edit line items
+                        </Button>
+                      )
+                    )}
+                  </div>
+                  <div className="mt-3 text-sm">
+                    {loadingItems ? (
+                      <p className="text-muted-foreground">Loading line items…</p>
+                    ) : itemsError ? (
+                      <p className="text-destructive">Failed to load line items: {itemsError.message}</p>
+                    ) : (
+                      <ServiceItemsGrid
+                        items={itemDrafts ?? items.map(toItemDraft)}
+                        onChange={setItemDrafts}
+                        formatCurrency={currencyFormatter.format}
+                        tax={{ mode: service.taxMode, rate: Number.parseFloat(String(service.taxRate)) || 0 }}
+                        readOnly={!itemDrafts}
+                      />
+                    )}
+                  </div>
+                </section>
+
+                <section>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h2 className="text-base font-semibold">Media</h2>
+                    {canEdit && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Input
+                          value={uploadCaption}
+                          onChange={(event) => setUploadCaption(event.target.value)}
+                          placeholder="Caption, e.g. After repair"
+                          maxLength={MEDIA_CAPTION_MAX_LENGTH}
+                          className="h-8 w-48 text-xs"
+                          aria-label="Caption for uploaded files"
+                          data-testid="input-media-upload-caption"
+                        />
+                        {media.length > 1 && media.some((entry) => entry.capturedAt) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={sortMediaByCaptureTime}
+                            disabled={reorderMediaMutation.isPending}
+                            data-testid="button-sort-media-by-capture"
+                          >
+                            <Clock className="mr-2 h-4 w-4" />
+                            Order by time taken
+                          </Button>
+                        )}
+                        <input
+                          ref={mediaInputRef}
+                          type="file"
+                          accept="image/*,video/*"
+                          multiple
+                          className="hidden"
+                          onChange={handleMediaSelected}
+                          data-testid="input-media-upload"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => mediaInputRef.current?.click()}
+                          disabled={uploadMediaMutation.isPending}
+                          data-testid="button-upload-media"
+                        >
+                          {uploadMediaMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <ImagePlus className="mr-2 h-4 w-4" />
+                          )}
+                          Add files
+                        </Button>
+                      </div>
+                    )}
+                  </div>
                   <div className="mt-3 text-sm">
                     {loadingMedia ? (
                       <p className="text-muted-foreground">Loading media…</p>
@@ -230,10 +809,15 @@ export default function ServiceDetailPage() {
                       <p className="text-muted-foreground">No media attachments for this service.</p>
                     ) : (
                       <div className="grid gap-4 sm:grid-cols-2">
-                        {media.map((entry) => {
+                        {media.map((entry, index) => {
                           const isVideo = entry.fileType.startsWith("video/");
+                          const isImage = entry.fileType.startsWith("image/");
                           return (
-                            <div key={entry.id} className="overflow-hidden rounded-lg border border-muted">
+                            <div
+                              key={entry.id}
+                              className="overflow-hidden rounded-lg border border-muted"
+                              data-testid={`media-${entry.id}`}
+                            >
                               <div className="aspect-video bg-muted">
                                 {isVideo ? (
                                   <video
@@ -244,27 +828,98 @@ export default function ServiceDetailPage() {
                                     className="h-full w-full object-cover"
                                   />
                                 ) : (
-                                  <img
-                                    src={entry.url}
-                                    alt={entry.fileName}
-                                    loading="lazy"
-                                    decoding="async"
-                                    className="h-full w-full object-cover"
-                                  />
+                                  <MediaImage entry={entry} />
                                 )}
                               </div>
                               <div className="border-t p-3 space-y-1">
-                                <p className="truncate text-sm font-medium text-foreground">
-                                  {entry.fileName}
+                                <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                                  <span className="truncate">{entry.caption ?? entry.fileName}</span>
+                                  {entry.isCover && <Badge variant="secondary">Cover</Badge>}
                                 </p>
-                                <p className="text-xs text-muted-foreground">
+                                <p className="truncate text-xs text-muted-foreground">
+                                  {entry.caption ? `${entry.fileName} · ` : ""}
                                   {formatFileSize(entry.fileSize)}
+                                  {entry.capturedAt ? ` · taken ${format(new Date(entry.capturedAt), "PPP p")}` : ""}
                                 </p>
-                                <Button variant="outline" size="sm" className="h-8 text-xs" asChild>
-                                  <a href={entry.url} target="_blank" rel="noopener noreferrer">
-                                    Open file
-                                  </a>
-                                </Button>
+                                <div className="flex flex-wrap gap-2">
+                                  <Button variant="outline" size="sm" className="h-8 text-xs" asChild>
+                                    <a href={entry.url} target="_blank" rel="noopener noreferrer">
+                                      Open file
+                                    </a>
+                                  </Button>
+                                  {canEdit && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-8 text-xs"
+                                      onClick={() => shareMediaMutation.mutate(entry)}
+                                      disabled={shareMediaMutation.isPending}
+                                      data-testid={`button-share-media-${entry.id}`}
+                                    >
+                                      <Share2 className="mr-1 h-3 w-3" />
+                                      Share link
+                                    </Button>
+                                  )}
+                                </div>
+                                {canEdit && (
+                                  <div className="flex flex-wrap items-center gap-1 pt-1">
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-8 text-xs"
+                                      onClick={() => openCaptionDialog(entry)}
+                                      data-testid={`button-caption-media-${entry.id}`}
+                                    >
+                                      <Edit className="mr-1 h-3 w-3" />
+                                      Caption
+                                    </Button>
+                                    {isImage && !entry.isCover && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-8 text-xs"
+                                        onClick={() => updateMediaMutation.mutate({ entry, updates: { isCover: true } })}
+                                        disabled={updateMediaMutation.isPending}
+                                        data-testid={`button-cover-media-${entry.id}`}
+                                      >
+                                        <Star className="mr-1 h-3 w-3" />
+                                        Set as cover
+                                      </Button>
+                                    )}
+                                    <div className="ml-auto flex items-center">
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8"
+                                        onClick={() => moveMedia(index, -1)}
+                                        disabled={index === 0 || reorderMediaMutation.isPending}
+                                        aria-label={`Move ${entry.fileName} earlier`}
+                                      >
+                                        <ArrowUp className="h-3 w-3" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8"
+                                        onClick={() => moveMedia(index, 1)}
+                                        disabled={index === media.length - 1 || reorderMediaMutation.isPending}
+                                        aria-label={`Move ${entry.fileName} later`}
+                                      >
+                                        <ArrowDown className="h-3 w-3" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8"
+                                        onClick={() => setMediaDeleteTarget(entry)}
+                                        aria-label={`Delete ${entry.fileName}`}
+                                        data-testid={`button-delete-media-${entry.id}`}
+                                      >
+                                        <Trash2 className="h-3 w-3 text-destructive" />
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
                               </div>
                             </div>
                           );
@@ -319,9 +974,18 @@ export default function ServiceDetailPage() {
                           {currencyFormatter.format(Number.parseFloat(String(service.partsCost)) || 0)}
                         </span>
                       </div>
+                      <div className="flex items-center justify-between">
+                        <span>
+                          VAT ({Number.parseFloat(String(service.taxRate)) || 0}%
+                          {service.taxMode === "inclusive" ? ", included" : ""})
+                        </span>
+                        <span className="font-medium">
+                          {currencyFormatter.format(Number.parseFloat(String(service.taxAmount)) || 0)}
+                        </span>
+                      </div>
                       <Separator />
                       <div className="flex items-center justify-between text-sm">
-                        <span className="font-semibold">Total</span>
+                        <span className="font-semibold">Total incl. VAT</span>
                         <span className="text-lg font-semibold">
                           {currencyFormatter.format(Number.parseFloat(String(service.totalCost)) || 0)}
                         </span>
@@ -338,6 +1002,24 @@ export default function ServiceDetailPage() {
             </CardContent>
           </Card>
 
+          <EstimateVarianceCard service={service} formatCurrency={currencyFormatter.format} />
+
+          <TimeClockCard service={service} items={items} />
+
+          <AuthorizationsCard
+            service={service}
+            items={items}
+            customerName={customer?.name}
+            formatCurrency={currencyFormatter.format}
+          />
+
+          <InvoiceCard
+            serviceId={service.id}
+            customerId={service.customerId}
+            serviceTotal={Number.parseFloat(String(service.totalCost)) || 0}
+            formatCurrency={currencyFormatter.format}
+          />
+
           {customer && (
             <Card>
               <CardHeader>
@@ -363,8 +1045,246 @@ export default function ServiceDetailPage() {
               </CardContent>
             </Card>
           )}
-        </>
+        </HistoryTabs>
       ) : null}
+
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <form onSubmit={handleEditSubmit}>
+            <DialogHeader>
+              <DialogTitle>Edit service #{service?.id}</DialogTitle>
+              <DialogDescription>
+                Correct the work details or costs. The total is recalculated when you save; services with
+                line items take their costs from those lines.
+              </DialogDescription>
+            </DialogHeader>
+            {editForm && (
+              <div className="grid gap-4 py-4 md:grid-cols-2">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="edit-work">Service summary *</Label>
+                  <Textarea
+                    id="edit-work"
+                    value={editForm.workPerformed}
+                    onChange={(event) => handleEditChange("workPerformed")(event.target.value)}
+                    rows={4}
+                    required
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="edit-parts">Parts replaced</Label>
+                  <Textarea
+                    id="edit-parts"
+                    value={editForm.partsReplaced}
+                    onChange={(event) => handleEditChange("partsReplaced")(event.target.value)}
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="edit-notes">Notes</Label>
+                  <Textarea
+                    id="edit-notes"
+                    value={editForm.notes}
+                    onChange={(event) => handleEditChange("notes")(event.target.value)}
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-date">Service date</Label>
+                  <Input
+                    id="edit-date"
+                    type="date"
+                    value={editForm.serviceDate}
+                    onChange={(event) => handleEditChange("serviceDate")(event.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-technician">Technician</Label>
+                  <TechnicianSelect
+                    id="edit-technician"
+                    value={editForm.assignedTechnicianId}
+                    onValueChange={handleEditChange("assignedTechnicianId")}
+                  />
+                </div>
+                {items.length === 0 && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-labor">Labor cost</Label>
+                      <Input
+                        id="edit-labor"
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        step="0.01"
+                        value={editForm.laborCost}
+                        onChange={(event) => handleEditChange("laborCost")(event.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-parts-cost">Parts cost</Label>
+                      <Input
+                        id="edit-parts-cost"
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        step="0.01"
+                        value={editForm.partsCost}
+                        onChange={(event) => handleEditChange("partsCost")(event.target.value)}
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="edit-tax-mode">Prices</Label>
+                  <Select
+                    value={editForm.taxMode}
+                    onValueChange={(value) => handleEditChange("taxMode")(value)}
+                  >
+                    <SelectTrigger id="edit-tax-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="exclusive">Exclude VAT</SelectItem>
+                      <SelectItem value="inclusive">Include VAT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-tax-rate">VAT rate (%)</Label>
+                  <Input
+                    id="edit-tax-rate"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={editForm.taxRate}
+                    onChange={(event) => handleEditChange("taxRate")(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-odometer">Odometer (km)</Label>
+                  <Input
+                    id="edit-odometer"
+                    type="number"
+                    inputMode="numeric"
+                    min="0"
+                    value={editForm.odometer}
+                    onChange={(event) => handleEditChange("odometer")(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-next-due">Next service due</Label>
+                  <Input
+                    id="edit-next-due"
+                    type="date"
+                    value={editForm.nextServiceDue}
+                    onChange={(event) => handleEditChange("nextServiceDue")(event.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditDialogOpen(false)}
+                disabled={updateMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-service">
+                {updateMutation.isPending ? "Saving..." : "Save changes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={captionTarget !== null} onOpenChange={(open) => !open && setCaptionTarget(null)}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleCaptionSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Edit caption</DialogTitle>
+              <DialogDescription>{captionTarget?.fileName}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="media-caption">Caption</Label>
+              <Input
+                id="media-caption"
+                value={captionDraft}
+                onChange={(event) => setCaptionDraft(event.target.value)}
+                maxLength={MEDIA_CAPTION_MAX_LENGTH}
+                placeholder="Worn brake pads, front left"
+                data-testid="input-media-caption"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setCaptionTarget(null)}
+                disabled={updateMediaMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateMediaMutation.isPending} data-testid="button-save-media-caption">
+                {updateMediaMutation.isPending ? "Saving..." : "Save caption"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={mediaDeleteTarget !== null} onOpenChange={(open) => !open && setMediaDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {mediaDeleteTarget?.fileName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file is removed from the service and from the server. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMediaMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                if (mediaDeleteTarget) {
+                  deleteMediaMutation.mutate(mediaDeleteTarget);
+                }
+              }}
+              disabled={deleteMediaMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMediaMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete service record?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes service #{service?.id} and its media attachments.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
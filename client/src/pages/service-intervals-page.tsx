@@ -0,0 +1,255 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ServiceIntervalRule } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+type RuleFormState = {
+  serviceType: string;
+  intervalKm: string;
+  intervalMonths: string;
+};
+
+const emptyForm: RuleFormState = { serviceType: "", intervalKm: "", intervalMonths: "" };
+
+const toForm = (rule: ServiceIntervalRule): RuleFormState => ({
+  serviceType: rule.serviceType,
+  intervalKm: rule.intervalKm?.toString() ?? "",
+  intervalMonths: rule.intervalMonths?.toString() ?? "",
+});
+
+const parseInterval = (value: string) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export default function ServiceIntervalsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<ServiceIntervalRule | null>(null);
+  const [form, setForm] = useState<RuleFormState>(emptyForm);
+
+  const canManage = hasPermission(user, "interval.manage");
+
+  const { data: rules = [], isLoading, error } = useQuery<ServiceIntervalRule[]>({
+    queryKey: ["/api/service-intervals"],
+  });
+
+  const saveMutation = useMutation<ServiceIntervalRule, Error, RuleFormState>({
+    mutationFn: async (data) => {
+      const payload = {
+        serviceType: data.serviceType.trim(),
+        intervalKm: parseInterval(data.intervalKm),
+        intervalMonths: parseInterval(data.intervalMonths),
+      };
+      const res = editingRule
+        ? await apiRequest("PATCH", `/api/service-intervals/${editingRule.id}`, payload)
+        : await apiRequest("POST", "/api/service-intervals", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/service-intervals"] });
+      toast({ title: editingRule ? "Interval updated" : "Interval added" });
+      setDialogOpen(false);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to save interval", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation<void, Error, number>({
+    mutationFn: async (id) => {
+      await apiRequest("DELETE", `/api/service-intervals/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/service-intervals"] });
+      toast({ title: "Interval deleted" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to delete interval", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (rule: ServiceIntervalRule | null) => {
+    setEditingRule(rule);
+    setForm(rule ? toForm(rule) : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form.serviceType.trim()) {
+      toast({ title: "Add a service type" });
+      return;
+    }
+    if (parseInterval(form.intervalKm) === null && parseInterval(form.intervalMonths) === null) {
+      toast({ title: "Provide a kilometre interval, a time interval, or both" });
+      return;
+    }
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-service-intervals-title">
+            Service intervals
+          </h1>
+          <p className="text-muted-foreground">
+            Recommended intervals per service type. Whichever limit is reached first makes a service due.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)} data-testid="button-add-interval">
+            <Plus className="mr-2 h-4 w-4" />
+            Add interval
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Interval rules</CardTitle>
+          <CardDescription>Used to project the next due date and odometer reading for each vehicle.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((key) => (
+                <Skeleton key={key} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load intervals: {error.message}</p>
+          ) : rules.length === 0 ? (
+            <div className="py-10 text-center text-muted-foreground">No service intervals configured yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Service type</TableHead>
+                  <TableHead className="text-right">Every (km)</TableHead>
+                  <TableHead className="text-right">Every (months)</TableHead>
+                  {canManage && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} data-testid={`row-interval-${rule.id}`}>
+                    <TableCell className="font-medium">{rule.serviceType}</TableCell>
+                    <TableCell className="text-right">{rule.intervalKm?.toLocaleString() ?? "—"}</TableCell>
+                    <TableCell className="text-right">{rule.intervalMonths ?? "—"}</TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDialog(rule)}
+                            aria-label={`Edit ${rule.serviceType}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(rule.id)}
+                            disabled={deleteMutation.isPending}
+                            aria-label={`Delete ${rule.serviceType}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingRule ? "Edit interval" : "Add interval"}</DialogTitle>
+              <DialogDescription>Leave a limit blank to only track the other one.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="interval-service-type">Service type *</Label>
+                <Input
+                  id="interval-service-type"
+                  value={form.serviceType}
+                  onChange={(event) => setForm({ ...form, serviceType: event.target.value })}
+                  placeholder="Oil change"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="interval-km">Kilometres</Label>
+                  <Input
+                    id="interval-km"
+                    type="number"
+                    min="1"
+                    value={form.intervalKm}
+                    onChange={(event) => setForm({ ...form, intervalKm: event.target.value })}
+                    placeholder="5000"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="interval-months">Months</Label>
+                  <Input
+                    id="interval-months"
+                    type="number"
+                    min="1"
+                    value={form.intervalMonths}
+                    onChange={(event) => setForm({ ...form, intervalMonths: event.target.value })}
+                    placeholder="6"
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save interval"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
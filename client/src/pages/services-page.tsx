@@ -25,7 +25,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useTechnicians } from "@/hooks/use-technicians";
+import { TechnicianSelect, UNASSIGNED_TECHNICIAN } from "@/components/technician-select";
 import type { Service, Customer, Vehicle } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 
@@ -38,13 +41,14 @@ type ServiceFormState = {
   partsReplaced: string;
   laborCost: string;
   partsCost: string;
-  mechanicName: string;
+  assignedTechnicianId: string;
   notes: string;
 };
 
 export default function ServicesPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { technicians } = useTechnicians();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [formData, setFormData] = useState<ServiceFormState>({
     plateNumber: "",
@@ -53,7 +57,7 @@ export default function ServicesPage() {
     partsReplaced: "",
     laborCost: "",
     partsCost: "",
-    mechanicName: "",
+    assignedTechnicianId: UNASSIGNED_TECHNICIAN,
     notes: "",
   });
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
@@ -121,7 +125,7 @@ export default function ServicesPage() {
       partsReplaced: "",
       laborCost: "",
       partsCost: "",
-      mechanicName: "",
+      assignedTechnicianId: UNASSIGNED_TECHNICIAN,
       notes: "",
     });
     setMediaFiles([]);
@@ -200,8 +204,8 @@ export default function ServicesPage() {
       submission.append("totalCost", derivedTotalCost);
     }
 
-    if (formData.mechanicName.trim()) {
-      submission.append("mechanicName", formData.mechanicName.trim());
+    if (formData.assignedTechnicianId !== UNASSIGNED_TECHNICIAN) {
+      submission.append("assignedTechnicianId", formData.assignedTechnicianId);
     }
 
     if (formData.notes.trim()) {
@@ -215,7 +219,7 @@ export default function ServicesPage() {
     createMutation.mutate(submission);
   };
 
-  const canEdit = user?.role === "admin" || user?.role === "mechanic";
+  const canCreate = hasPermission(user, "service.create");
 
   const sortedServices = [...services].sort(
     (a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime()
@@ -228,7 +232,7 @@ export default function ServicesPage() {
           <h1 className="text-3xl font-bold" data-testid="text-services-title">Services</h1>
           <p className="text-muted-foreground">Create and view service records</p>
         </div>
-        {canEdit && (
+        {canCreate && (
           <Button onClick={() => setDialogOpen(true)} data-testid="button-add-service" className="self-start sm:self-auto">
             <Plus className="h-4 w-4 mr-2" />
             New Service
@@ -260,7 +264,7 @@ export default function ServicesPage() {
                     <TableHead>Vehicle</TableHead>
                     <TableHead>Customer</TableHead>
                     <TableHead>Work Performed</TableHead>
-                    <TableHead>Mechanic</TableHead>
+                    <TableHead>Technician</TableHead>
                     <TableHead className="text-right">Total Cost</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -307,7 +311,8 @@ export default function ServicesPage() {
                         )}
                       </TableCell>
                       <TableCell>
-                        {service.mechanicName || <span className="text-muted-foreground">—</span>}
+                        {technicians.find((technician) => technician.id === service.assignedTechnicianId)?.name ||
+                          service.mechanicName || <span className="text-muted-foreground">—</span>}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
@@ -393,13 +398,11 @@ export default function ServicesPage() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="mechanicName">Mechanic Name</Label>
-                  <Input
-                    id="mechanicName"
-                    value={formData.mechanicName}
-                    onChange={(e) => setFormData({ ...formData, mechanicName: e.target.value })}
-                    placeholder="Who performed the service?"
-                    data-testid="input-mechanic-name"
+                  <Label htmlFor="assignedTechnicianId">Technician</Label>
+                  <TechnicianSelect
+                    id="assignedTechnicianId"
+                    value={formData.assignedTechnicianId}
+                    onValueChange={(value) => setFormData({ ...formData, assignedTechnicianId: value })}
                   />
                 </div>
               </div>
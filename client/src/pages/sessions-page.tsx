@@ -0,0 +1,87 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { LogOut, MonitorSmartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SessionList } from "@/components/session-list";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/schema";
+
+export default function SessionsPage() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading, error } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const revokeMutation = useMutation<void, Error, ActiveSession>({
+    mutationFn: async (session) => {
+      await apiRequest("DELETE", `/api/user/sessions/${session.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to sign out the session", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation<{ revoked: number }, Error, void>({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/sessions");
+      return await res.json();
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: revoked === 1 ? "Signed out 1 other session" : `Signed out ${revoked} other sessions` });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to sign out other sessions", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="flex justify-center">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5 text-muted-foreground" />
+              Active sessions
+            </CardTitle>
+            <CardDescription>Devices currently signed in to your account.</CardDescription>
+          </div>
+          {hasOthers && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+              data-testid="button-revoke-other-sessions"
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out other devices
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load sessions: {error.message}</p>
+          ) : (
+            <SessionList
+              sessions={sessions}
+              onRevoke={(session) => revokeMutation.mutate(session)}
+              revoking={revokeMutation.isPending}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Car, Play, Square, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatHours, useNow, useTimeClock } from "@/hooks/use-time-clock";
+import { clockedHours } from "@shared/time-clock";
+import type { Service, Vehicle } from "@shared/schema";
+
+type OpenJob = {
+  service: Service;
+  vehicle: Vehicle | null;
+};
+
+// Phone-sized view for technicians: what am I on, and what can I clock on to.
+export default function TimeClockPage() {
+  const [, setLocation] = useLocation();
+  const now = useNow(15_000);
+  const { active, isLoading: loadingActive, clockOnMutation, clockOffMutation } = useTimeClock();
+
+  const { data: jobs = [], isLoading: loadingJobs, error } = useQuery<OpenJob[]>({
+    queryKey: ["/api/time-clock/jobs"],
+  });
+
+  return (
+    <div className="mx-auto max-w-xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-time-clock-title">
+          Time clock
+        </h1>
+        <p className="text-muted-foreground">Clock on and off the jobs you work on</p>
+      </div>
+
+      <Card className={active ? "border-primary" : undefined}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Timer className="h-5 w-5 text-muted-foreground" />
+            {active ? "On the clock" : "Not clocked on"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loadingActive ? (
+            <Skeleton className="h-16 w-full" />
+          ) : active ? (
+            <>
+              <button
+                type="button"
+                className="w-full text-left"
+                onClick={() => setLocation(`/services/${active.entry.serviceId}`)}
+              >
+                <p className="font-mono text-xl font-semibold">{active.vehicle?.plateNumber ?? `Service #${active.entry.serviceId}`}</p>
+                <p className="truncate text-sm text-muted-foreground">{active.service?.workPerformed}</p>
+                <p className="text-sm text-muted-foreground">
+                  Since {format(new Date(active.entry.startedAt), "HH:mm")} · {formatHours(clockedHours(active.entry, now))}
+                </p>
+              </button>
+              <Button
+                size="lg"
+                variant="destructive"
+                className="h-14 w-full text-lg"
+                onClick={() => clockOffMutation.mutate(active.entry.id)}
+                disabled={clockOffMutation.isPending}
+                data-testid="button-clock-off"
+              >
+                <Square className="mr-2 h-5 w-5" />
+                Clock off
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">Pick a job below to start the clock.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Open jobs</h2>
+        {loadingJobs ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load jobs: {error.message}</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scheduled or in-progress jobs.</p>
+        ) : (
+          jobs.map(({ service, vehicle }) => (
+            <Card key={service.id} data-testid={`card-job-${service.id}`}>
+              <CardContent className="flex items-center justify-between gap-3 p-4">
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 text-left"
+                  onClick={() => setLocation(`/services/${service.id}`)}
+                >
+                  <p className="flex items-center gap-2 font-mono font-semibold">
+                    <Car className="h-4 w-4 text-muted-foreground" />
+                    {vehicle?.plateNumber ?? `Service #${service.id}`}
+                  </p>
+                  <p className="truncate text-sm text-muted-foreground">{service.workPerformed}</p>
+                  <Badge variant="outline" className="mt-1 capitalize">
+                    {service.status.replace(/_/g, " ")}
+                  </Badge>
+                </button>
+                <Button
+                  size="lg"
+                  onClick={() => clockOnMutation.mutate({ serviceId: service.id })}
+                  disabled={Boolean(active) || clockOnMutation.isPending}
+                  aria-label={`Clock on to ${vehicle?.plateNumber ?? `service ${service.id}`}`}
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  Clock on
+                </Button>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
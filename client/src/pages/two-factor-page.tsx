@@ -0,0 +1,311 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, LogOut, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DisableTwoFactor, TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+type TwoFactorPageProps = {
+  // Shown instead of the app when the user's role requires 2FA and it is not set up yet
+  forced?: boolean;
+};
+
+type RecoveryCodesResponse = {
+  recoveryCodes: string[];
+};
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} inputMode="numeric" autoComplete="one-time-code">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export default function TwoFactorPage({ forced = false }: TwoFactorPageProps) {
+  const { logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading, error } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const setupMutation = useMutation<TwoFactorSetup, Error, void>({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      setSetup(result);
+      setCode("");
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to start setup", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation<RecoveryCodesResponse, Error, string>({
+    mutationFn: async (value) => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code: value });
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      // The signed-in user is refreshed once the codes are acknowledged, so a forced screen does not vanish first
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError: (mutationError) => {
+      setCode("");
+      toast({ title: "Failed to turn on two-factor authentication", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation<RecoveryCodesResponse, Error, string>({
+    mutationFn: async (value) => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code: value });
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+    },
+    onError: (mutationError) => {
+      setCode("");
+      toast({ title: "Failed to create recovery codes", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation<TwoFactorStatus, Error, DisableTwoFactor>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("DELETE", "/api/user/two-factor", data);
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/user/two-factor"], result);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setPassword("");
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to turn off two-factor authentication", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const acknowledgeCodes = () => {
+    setRecoveryCodes(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Recovery codes copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the codes and copy them manually.", variant: "destructive" });
+    }
+  };
+
+  const handleEnable = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (code.length !== 6) {
+      toast({ title: "Enter the 6-digit code from your authenticator app" });
+      return;
+    }
+    enableMutation.mutate(code);
+  };
+
+  const handleRegenerate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (code.length !== 6) {
+      toast({ title: "Enter the 6-digit code from your authenticator app" });
+      return;
+    }
+    regenerateMutation.mutate(code);
+  };
+
+  const handleDisable = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    disableMutation.mutate({ password });
+  };
+
+  let body;
+  if (isLoading) {
+    body = <Skeleton className="h-40 w-full" />;
+  } else if (error || !status) {
+    body = <p className="text-sm text-destructive">Failed to load two-factor settings: {error?.message}</p>;
+  } else if (recoveryCodes) {
+    body = (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They will not be
+          shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm" data-testid="list-recovery-codes">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={copyCodes}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button type="button" className="flex-1" onClick={acknowledgeCodes} data-testid="button-recovery-codes-saved">
+            I have saved these codes
+          </Button>
+        </div>
+      </div>
+    );
+  } else if (status.enabled) {
+    body = (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge>On</Badge>
+          {status.enabledAt && <span className="text-muted-foreground">since {format(new Date(status.enabledAt), "PPP")}</span>}
+          <span className="text-muted-foreground">· {status.recoveryCodesRemaining} recovery codes left</span>
+        </div>
+        <form onSubmit={handleRegenerate} className="space-y-3">
+          <Label>New recovery codes</Label>
+          <p className="text-sm text-muted-foreground">
+            Enter a code from your authenticator app. Your old recovery codes stop working.
+          </p>
+          <CodeInput value={code} onChange={setCode} />
+          <Button type="submit" variant="outline" disabled={regenerateMutation.isPending}>
+            Create new recovery codes
+          </Button>
+        </form>
+        <Separator />
+        {status.required ? (
+          <p className="text-sm text-muted-foreground">Your role requires two-factor authentication, so it cannot be turned off.</p>
+        ) : (
+          <form onSubmit={handleDisable} className="space-y-3">
+            <Label htmlFor="two-factor-password">Turn off</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              autoComplete="current-password"
+              placeholder="Your password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              required
+            />
+            <Button type="submit" variant="destructive" disabled={disableMutation.isPending}>
+              Turn off two-factor authentication
+            </Button>
+          </form>
+        )}
+      </div>
+    );
+  } else if (setup) {
+    body = (
+      <form onSubmit={handleEnable} className="space-y-4">
+        <p className="text-sm">Scan this QR code with an authenticator app, then enter the 6-digit code it shows.</p>
+        <div className="flex justify-center">
+          <img
+            src={setup.qrCodeDataUrl}
+            alt="QR code for your authenticator app"
+            className="h-52 w-52 rounded-md border bg-white p-2"
+            data-testid="img-two-factor-qr"
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Can't scan? Enter this key instead:</p>
+          <p className="break-all font-mono text-sm" data-testid="text-two-factor-secret">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </p>
+        </div>
+        <div className="flex justify-center">
+          <CodeInput value={code} onChange={setCode} />
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+          <Button type="submit" className="flex-1" disabled={enableMutation.isPending} data-testid="button-enable-two-factor">
+            {enableMutation.isPending ? "Checking..." : "Turn on"}
+          </Button>
+        </div>
+      </form>
+    );
+  } else {
+    body = (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          After your password, you will also be asked for a code from an authenticator app on your phone, such as Google
+          Authenticator, Microsoft Authenticator or 1Password.
+        </p>
+        <Button
+          type="button"
+          className="w-full"
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+          data-testid="button-setup-two-factor"
+        >
+          Set up two-factor authentication
+        </Button>
+      </div>
+    );
+  }
+
+  const content = (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+          Two-factor authentication
+        </CardTitle>
+        <CardDescription>
+          {forced
+            ? "Your administrator requires two-factor authentication for your role before you can continue."
+            : "Protect your account with a code from your phone in addition to your password."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {body}
+        {forced && (
+          <Button
+            type="button"
+            variant="ghost"
+            className="w-full"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign out
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (forced) {
+    return <div className="flex min-h-screen items-center justify-center p-6">{content}</div>;
+  }
+
+  return <div className="flex justify-center">{content}</div>;
+}
@@ -0,0 +1,555 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { KeyRound, LogOut, MonitorSmartphone, Pencil, Plus, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PasswordRequirements } from "@/components/password-requirements";
+import { SessionList } from "@/components/session-list";
+import { useAuth } from "@/hooks/use-auth";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { checkPasswordStrength, describePasswordProblems } from "@shared/password-policy";
+import type { ActiveSession, CreateUser, PublicUser, UpdateUser, UserRole } from "@shared/schema";
+
+type UserFormState = {
+  name: string;
+  username: string;
+  role: UserRole;
+  active: boolean;
+  mustChangePassword: boolean;
+  password: string;
+};
+
+const roleLabels: Record<UserRole, string> = {
+  admin: "Admin",
+  mechanic: "Mechanic",
+  viewer: "Viewer",
+};
+
+const emptyForm: UserFormState = {
+  name: "",
+  username: "",
+  role: "mechanic",
+  active: true,
+  mustChangePassword: true,
+  password: "",
+};
+
+const toForm = (user: PublicUser): UserFormState => ({
+  name: user.name,
+  username: user.username,
+  role: user.role,
+  active: user.active,
+  mustChangePassword: user.mustChangePassword,
+  password: "",
+});
+
+export default function UsersPage() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const policy = usePasswordPolicy();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [form, setForm] = useState<UserFormState>(emptyForm);
+  const [passwordUser, setPasswordUser] = useState<PublicUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [requireChange, setRequireChange] = useState(true);
+  const [twoFactorUser, setTwoFactorUser] = useState<PublicUser | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<PublicUser | null>(null);
+
+  const { data: users = [], isLoading, error } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const sessionsQuery = useQuery<ActiveSession[]>({
+    queryKey: ["/api/users", sessionsUser?.id, "sessions"],
+    enabled: sessionsUser !== null,
+  });
+
+  const revokeSessionsMutation = useMutation<{ revoked: number }, Error, PublicUser>({
+    mutationFn: async (user) => {
+      const res = await apiRequest("DELETE", `/api/users/${user.id}/sessions`);
+      return await res.json();
+    },
+    onSuccess: ({ revoked }, user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", user.id, "sessions"] });
+      toast({ title: `Signed ${user.name} out of ${revoked === 1 ? "1 session" : `${revoked} sessions`}` });
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to sign out sessions", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/technicians"] });
+  };
+
+  const createMutation = useMutation<PublicUser, Error, CreateUser>({
+    mutationFn: async (data) => {
+      const res = await apiRequest("POST", "/api/users", data);
+      return await res.json();
+    },
+    onSuccess: (created) => {
+      invalidateUsers();
+      toast({ title: `Created ${created.name}` });
+      setDialogOpen(false);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to create user", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation<PublicUser, Error, { id: string; data: UpdateUser }>({
+    mutationFn: async ({ id, data }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      invalidateUsers();
+      toast({ title: `Updated ${updated.name}` });
+      setDialogOpen(false);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to update user", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const resetPasswordMutation = useMutation<void, Error, { id: string; password: string; mustChangePassword: boolean }>({
+    mutationFn: async ({ id, ...data }) => {
+      await apiRequest("POST", `/api/users/${id}/password`, data);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: "Password reset", description: "Share the new password with the user securely." });
+      setPasswordUser(null);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to reset password", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation<PublicUser, Error, PublicUser>({
+    mutationFn: async (user) => {
+      const res = await apiRequest("DELETE", `/api/users/${user.id}/two-factor`);
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      invalidateUsers();
+      toast({
+        title: `Two-factor authentication reset for ${updated.name}`,
+        description: "They can sign in with their password and set it up again.",
+      });
+      setTwoFactorUser(null);
+    },
+    onError: (mutationError) => {
+      toast({ title: "Failed to reset two-factor authentication", description: mutationError.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingUser(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (user: PublicUser) => {
+    setEditingUser(user);
+    setForm(toForm(user));
+    setDialogOpen(true);
+  };
+
+  const openResetPassword = (user: PublicUser) => {
+    setPasswordUser(user);
+    setNewPassword("");
+    setRequireChange(true);
+  };
+
+  // Returns false (after telling the admin why) when the password breaks the policy
+  const checkPolicy = (password: string) => {
+    const problems = checkPasswordStrength(password, policy);
+    if (problems.length > 0) {
+      toast({ title: describePasswordProblems(problems) });
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (editingUser) {
+      updateMutation.mutate({
+        id: editingUser.id,
+        data: {
+          name: form.name.trim(),
+          role: form.role,
+          active: form.active,
+          mustChangePassword: form.mustChangePassword,
+        },
+      });
+      return;
+    }
+
+    if (!checkPolicy(form.password)) {
+      return;
+    }
+    createMutation.mutate({
+      name: form.name.trim(),
+      username: form.username.trim(),
+      role: form.role,
+      password: form.password,
+      mustChangePassword: form.mustChangePassword,
+    });
+  };
+
+  const handleResetPassword = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!passwordUser) {
+      return;
+    }
+    if (!checkPolicy(newPassword)) {
+      return;
+    }
+    resetPasswordMutation.mutate({ id: passwordUser.id, password: newPassword, mustChangePassword: requireChange });
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold" data-testid="text-users-title">
+            Users
+          </h1>
+          <p className="text-muted-foreground">Manage who can sign in and what they can do</p>
+        </div>
+        <Button onClick={openCreate} className="self-start sm:self-auto" data-testid="button-add-user">
+          <Plus className="mr-2 h-4 w-4" />
+          Add user
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive">Failed to load users: {error.message}</p>
+          ) : users.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No users yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last login</TableHead>
+                  <TableHead className="w-40" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                    <TableCell>
+                      <p className="flex items-center gap-2 font-medium">
+                        {user.name}
+                        {user.id === currentUser?.id && <Badge variant="outline">You</Badge>}
+                      </p>
+                      <p className="font-mono text-sm text-muted-foreground">{user.username}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === "admin" ? "default" : "secondary"}>{roleLabels[user.role]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {user.active ? (
+                          <Badge variant="outline">Active</Badge>
+                        ) : (
+                          <Badge variant="destructive">Disabled</Badge>
+                        )}
+                        {user.mustChangePassword && <Badge variant="secondary">Password change due</Badge>}
+                        {user.twoFactorEnabledAt && <Badge variant="secondary">2FA</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {user.lastLoginAt ? format(new Date(user.lastLoginAt), "MMM d, yyyy HH:mm") : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(user)} aria-label={`Edit ${user.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openResetPassword(user)}
+                          aria-label={`Reset password for ${user.name}`}
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSessionsUser(user)}
+                          aria-label={`Sessions for ${user.name}`}
+                        >
+                          <MonitorSmartphone className="h-4 w-4" />
+                        </Button>
+                        {user.twoFactorEnabledAt && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setTwoFactorUser(user)}
+                            aria-label={`Reset two-factor authentication for ${user.name}`}
+                          >
+                            <ShieldOff className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingUser ? `Edit ${editingUser.name}` : "Add user"}</DialogTitle>
+              <DialogDescription>
+                {editingUser
+                  ? "Change the display name, role or whether the account can sign in."
+                  : "Mechanics can edit jobs; viewers have read-only access."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Name</Label>
+              <Input
+                id="user-name"
+                value={form.name}
+                onChange={(event) => setForm((previous) => ({ ...previous, name: event.target.value }))}
+                required
+              />
+            </div>
+            {!editingUser && (
+              <div className="space-y-2">
+                <Label htmlFor="user-username">Username</Label>
+                <Input
+                  id="user-username"
+                  value={form.username}
+                  onChange={(event) => setForm((previous) => ({ ...previous, username: event.target.value }))}
+                  autoComplete="off"
+                  required
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="user-role">Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm((previous) => ({ ...previous, role: value as UserRole }))}
+              >
+                <SelectTrigger id="user-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(roleLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {editingUser ? (
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="user-active">Can sign in</Label>
+                  <p className="text-xs text-muted-foreground">Disabled accounts are signed out immediately.</p>
+                </div>
+                <Switch
+                  id="user-active"
+                  checked={form.active}
+                  onCheckedChange={(checked) => setForm((previous) => ({ ...previous, active: checked }))}
+                  disabled={editingUser.id === currentUser?.id}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="user-password">Initial password</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  value={form.password}
+                  onChange={(event) => setForm((previous) => ({ ...previous, password: event.target.value }))}
+                  autoComplete="new-password"
+                  required
+                />
+                <PasswordRequirements password={form.password} policy={policy} />
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.mustChangePassword}
+                onCheckedChange={(checked) =>
+                  setForm((previous) => ({ ...previous, mustChangePassword: checked === true }))
+                }
+              />
+              Must change password at next sign-in
+            </label>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {editingUser ? "Save changes" : "Create user"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={passwordUser !== null} onOpenChange={(open) => !open && setPasswordUser(null)}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleResetPassword} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Reset password</DialogTitle>
+              <DialogDescription>
+                Set a new password for {passwordUser?.name}. They will be signed out on every device.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">New password</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                value={newPassword}
+                onChange={(event) => setNewPassword(event.target.value)}
+                autoComplete="new-password"
+                required
+              />
+              <PasswordRequirements password={newPassword} policy={policy} />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={requireChange} onCheckedChange={(checked) => setRequireChange(checked === true)} />
+              Must change password at next sign-in
+            </label>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setPasswordUser(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={resetPasswordMutation.isPending}>
+                Reset password
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={sessionsUser !== null} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Sessions for {sessionsUser?.name}</DialogTitle>
+            <DialogDescription>Devices where this account is signed in right now.</DialogDescription>
+          </DialogHeader>
+          {sessionsQuery.isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : sessionsQuery.error ? (
+            <p className="text-sm text-destructive">Failed to load sessions: {sessionsQuery.error.message}</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto">
+              <SessionList sessions={sessionsQuery.data ?? []} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setSessionsUser(null)}>
+              Close
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => sessionsUser && revokeSessionsMutation.mutate(sessionsUser)}
+              disabled={revokeSessionsMutation.isPending || (sessionsQuery.data ?? []).every((session) => session.current)}
+              data-testid="button-revoke-user-sessions"
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out everywhere
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={twoFactorUser !== null} onOpenChange={(open) => !open && setTwoFactorUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {twoFactorUser?.name} will be able to sign in with their password alone until they set up an authenticator
+              app again. Use this when they have lost their phone and recovery codes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => twoFactorUser && resetTwoFactorMutation.mutate(twoFactorUser)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={resetTwoFactorMutation.isPending}
+            >
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useLocation, useRoute } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,17 +16,23 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { ChevronLeft, Car, Calendar, User, Wrench, DollarSign } from "lucide-react";
+import { RemindersCard } from "@/components/reminders-card";
+import { EstimatesCard } from "@/components/estimates-card";
+import { ALL_TECHNICIANS, TechnicianSelect } from "@/components/technician-select";
+import { HistoryTabs } from "@/components/audit-history";
+import { apiRequest } from "@/lib/queryClient";
 import type { Vehicle, Service, Customer } from "@shared/schema";
 
 const currencyFormatter = new Intl.NumberFormat("en-US", {
   style: "currency",
-  currency: "USD",
+  currency: "SAR",
   minimumFractionDigits: 2,
 });
 
 export default function VehicleDetailPage() {
   const [, setLocation] = useLocation();
   const [match, params] = useRoute("/vehicles/:id");
+  const [technicianFilter, setTechnicianFilter] = useState(ALL_TECHNICIANS);
 
   const vehicleId = useMemo(() => {
     const raw = params?.id;
@@ -59,13 +65,19 @@ export default function VehicleDetailPage() {
     isLoading: loadingServices,
     error: servicesError,
   } = useQuery<Service[]>({
-    queryKey: ["/api/services/vehicle", vehicleId?.toString() ?? ""],
+    queryKey: ["/api/services/vehicle", vehicleId?.toString() ?? "", { technicianId: technicianFilter }],
+    queryFn: async () => {
+      const query = technicianFilter === ALL_TECHNICIANS ? "" : `?technicianId=${encodeURIComponent(technicianFilter)}`;
+      const res = await apiRequest("GET", `/api/services/vehicle/${vehicleId}${query}`);
+      return await res.json();
+    },
     enabled: match && vehicleId !== null,
+    placeholderData: keepPreviousData,
   });
 
   useEffect(() => {
     if (!match || vehicleId === null) {
-      setLocation("/vehicles");
+      setLocation("/");
     }
   }, [match, vehicleId, setLocation]);
 
@@ -79,9 +91,9 @@ export default function VehicleDetailPage() {
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
-        <Button variant="ghost" onClick={() => setLocation("/vehicles")}> 
+        <Button variant="ghost" onClick={() => setLocation(vehicle ? `/?plate=${encodeURIComponent(vehicle.plateNumber)}` : "/")}>
           <ChevronLeft className="mr-2 h-4 w-4" />
-          Back to vehicles
+          Back to search
         </Button>
         <div>
           <h1 className="text-3xl font-bold" data-testid="text-vehicle-detail-title">
@@ -103,7 +115,7 @@ export default function VehicleDetailPage() {
           </CardContent>
         </Card>
       ) : vehicle ? (
-        <>
+        <HistoryTabs query={{ entityType: "vehicle", entityId: vehicle.id }}>
           <Card>
             <CardHeader>
               <CardTitle className="flex flex-wrap items-center justify-between gap-3">
@@ -132,13 +144,21 @@ export default function VehicleDetailPage() {
 
           <div className="grid gap-6 md:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
                 <CardTitle>Service history</CardTitle>
+                <TechnicianSelect
+                  value={technicianFilter}
+                  onValueChange={setTechnicianFilter}
+                  className="w-48"
+                  includeAll
+                />
               </CardHeader>
               <CardContent>
                 {services.length === 0 ? (
                   <div className="py-12 text-center text-muted-foreground">
-                    No services recorded for this vehicle yet.
+                    {technicianFilter === ALL_TECHNICIANS
+                      ? "No services recorded for this vehicle yet."
+                      : "No services for this technician."}
                   </div>
                 ) : (
                   <Table>
@@ -247,7 +267,11 @@ export default function VehicleDetailPage() {
               </CardContent>
             </Card>
           </div>
-        </>
+
+          <EstimatesCard vehicleId={vehicle.id} formatCurrency={currencyFormatter.format} />
+
+          <RemindersCard customerId={vehicle.customerId} vehicleId={vehicle.id} />
+        </HistoryTabs>
       ) : null}
     </div>
   );
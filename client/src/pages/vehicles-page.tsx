@@ -38,12 +38,16 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { ServiceDueList } from "@/components/service-due-list";
 import type { Customer, Service, Vehicle } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import type { ServiceDueProjection } from "@shared/service-intervals";
 
 type LookupResult = {
   vehicle: Vehicle;
   customer: Customer | null;
   services: Service[];
+  serviceDue: ServiceDueProjection[];
 };
 
 type LookupError = Error & { status?: number };
@@ -163,7 +167,8 @@ export default function VehiclesPage() {
   const [isHydratingResult, startTransition] = useTransition();
   const lastRequestRef = useRef<{ term: string; timestamp: number } | null>(null);
 
-  const canEdit = user?.role === "admin" || user?.role === "mechanic";
+  const canRegister = hasPermission(user, "vehicle.create");
+  const canCreateService = hasPermission(user, "service.create");
 
   const lookupMutation = useMutation<VehicleSearchResponse, LookupError, string>({
     mutationFn: async (term) => {
@@ -287,6 +292,7 @@ export default function VehiclesPage() {
         vehicle,
         customer,
         services: [],
+        serviceDue: [],
       });
       setNotFound(false);
       setSuggestions([]);
@@ -640,7 +646,7 @@ export default function VehiclesPage() {
             <CardTitle>Search vehicles</CardTitle>
             <CardDescription>Look up a vehicle by plate, phone number, or customer name.</CardDescription>
           </div>
-          {canEdit && (
+          {canRegister && (
             <Button onClick={openRegistrationDialog} className="whitespace-nowrap">
               <Plus className="mr-2 h-4 w-4" />
               Register vehicle
@@ -750,12 +756,17 @@ export default function VehiclesPage() {
                   {lookupResult.vehicle.plateNumber}
                 </Badge>
               </div>
-              {canEdit && (
-                <Button onClick={goToNewService}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  New service
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" onClick={() => setLocation(`/vehicles/${lookupResult.vehicle.id}`)}>
+                  Vehicle profile
                 </Button>
-              )}
+                {canCreateService && (
+                  <Button onClick={goToNewService}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New service
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="space-y-6 p-4 pt-0 sm:px-6 sm:pb-6">
               <div className="grid gap-6 md:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
@@ -805,6 +816,14 @@ export default function VehiclesPage() {
                           </span>
                         </div>
                       </div>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => setLocation(`/customers/${lookupResult.customer!.id}`)}
+                      >
+                        View customer profile
+                      </Button>
                     </div>
                   ) : (
                     <div className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
@@ -814,6 +833,13 @@ export default function VehiclesPage() {
                 </div>
               </div>
 
+              {lookupResult.serviceDue.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold">Maintenance due</h3>
+                  <ServiceDueList projections={lookupResult.serviceDue} />
+                </div>
+              )}
+
               <div>
                 <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                   <div className="flex flex-col">
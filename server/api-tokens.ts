@@ -0,0 +1,70 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import { hasPermission } from "@shared/permissions";
+import type { ApiToken, ApiTokenSummary, CreateApiToken, CreatedApiToken, SessionUser } from "@shared/schema";
+import { storage } from "./storage";
+import { loadSessionUser } from "./two-factor";
+
+// Makes leaked tokens easy to recognise in logs and secret scanners
+const TOKEN_PREFIX = "asm_";
+const TOKEN_BYTES = 32;
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// lastUsedAt is rewritten at most this often, so a busy kiosk does not write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Tokens carry 256 random bits, so a plain SHA-256 is enough to keep them unreadable at rest
+const hashApiToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+export const toApiTokenSummary = ({ tokenHash: _tokenHash, ...summary }: ApiToken): ApiTokenSummary => summary;
+
+// Scopes may only narrow what the owner can already do; throws when asking for more.
+export async function issueApiToken(user: SessionUser, input: CreateApiToken): Promise<CreatedApiToken> {
+  const scopes = Array.from(new Set(input.scopes));
+  const notAllowed = scopes.filter((scope) => !hasPermission(user, scope));
+  if (notAllowed.length > 0) {
+    throw new Error(`Your role does not allow ${notAllowed.join(", ")}`);
+  }
+
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString("base64url");
+  const created = await storage.createApiToken({
+    userId: user.id,
+    name: input.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+    scopes,
+    expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+  });
+  return { ...toApiTokenSummary(created), token };
+}
+
+export const getBearerToken = (req: Request): string | null => {
+  const match = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+// Resolves a bearer token to the user it acts for, with permissions narrowed to the token's scopes.
+// Returns null for unknown or expired tokens and for disabled owners.
+export async function authenticateApiToken(req: Request, token: string): Promise<SessionUser | null> {
+  const record = await storage.getApiTokenByHash(hashApiToken(token));
+  const now = Date.now();
+  if (!record || (record.expiresAt && record.expiresAt.getTime() <= now)) {
+    return null;
+  }
+
+  const owner = await storage.getUser(record.userId);
+  if (!owner?.active) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now - record.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.recordApiTokenUse(record.id, req.ip ?? null);
+  }
+
+  // Re-resolved on every request, so a role change or matrix edit also limits existing tokens
+  const sessionUser = await loadSessionUser(owner);
+  return {
+    ...sessionUser,
+    permissions: sessionUser.permissions.filter((permission) => record.scopes.includes(permission)),
+  };
+}
@@ -1,14 +1,53 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type NextFunction, type Request, type Response } from "express";
 import session from "express-session";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
-import { comparePasswords } from "./utils/passwords";
+import {
+  changePasswordSchema,
+  disableTwoFactorSchema,
+  toSessionUser,
+  twoFactorCodeSchema,
+  type SessionUser,
+  type TwoFactorChallenge,
+  type TwoFactorStatus,
+  type User,
+} from "@shared/schema";
+import { comparePasswords, findPasswordProblem, hashPassword } from "./utils/passwords";
+import { passwordPolicy } from "./config";
+import {
+  findLoginBlock,
+  normalizeLoginUsername,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginBlock,
+} from "./login-protection";
+import { enforceSessionLifetime, sessionCookieMaxAge, startSessionMeta } from "./sessions";
+import { bindRequestContext } from "./request-context";
+import {
+  beginTwoFactorSetup,
+  clearTwoFactor,
+  generateRecoveryCodes,
+  isTwoFactorRequiredForRole,
+  loadSessionUser,
+  verifyAuthenticatorCode,
+  verifySecondFactor,
+} from "./two-factor";
+
+// How long the second sign-in step stays open after the password was accepted
+const PENDING_TWO_FACTOR_MS = 5 * 60 * 1000;
 
 declare global {
   namespace Express {
-    interface User extends SelectUser {}
+    // Sessions only ever carry the public profile, never the password hash or 2FA secret
+    interface User extends SessionUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password is accepted for an account with 2FA; cleared when the code is verified
+    pendingTwoFactor?: { userId: string; username: string; expiresAt: number };
   }
 }
 
@@ -17,33 +56,168 @@ export function setupAuth(app: Express) {
     secret: process.env.SESSION_SECRET!,
     resave: false,
     saveUninitialized: false,
+    rolling: true,
+    cookie: { maxAge: sessionCookieMaxAge },
     store: storage.sessionStore,
   };
 
   app.set("trust proxy", 1);
   app.use(session(sessionSettings));
+  app.use(enforceSessionLifetime);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(bindRequestContext);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
+      if (!user || !user.active || !(await comparePasswords(password, user.password))) {
         return done(null, false);
       } else {
-        return done(null, user);
+        return done(null, await loadSessionUser(user));
       }
     }),
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: string, done) => {
-    const user = await storage.getUser(id);
-    done(null, user);
+    try {
+      const user = await storage.getUser(id);
+      // Disabling an account signs it out everywhere on the next request
+      done(null, user?.active ? await loadSessionUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  const rejectBlocked = (res: Response, block: LoginBlock) => {
+    res.set("Retry-After", String(block.retryAfterSeconds));
+    res.status(429).json(block);
+  };
+
+  // Signs the user in once every factor has been checked; shared by the password and 2FA steps
+  const completeLogin = (req: Request, res: Response, next: NextFunction, user: Express.User, username: string) => {
+    req.login(user, async (loginError) => {
+      if (loginError) {
+        return next(loginError);
+      }
+      startSessionMeta(req);
+      try {
+        await recordLoginSuccess(username);
+        await storage.recordUserLogin(user.id);
+        await storage.recordLoginAttempt({
+          username,
+          userId: user.id,
+          ipAddress: req.ip ?? "unknown",
+          userAgent: req.get("user-agent") ?? null,
+          outcome: "success",
+        });
+        res.status(200).json(toSessionUser(user));
+      } catch (recordError) {
+        next(recordError);
+      }
+    });
+  };
+
+  app.post("/api/login", async (req, res, next) => {
+    const username = normalizeLoginUsername(req.body?.username);
+    const ipAddress = req.ip ?? "unknown";
+    const userAgent = req.get("user-agent") ?? null;
+
+    try {
+      const block = await findLoginBlock(username, ipAddress);
+      if (block) {
+        await storage.recordLoginAttempt({ username, ipAddress, userAgent, outcome: block.outcome });
+        return rejectBlocked(res, block);
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (error: unknown, user: Express.User | false) => {
+      if (error) {
+        return next(error);
+      }
+
+      try {
+        if (!user) {
+          const account = await storage.getUserByUsername(username);
+          await storage.recordLoginAttempt({
+            username,
+            userId: account?.id ?? null,
+            ipAddress,
+            userAgent,
+            outcome: "invalid_credentials",
+          });
+          const lockout = await recordLoginFailure(username, ipAddress);
+          if (lockout) {
+            return rejectBlocked(res, lockout);
+          }
+          return res.status(401).json({ error: "Invalid username or password" });
+        }
+
+        if (user.twoFactorEnabledAt) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            username,
+            expiresAt: Date.now() + PENDING_TWO_FACTOR_MS,
+          };
+          const challenge: TwoFactorChallenge = { twoFactorRequired: true };
+          return res.status(200).json(challenge);
+        }
+
+        completeLogin(req, res, next, user, username);
+      } catch (failureError) {
+        next(failureError);
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    const ipAddress = req.ip ?? "unknown";
+    const userAgent = req.get("user-agent") ?? null;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ error: "Your sign-in has expired. Enter your password again." });
+    }
+
+    try {
+      const { username } = pending;
+      const block = await findLoginBlock(username, ipAddress);
+      if (block) {
+        await storage.recordLoginAttempt({ username, userId: pending.userId, ipAddress, userAgent, outcome: block.outcome });
+        return rejectBlocked(res, block);
+      }
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user?.active) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Your sign-in has expired. Enter your password again." });
+      }
+
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        await storage.recordLoginAttempt({ username, userId: user.id, ipAddress, userAgent, outcome: "invalid_code" });
+        const lockout = await recordLoginFailure(username, ipAddress);
+        if (lockout) {
+          delete req.session.pendingTwoFactor;
+          return rejectBlocked(res, lockout);
+        }
+        // 400 rather than 401: the password step still stands, so the client stays on the code prompt
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      completeLogin(req, res, next, await loadSessionUser(user), username);
+    } catch (error) {
+      next(error);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -55,6 +229,149 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toSessionUser(req.user!));
+  });
+
+  // Reachable even while a password change is pending, unlike routes behind requireAuth
+  app.get("/api/password-policy", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(passwordPolicy);
+  });
+
+  app.post("/api/user/password", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+
+      const problem = findPasswordProblem(newPassword);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+      if (await comparePasswords(newPassword, user.password)) {
+        return res.status(400).json({ error: "Choose a password different from the current one" });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        password: await hashPassword(newPassword),
+        mustChangePassword: false,
+        passwordChangedAt: new Date(),
+      });
+      // Sign out every other device that was using the old password
+      await storage.deleteUserSessions(user.id, req.sessionID);
+
+      res.json(await loadSessionUser(updated ?? user));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // The 2FA endpoints stay reachable while a role policy still requires enrollment, unlike routes behind requireAuth
+  const statusFor = async (user: User): Promise<TwoFactorStatus> => ({
+    enabled: Boolean(user.twoFactorEnabledAt),
+    enabledAt: user.twoFactorEnabledAt,
+    required: await isTwoFactorRequiredForRole(user.role),
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+  });
+
+  app.get("/api/user/two-factor", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      res.json(await statusFor(user));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/user/two-factor/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (user.twoFactorEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is already on" });
+      }
+      res.json(await beginTwoFactorSetup(user));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/user/two-factor/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (user.twoFactorEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is already on" });
+      }
+      if (!user.twoFactorSecret) {
+        return res.status(400).json({ error: "Start the setup again to get a new QR code" });
+      }
+      if ((await verifyAuthenticatorCode(user, code)) === null) {
+        return res.status(400).json({ error: "That code is not valid. Check the time on your phone and try again." });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUser(user.id, { twoFactorEnabledAt: new Date(), twoFactorRecoveryCodes: hashes });
+      res.json({ recoveryCodes: codes });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/user/two-factor/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (!user.twoFactorEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is not on" });
+      }
+      if ((await verifyAuthenticatorCode(user, code)) === null) {
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      // Replaces every earlier code, used or not
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUser(user.id, { twoFactorRecoveryCodes: hashes });
+      res.json({ recoveryCodes: codes });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/user/two-factor", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { password } = disableTwoFactorSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return res.status(400).json({ error: "Password is incorrect" });
+      }
+      if (await isTwoFactorRequiredForRole(user.role)) {
+        return res.status(400).json({ error: "Your role requires two-factor authentication" });
+      }
+
+      const updated = await clearTwoFactor(user.id);
+      res.json(await statusFor(updated ?? user));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
   });
 }
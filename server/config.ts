@@ -0,0 +1,113 @@
+import type { TaxMode } from "@shared/schema";
+import type { OpeningHours } from "@shared/scheduling";
+import { DEFAULT_PASSWORD_POLICY, type PasswordPolicy } from "@shared/password-policy";
+
+const parseRate = (value: string | undefined, fallback: number, max = 100): number => {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= max ? parsed : fallback;
+};
+
+const parseClock = (value: string | undefined, fallback: string): string =>
+  value && /^([01]\d|2[0-3]):[0-5]\d$/.test(value) ? value : fallback;
+
+const parseWeekdays = (value: string | undefined, fallback: number[]): number[] => {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value
+    .split(",")
+    .map((day) => Number.parseInt(day.trim(), 10))
+    .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+};
+
+const parseSlotMinutes = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed >= 5 && parsed <= 240 ? parsed : fallback;
+};
+
+const parseFlag = (value: string | undefined, fallback: boolean): boolean => {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  return value === "true" || value === "1";
+};
+
+const MAX_MEDIA_LINK_MINUTES = 7 * 24 * 60;
+
+const parseCount = (value: string | undefined, fallback: number, min = 1, max = 1000): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+};
+
+// Defaults applied to new services; each service keeps the rate and mode it was priced with.
+export const taxSettings: { rate: number; mode: TaxMode } = {
+  rate: parseRate(process.env.VAT_RATE, 15),
+  mode: process.env.VAT_PRICING_MODE === "inclusive" ? "inclusive" : "exclusive",
+};
+
+// Hourly rate put on the labor line created when a technician clocks on without picking a line item.
+export const laborSettings = {
+  defaultRate: parseRate(process.env.DEFAULT_LABOR_RATE, 0, Number.MAX_SAFE_INTEGER),
+};
+
+// Seller details printed on tax invoices and encoded in the e-invoice QR code.
+export const sellerProfile = {
+  name: process.env.SELLER_NAME || "AutoShop",
+  vatNumber: process.env.SELLER_VAT_NUMBER || "",
+  address: process.env.SELLER_ADDRESS || "",
+};
+
+// When bays can be booked; bookings are validated against the shop's local wall clock.
+export const openingHours: OpeningHours = {
+  opensAt: parseClock(process.env.SHOP_OPENS_AT, "08:00"),
+  closesAt: parseClock(process.env.SHOP_CLOSES_AT, "18:00"),
+  closedDays: parseWeekdays(process.env.SHOP_CLOSED_DAYS, [5]),
+  slotMinutes: parseSlotMinutes(process.env.APPOINTMENT_SLOT_MINUTES, 30),
+  timeZone: process.env.SHOP_TIMEZONE || "Asia/Riyadh",
+};
+
+// Rules every new password must satisfy, whether set by an admin or by the user.
+export const passwordPolicy: PasswordPolicy = {
+  minLength: parseCount(process.env.PASSWORD_MIN_LENGTH, DEFAULT_PASSWORD_POLICY.minLength, 6, 128),
+  requireUppercase: parseFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, DEFAULT_PASSWORD_POLICY.requireUppercase),
+  requireLowercase: parseFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, DEFAULT_PASSWORD_POLICY.requireLowercase),
+  requireNumber: parseFlag(process.env.PASSWORD_REQUIRE_NUMBER, DEFAULT_PASSWORD_POLICY.requireNumber),
+  requireSymbol: parseFlag(process.env.PASSWORD_REQUIRE_SYMBOL, DEFAULT_PASSWORD_POLICY.requireSymbol),
+};
+
+// Brute-force protection for POST /api/login. Failures within the window first add an
+// exponential delay, then lock the username (or the whole IP) for lockoutMinutes.
+export const loginProtection = {
+  freeAttempts: parseCount(process.env.LOGIN_FREE_ATTEMPTS, 3, 0, 100),
+  usernameLockoutThreshold: parseCount(process.env.LOGIN_LOCKOUT_THRESHOLD, 10),
+  ipLockoutThreshold: parseCount(process.env.LOGIN_IP_LOCKOUT_THRESHOLD, 50),
+  lockoutMinutes: parseCount(process.env.LOGIN_LOCKOUT_MINUTES, 15, 1, 24 * 60),
+  windowMinutes: parseCount(process.env.LOGIN_FAILURE_WINDOW_MINUTES, 60, 1, 24 * 60),
+  maxDelaySeconds: parseCount(process.env.LOGIN_MAX_DELAY_SECONDS, 300, 1, 3600),
+};
+
+// Sessions end after idleMinutes without a request, and absoluteHours after sign-in no matter what.
+export const sessionTimeouts = {
+  idleMinutes: parseCount(process.env.SESSION_IDLE_MINUTES, 480, 5, 7 * 24 * 60),
+  absoluteHours: parseCount(process.env.SESSION_ABSOLUTE_HOURS, 168, 1, 365 * 24),
+};
+
+// Signed media links open one photo or video without signing in until they expire.
+export const mediaLinks = {
+  secret: process.env.MEDIA_LINK_SECRET || process.env.SESSION_SECRET || "",
+  defaultMinutes: parseCount(process.env.MEDIA_LINK_MINUTES, 60, 1, MAX_MEDIA_LINK_MINUTES),
+  maxMinutes: MAX_MEDIA_LINK_MINUTES,
+};
+
+// Uploaded photos are rewritten upright and without EXIF (GPS position, device details) unless this is turned off.
+export const mediaProcessing = {
+  stripMetadata: parseFlag(process.env.MEDIA_STRIP_METADATA, true),
+};
+
+const MEGABYTE = 1024 * 1024;
+
+// Upper limits on uploaded originals, checked before each upload is stored; 0 turns a limit off.
+export const mediaQuotas = {
+  serviceBytes: parseCount(process.env.MEDIA_SERVICE_QUOTA_MB, 500, 0, 1024 * 1024) * MEGABYTE,
+  totalBytes: parseCount(process.env.MEDIA_TOTAL_QUOTA_MB, 20 * 1024, 0, 1024 * 1024 * 1024) * MEGABYTE,
+};
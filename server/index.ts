@@ -1,8 +1,6 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import type { ListenOptions } from "net";
-import path from "path";
-import fs from "fs/promises";
 import multer from "multer";
 
 type ExtendedListenOptions = ListenOptions & { reusePort?: boolean };
@@ -13,7 +11,10 @@ const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-const uploadRoot = path.resolve(process.cwd(), "uploads");
+// Response fields that hand out credentials: the 2FA secret and its QR code, recovery codes and new API tokens
+const SECRET_RESPONSE_FIELDS = new Set(["secret", "otpauthUri", "qrCodeDataUrl", "recoveryCodes", "token"]);
+
+const redactSecrets = (key: string, value: unknown) => (SECRET_RESPONSE_FIELDS.has(key) ? "[redacted]" : value);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -31,7 +32,12 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        // Signed media links work without signing in, so their signatures are kept out too
+        const body = JSON.stringify(capturedJsonResponse, redactSecrets).replace(
+          /signature=[^&"]+/g,
+          "signature=[redacted]",
+        );
+        logLine += ` :: ${body}`;
       }
 
       if (logLine.length > 80) {
@@ -48,9 +54,6 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
-  await fs.mkdir(uploadRoot, { recursive: true });
-  app.use("/uploads", express.static(uploadRoot));
-
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     if (err instanceof multer.MulterError) {
       res.status(400).json({ message: err.message });
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { Invoice, Service, ServiceItem } from "@shared/schema";
+import { buildInvoiceLines, renderInvoiceDocument } from "./invoice-document";
+
+const service = {
+  id: 7,
+  workPerformed: "Brake service",
+  laborCost: "0",
+  partsCost: "0",
+  taxMode: "exclusive",
+  taxRate: "15",
+  serviceDate: new Date("2026-03-01T09:00:00Z"),
+} as Service;
+
+const item = (overrides: Partial<ServiceItem>): ServiceItem =>
+  ({
+    id: 1,
+    serviceId: service.id,
+    description: "Brake pads",
+    partNumber: null,
+    quantity: "2",
+    unitCost: "50",
+    laborHours: "0",
+    laborRate: "0",
+    taxRate: null,
+    ...overrides,
+  }) as ServiceItem;
+
+const issuedItems = [item({})];
+
+const invoice = {
+  id: 3,
+  invoiceNumber: 12,
+  serviceId: service.id,
+  amount: "115.00",
+  taxAmount: "15.00",
+  taxMode: "exclusive",
+  lines: buildInvoiceLines(service, issuedItems),
+  status: "pending",
+  issuedAt: new Date("2026-03-01T12:00:00Z"),
+  dueDate: null,
+  notes: null,
+} as Invoice;
+
+describe("buildInvoiceLines", () => {
+  it("prices each line item with its VAT", () => {
+    expect(buildInvoiceLines(service, issuedItems)).toEqual([
+      { description: "Brake pads", quantity: "2", unitPrice: 50, rate: 15, net: 100, tax: 15, gross: 115 },
+    ]);
+  });
+});
+
+describe("renderInvoiceDocument", () => {
+  it("prints the lines and totals the invoice was issued with after the service changes", async () => {
+    const changedItems = [item({ quantity: "4" }), item({ id: 2, description: "Brake discs", unitCost: "200" })];
+    const html = await renderInvoiceDocument({ invoice, service, items: changedItems, customer: null, vehicle: null });
+
+    expect(html).toContain("Brake pads");
+    expect(html).not.toContain("Brake discs");
+    expect(html).toMatch(/SAR.115\.00/);
+    expect(html).not.toMatch(/SAR.460\.00/);
+  });
+
+  it("falls back to the service for invoices issued before lines were kept", async () => {
+    const html = await renderInvoiceDocument({
+      invoice: { ...invoice, lines: [] },
+      service,
+      items: issuedItems,
+      customer: null,
+      vehicle: null,
+    });
+
+    expect(html).toContain("Brake pads");
+  });
+});
@@ -0,0 +1,193 @@
+import QRCode from "qrcode";
+import { format } from "date-fns";
+import {
+  calculateItemCosts,
+  calculateItemTax,
+  formatInvoiceNumber,
+  resolveItemTaxRate,
+  roundCurrency,
+  summarizeServiceTotals,
+  toAmount,
+} from "@shared/pricing";
+import type { Customer, Invoice, InvoiceLine, Service, ServiceItem, Vehicle } from "@shared/schema";
+import { sellerProfile } from "./config";
+import { buildSimplifiedInvoiceQrPayload } from "./utils/e-invoice";
+
+type InvoiceDocumentInput = {
+  invoice: Invoice;
+  service: Service;
+  items: ServiceItem[];
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "SAR",
+  minimumFractionDigits: 2,
+});
+
+const formatMoney = (value: number) => currencyFormatter.format(value);
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+
+// The lines a service would be invoiced with right now; frozen onto the invoice when it is issued.
+export function buildInvoiceLines(service: Service, items: ServiceItem[]): InvoiceLine[] {
+  if (items.length === 0) {
+    const totals = summarizeServiceTotals(service, []);
+    return [
+      {
+        description: service.workPerformed,
+        quantity: "1",
+        unitPrice: totals.totalCost,
+        rate: toAmount(service.taxRate),
+        net: totals.netTotal,
+        tax: totals.taxTotal,
+        gross: totals.grossTotal,
+      },
+    ];
+  }
+
+  return items.map((item) => {
+    const { totalCost } = calculateItemCosts(item);
+    const quantity = toAmount(item.quantity);
+    return {
+      description: item.partNumber ? `${item.description} (${item.partNumber})` : item.description,
+      quantity: String(item.quantity),
+      // Labor is folded into the line, so the unit price is the line amount per unit.
+      unitPrice: quantity > 0 ? roundCurrency(totalCost / quantity) : totalCost,
+      rate: resolveItemTaxRate(item, service.taxRate),
+      ...calculateItemTax(item, service.taxMode, service.taxRate),
+    };
+  });
+}
+
+// Renders a self-contained, printable tax invoice from the lines and totals it was issued with. Buyers
+// with a VAT number get a full tax invoice; everyone else gets a simplified tax invoice carrying the
+// e-invoicing QR code.
+export async function renderInvoiceDocument({
+  invoice,
+  service,
+  items,
+  customer,
+  vehicle,
+}: InvoiceDocumentInput): Promise<string> {
+  // Invoices issued before lines were kept fall back to the service as it is now
+  const frozen = invoice.lines.length > 0;
+  const lines = frozen ? invoice.lines : buildInvoiceLines(service, items);
+  const taxMode = frozen ? invoice.taxMode : service.taxMode;
+  const grossTotal = toAmount(invoice.amount);
+  const taxTotal = toAmount(invoice.taxAmount);
+  const isSimplified = !customer?.vatNumber;
+  const title = isSimplified ? "Simplified Tax Invoice" : "Tax Invoice";
+  const invoiceNumber = formatInvoiceNumber(invoice.invoiceNumber);
+
+  const qrPayload = buildSimplifiedInvoiceQrPayload({
+    sellerName: sellerProfile.name,
+    vatNumber: sellerProfile.vatNumber,
+    timestamp: invoice.issuedAt,
+    total: grossTotal.toFixed(2),
+    vatTotal: taxTotal.toFixed(2),
+  });
+  const qrImage = await QRCode.toDataURL(qrPayload, { margin: 1, width: 180 });
+
+  const rows = lines
+    .map(
+      (line) => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${escapeHtml(line.quantity)}</td>
+          <td class="num">${formatMoney(line.unitPrice)}</td>
+          <td class="num">${formatMoney(line.net)}</td>
+          <td class="num">${line.rate.toFixed(2)}%</td>
+          <td class="num">${formatMoney(line.tax)}</td>
+          <td class="num">${formatMoney(line.gross)}</td>
+        </tr>`,
+    )
+    .join("");
+
+  const buyerDetails = customer
+    ? `
+      <p><strong>${escapeHtml(customer.name)}</strong></p>
+      ${customer.address ? `<p>${escapeHtml(customer.address)}</p>` : ""}
+      <p>${escapeHtml(customer.phone)}</p>
+      ${customer.vatNumber ? `<p>VAT No: ${escapeHtml(customer.vatNumber)}</p>` : ""}`
+    : "<p>Walk-in customer</p>";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${title} ${invoiceNumber}</title>
+  <style>
+    body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; margin: 32px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    p { margin: 2px 0; }
+    .header, .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+    .muted { color: #555; font-size: 13px; }
+    .void { color: #b91c1c; font-weight: 700; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { margin-left: auto; margin-top: 16px; width: 320px; }
+    .totals td { border: none; }
+    .totals tr:last-child td { font-weight: 700; border-top: 2px solid #111; }
+    @media print { body { margin: 12mm; } .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${title}</h1>
+      <p>Invoice number: <strong>${invoiceNumber}</strong></p>
+      <p>Issue date: ${format(invoice.issuedAt, "yyyy-MM-dd HH:mm")}</p>
+      ${invoice.dueDate ? `<p>Due date: ${format(invoice.dueDate, "yyyy-MM-dd")}</p>` : ""}
+      <p class="muted">Prices ${taxMode === "inclusive" ? "include" : "exclude"} VAT</p>
+      ${invoice.status === "void" ? '<p class="void">VOID</p>' : ""}
+    </div>
+    <img src="${qrImage}" alt="E-invoice QR code" width="140" height="140" />
+  </div>
+  <div class="parties">
+    <div>
+      <p class="muted">Seller</p>
+      <p><strong>${escapeHtml(sellerProfile.name)}</strong></p>
+      ${sellerProfile.address ? `<p>${escapeHtml(sellerProfile.address)}</p>` : ""}
+      <p>VAT No: ${escapeHtml(sellerProfile.vatNumber || "—")}</p>
+    </div>
+    <div>
+      <p class="muted">Buyer</p>
+      ${buyerDetails}
+    </div>
+    <div>
+      <p class="muted">Vehicle</p>
+      ${vehicle ? `<p>${escapeHtml(`${vehicle.make} ${vehicle.model} ${vehicle.year}`)}</p><p>${escapeHtml(vehicle.plateNumber)}</p>` : "<p>—</p>"}
+      <p>Service date: ${format(service.serviceDate, "yyyy-MM-dd")}</p>
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Qty</th>
+        <th class="num">Unit price</th>
+        <th class="num">Taxable amount</th>
+        <th class="num">VAT rate</th>
+        <th class="num">VAT</th>
+        <th class="num">Total incl. VAT</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Total excl. VAT</td><td class="num">${formatMoney(roundCurrency(grossTotal - taxTotal))}</td></tr>
+    <tr><td>VAT</td><td class="num">${formatMoney(taxTotal)}</td></tr>
+    <tr><td>Total incl. VAT</td><td class="num">${formatMoney(grossTotal)}</td></tr>
+  </table>
+  ${invoice.notes ? `<p class="muted" style="margin-top:24px">${escapeHtml(invoice.notes)}</p>` : ""}
+  <p class="no-print" style="margin-top:32px"><button onclick="window.print()">Print</button></p>
+</body>
+</html>`;
+}
@@ -0,0 +1,101 @@
+import type { LoginThrottle, LoginThrottleScope } from "@shared/schema";
+import { loginProtection } from "./config";
+import { storage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+
+export type LoginBlock = {
+  outcome: "throttled" | "locked";
+  error: string;
+  retryAfterSeconds: number;
+  lockedUntil: Date | null;
+};
+
+export const normalizeLoginUsername = (value: unknown): string => String(value ?? "").trim().toLowerCase();
+
+// Each failure past the free attempts doubles the wait: 1s, 2s, 4s … up to maxDelaySeconds.
+const backoffSeconds = (failures: number): number => {
+  const excess = failures - loginProtection.freeAttempts;
+  return excess <= 0 ? 0 : Math.min(2 ** (excess - 1), loginProtection.maxDelaySeconds);
+};
+
+// Counters restart once the window has passed or an earlier lockout has run out.
+const isExpired = (throttle: LoginThrottle, now: Date): boolean =>
+  now.getTime() - throttle.lastFailedAt.getTime() > loginProtection.windowMinutes * MINUTE_MS ||
+  (throttle.lockedUntil !== null && throttle.lockedUntil <= now);
+
+const lockoutMessage = (scope: LoginThrottleScope, retryAfterSeconds: number): string => {
+  const minutes = Math.max(1, Math.ceil(retryAfterSeconds / 60));
+  const wait = `Try again in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+  return scope === "username"
+    ? `This account is locked after too many failed sign-in attempts. ${wait} or ask an admin to unlock it.`
+    : `Too many failed sign-in attempts from this network. ${wait}.`;
+};
+
+const toBlock = (throttle: LoginThrottle, now: Date): LoginBlock | null => {
+  if (throttle.lockedUntil && throttle.lockedUntil > now) {
+    const retryAfterSeconds = Math.ceil((throttle.lockedUntil.getTime() - now.getTime()) / 1000);
+    return {
+      outcome: "locked",
+      error: lockoutMessage(throttle.scope, retryAfterSeconds),
+      retryAfterSeconds,
+      lockedUntil: throttle.lockedUntil,
+    };
+  }
+  if (isExpired(throttle, now)) {
+    return null;
+  }
+
+  const retryAt = throttle.lastFailedAt.getTime() + backoffSeconds(throttle.failures) * 1000;
+  if (retryAt <= now.getTime()) {
+    return null;
+  }
+  const retryAfterSeconds = Math.ceil((retryAt - now.getTime()) / 1000);
+  return {
+    outcome: "throttled",
+    error: `Too many failed sign-in attempts. Wait ${retryAfterSeconds} second${retryAfterSeconds === 1 ? "" : "s"} and try again.`,
+    retryAfterSeconds,
+    lockedUntil: null,
+  };
+};
+
+// Whether this username/IP pair must wait (or is locked out) before the password is even checked.
+export async function findLoginBlock(username: string, ipAddress: string, now = new Date()): Promise<LoginBlock | null> {
+  const throttles = await storage.getLoginThrottles(username, ipAddress);
+  const blocks = throttles
+    .map((throttle) => toBlock(throttle, now))
+    .filter((block): block is LoginBlock => block !== null);
+  if (blocks.length === 0) {
+    return null;
+  }
+  return blocks.reduce((longest, block) => (block.retryAfterSeconds > longest.retryAfterSeconds ? block : longest));
+}
+
+// Counts a failed password check against both the username and the IP; returns the lockout it triggered, if any.
+export async function recordLoginFailure(username: string, ipAddress: string, now = new Date()): Promise<LoginBlock | null> {
+  const existing = await storage.getLoginThrottles(username, ipAddress);
+  const targets: Array<{ scope: LoginThrottleScope; key: string; threshold: number }> = [
+    { scope: "username", key: username, threshold: loginProtection.usernameLockoutThreshold },
+    { scope: "ip", key: ipAddress, threshold: loginProtection.ipLockoutThreshold },
+  ];
+
+  let triggered: LoginBlock | null = null;
+  for (const { scope, key, threshold } of targets) {
+    const previous = existing.find((throttle) => throttle.scope === scope && throttle.key === key);
+    const failures = previous && !isExpired(previous, now) ? previous.failures + 1 : 1;
+    const lockedUntil = failures >= threshold ? new Date(now.getTime() + loginProtection.lockoutMinutes * MINUTE_MS) : null;
+    const saved = await storage.saveLoginThrottle({ scope, key, failures, lastFailedAt: now, lockedUntil });
+    if (lockedUntil && !triggered) {
+      triggered = toBlock(saved, now);
+    }
+  }
+
+  await storage.pruneLoginThrottles(new Date(now.getTime() - loginProtection.windowMinutes * MINUTE_MS));
+  return triggered;
+}
+
+// A successful sign-in clears the username's counter; the IP counter keeps running so one
+// valid account cannot be used to reset guessing against others from the same address.
+export async function recordLoginSuccess(username: string): Promise<void> {
+  await storage.clearLoginThrottle("username", username);
+}
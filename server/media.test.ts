@@ -0,0 +1,111 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Request } from "express";
+import sharp from "sharp";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mediaLinks } from "./config";
+import { createSignedMediaUrl, hasValidMediaSignature, sniffMediaType } from "./media";
+
+const MEDIA_ID = 42;
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+const withQuery = (query: Record<string, unknown>): Request => ({ query }) as unknown as Request;
+
+// What Express parses out of the signed URL's query string
+const signedQuery = (url: string): Record<string, string> =>
+  Object.fromEntries(new URL(url, "http://localhost").searchParams);
+const requestFor = (url: string): Request => withQuery(signedQuery(url));
+
+describe("hasValidMediaSignature", () => {
+  const configuredSecret = mediaLinks.secret;
+
+  beforeEach(() => {
+    mediaLinks.secret = "test-media-secret";
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mediaLinks.secret = configuredSecret;
+  });
+
+  it("accepts a link until it expires", () => {
+    const { url } = createSignedMediaUrl(MEDIA_ID, 10);
+
+    expect(hasValidMediaSignature(requestFor(url), MEDIA_ID)).toBe(true);
+    vi.setSystemTime(NOW.getTime() + 9 * 60 * 1000);
+    expect(hasValidMediaSignature(requestFor(url), MEDIA_ID)).toBe(true);
+    vi.setSystemTime(NOW.getTime() + 10 * 60 * 1000);
+    expect(hasValidMediaSignature(requestFor(url), MEDIA_ID)).toBe(false);
+  });
+
+  it("refuses the link for any other media id", () => {
+    const { url } = createSignedMediaUrl(MEDIA_ID, 10);
+
+    expect(hasValidMediaSignature(requestFor(url), MEDIA_ID + 1)).toBe(false);
+  });
+
+  it("refuses a changed signature or expiry time", () => {
+    const { url } = createSignedMediaUrl(MEDIA_ID, 10);
+    const { expires, signature } = signedQuery(url);
+    const flipped = `${signature.slice(0, -1)}${signature.endsWith("A") ? "B" : "A"}`;
+    const later = String(Number(expires) + 3600);
+
+    expect(hasValidMediaSignature(withQuery({ expires, signature: flipped }), MEDIA_ID)).toBe(false);
+    expect(hasValidMediaSignature(withQuery({ expires, signature: signature.slice(1) }), MEDIA_ID)).toBe(false);
+    expect(hasValidMediaSignature(withQuery({ expires: later, signature }), MEDIA_ID)).toBe(false);
+  });
+
+  it("refuses links without both query parameters", () => {
+    const { expires, signature } = signedQuery(createSignedMediaUrl(MEDIA_ID, 10).url);
+
+    expect(hasValidMediaSignature(withQuery({ expires }), MEDIA_ID)).toBe(false);
+    expect(hasValidMediaSignature(withQuery({ signature }), MEDIA_ID)).toBe(false);
+    expect(hasValidMediaSignature(withQuery({ expires: [expires], signature }), MEDIA_ID)).toBe(false);
+  });
+
+  it("refuses every link while no secret is configured", () => {
+    const { url } = createSignedMediaUrl(MEDIA_ID, 10);
+    mediaLinks.secret = "";
+
+    expect(hasValidMediaSignature(requestFor(url), MEDIA_ID)).toBe(false);
+  });
+
+  it("refuses links signed with a previous secret", () => {
+    const { url } = createSignedMediaUrl(MEDIA_ID, 10);
+    mediaLinks.secret = "rotated-media-secret";
+
+    expect(hasValidMediaSignature(requestFor(url), MEDIA_ID)).toBe(false);
+  });
+});
+
+describe("sniffMediaType", () => {
+  let dir: string;
+
+  const fileWith = async (name: string, contents: Buffer): Promise<string> => {
+    const filePath = path.join(dir, name);
+    await writeFile(filePath, contents);
+    return filePath;
+  };
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "media-test-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("names the photo type from the file's contents", async () => {
+    const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#000" } }).png().toBuffer();
+
+    expect(await sniffMediaType(await fileWith("photo.jpg", png))).toBe("image/png");
+  });
+
+  it("returns null for documents, scripts and unknown bytes", async () => {
+    expect(await sniffMediaType(await fileWith("scan.jpg", Buffer.from("%PDF-1.7\n1 0 obj\n")))).toBeNull();
+    expect(await sniffMediaType(await fileWith("photo.jpg", Buffer.from("<script>alert(1)</script>")))).toBeNull();
+    expect(await sniffMediaType(await fileWith("empty.jpg", Buffer.alloc(0)))).toBeNull();
+  });
+});
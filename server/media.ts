@@ -0,0 +1,316 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import { fileTypeFromBuffer } from "file-type";
+import type { Request, Response } from "express";
+import {
+  MEDIA_DERIVATIVE_FORMATS,
+  MEDIA_DERIVATIVE_SIZES,
+  type MediaDerivative,
+  type MediaDerivativeFormat,
+  type MediaDerivativeSize,
+  type MediaDerivativeUrls,
+  type MediaLink,
+  type ServiceMedia,
+} from "@shared/schema";
+import { getShopClock } from "@shared/scheduling";
+import { mediaLinks, mediaProcessing, openingHours } from "./config";
+import { log } from "./vite";
+
+const MINUTE_MS = 60 * 1000;
+// Browsers may reuse a file for this long without asking again; ETags cover revalidation after that
+const MEDIA_CACHE_SECONDS = 300;
+
+// Uploaded files live here and are only ever served through GET /api/media/:id
+export const uploadRoot = path.resolve(process.cwd(), "uploads");
+
+export const mediaUrl = (media: Pick<ServiceMedia, "id">): string => `/api/media/${media.id}`;
+
+// Other names clients send for the types detected from file contents
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+};
+
+// What file-type needs to recognise every format it supports
+const SNIFF_BYTES = 4100;
+
+export const normalizeMimeType = (mimeType: string): string => {
+  const lower = mimeType.toLowerCase();
+  return MIME_ALIASES[lower] ?? lower;
+};
+
+// The type named by the file's leading bytes, or null when it is not a photo or video format we recognise
+export async function sniffMediaType(filePath: string): Promise<string | null> {
+  const handle = await fs.open(filePath, "r");
+  let head: Buffer;
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const detected = await fileTypeFromBuffer(head);
+  return detected && /^(image|video)\//.test(detected.mime) ? detected.mime : null;
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+// Longest edge in pixels; smaller photos are copied at their own size
+const DERIVATIVE_BOUNDS: Record<MediaDerivativeSize, number> = { thumbnail: 320, medium: 1280 };
+const DERIVATIVE_QUALITY: Record<MediaDerivativeFormat, number> = { webp: 75, jpeg: 80 };
+const DERIVATIVE_EXTENSIONS: Record<MediaDerivativeFormat, string> = { webp: "webp", jpeg: "jpg" };
+
+// The photo formats sharp can rewrite without their metadata; with MEDIA_STRIP_METADATA on, no other image is stored
+const REWRITTEN_FORMATS: Record<string, { quality?: number }> = {
+  jpeg: { quality: 90 },
+  webp: { quality: 90 },
+  png: {},
+  tiff: {},
+  gif: {},
+};
+const EARLIEST_CAPTURE_YEAR = 1990;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+type StoredFile = Pick<ServiceMedia, "relativePath" | "fileType" | "fileName">;
+type UploadDetails = Pick<ServiceMedia, "fileSize" | "capturedAt">;
+type ImageDetails = Pick<ServiceMedia, "width" | "height" | "derivatives">;
+
+const NO_IMAGE_DETAILS: ImageDetails = { width: null, height: null, derivatives: [] };
+
+// service-media/123-photo.jpg -> service-media/123-photo.thumbnail.webp
+const derivativePath = (relativePath: string, size: MediaDerivativeSize, format: MediaDerivativeFormat): string => {
+  const { dir, name } = path.posix.parse(relativePath);
+  return path.posix.join(dir, `${name}.${size}.${DERIVATIVE_EXTENSIONS[format]}`);
+};
+
+// Every derivative an upload may have, whether or not it was written
+export const derivativePaths = (relativePath: string): string[] =>
+  MEDIA_DERIVATIVE_SIZES.flatMap((size) => MEDIA_DERIVATIVE_FORMATS.map((format) => derivativePath(relativePath, size, format)));
+
+// Paths are relative to uploadRoot; files that are already gone are skipped
+export async function removeMediaFiles(relativePaths: string[]) {
+  await Promise.all(
+    relativePaths.map((relativePath) =>
+      fs.unlink(path.join(uploadRoot, relativePath)).catch(() => {
+        /* ignore cleanup errors */
+      }),
+    ),
+  );
+}
+
+// EXIF times are the camera's wall clock, stored by exif-reader as if they were UTC. Without an offset tag
+// the camera is assumed to be set to the shop's time zone.
+function toCaptureInstant(wallClock: Date, offsetTag: string | undefined): Date {
+  const offset = /^([+-])(\d{2}):(\d{2})$/.exec(offsetTag ?? "");
+  if (offset) {
+    const minutes = (offset[1] === "-" ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3]));
+    return new Date(wallClock.getTime() - minutes * MINUTE_MS);
+  }
+
+  const shopClock = getShopClock(wallClock, openingHours.timeZone);
+  const shopWallClock = Date.parse(`${shopClock.dateKey}T00:00:00Z`) + shopClock.minutes * MINUTE_MS;
+  const shopOffset = shopWallClock - (wallClock.getTime() - (wallClock.getTime() % MINUTE_MS));
+  return new Date(wallClock.getTime() - shopOffset);
+}
+
+// Cameras with an unset clock write dates such as 0000:00:00, which are ignored
+function readCaptureTime(exif: Buffer): Date | null {
+  const { Photo } = exifReader(exif);
+  const taken = Photo?.DateTimeOriginal ?? Photo?.DateTimeDigitized;
+  if (!(taken instanceof Date) || Number.isNaN(taken.getTime()) || taken.getUTCFullYear() < EARLIEST_CAPTURE_YEAR) {
+    return null;
+  }
+
+  const capturedAt = toCaptureInstant(taken, Photo?.OffsetTimeOriginal ?? Photo?.OffsetTime);
+  return capturedAt.getTime() > Date.now() + DAY_MS ? null : capturedAt;
+}
+
+// False for photos whose metadata could not be stripped, which are rejected before anything is stored
+export const canStripMetadata = (mimeType: string): boolean =>
+  !mimeType.startsWith("image/") || !mediaProcessing.stripMetadata || mimeType.slice("image/".length) in REWRITTEN_FORMATS;
+
+export const unstrippableImageError = (fileName: string): Error =>
+  new Error(`${fileName} could not be processed; upload photos as JPEG, PNG, WebP, TIFF or GIF`);
+
+// Reads when an uploaded photo was taken, then rewrites it in place with the EXIF orientation applied to the
+// pixels and every metadata block except the colour profile dropped, so shared files carry no GPS position or
+// device details. Photos that cannot be rewritten throw rather than being kept with their metadata.
+export async function normalizeUploadedImage(
+  media: Pick<ServiceMedia, "relativePath" | "fileName" | "fileType" | "fileSize">,
+): Promise<UploadDetails> {
+  if (!media.fileType.startsWith("image/")) {
+    return { fileSize: media.fileSize, capturedAt: null };
+  }
+
+  const source = path.join(uploadRoot, media.relativePath);
+  const rewritten = `${source}.tmp`;
+  let capturedAt: Date | null = null;
+  try {
+    const { format, exif, pages } = await sharp(source).metadata();
+    capturedAt = exif ? readCaptureTime(exif) : null;
+    if (!mediaProcessing.stripMetadata) {
+      return { fileSize: media.fileSize, capturedAt };
+    }
+
+    const options = format ? REWRITTEN_FORMATS[format] : undefined;
+    if (!format || !options) {
+      throw unstrippableImageError(media.fileName);
+    }
+
+    // Animated GIFs and WebPs keep every frame; they have no EXIF orientation to apply
+    const animated = (pages ?? 1) > 1;
+    const image = animated ? sharp(source, { animated }) : sharp(source).rotate();
+    const info = await image.keepIccProfile().toFormat(format, options).toFile(rewritten);
+    await fs.rename(rewritten, source);
+    return { fileSize: info.size, capturedAt };
+  } catch (error) {
+    await fs.unlink(rewritten).catch(() => {
+      /* ignore cleanup errors */
+    });
+    if (!mediaProcessing.stripMetadata) {
+      log(`Could not read ${media.relativePath}: ${(error as Error).message}`, "media");
+      return { fileSize: media.fileSize, capturedAt };
+    }
+    log(`Could not normalize ${media.relativePath}: ${(error as Error).message}`, "media");
+    throw unstrippableImageError(media.fileName);
+  }
+}
+
+// Reads a photo's displayed size and writes its thumbnail and medium copies as WebP and JPEG.
+// Videos and images sharp cannot decode (e.g. HEIC) get none, and the gallery falls back to the original.
+export async function createImageDerivatives(media: Pick<ServiceMedia, "relativePath" | "fileType">): Promise<ImageDetails> {
+  if (!media.fileType.startsWith("image/")) {
+    return NO_IMAGE_DETAILS;
+  }
+
+  const source = path.join(uploadRoot, media.relativePath);
+  try {
+    const { width, height, orientation } = await sharp(source).metadata();
+    if (!width || !height) {
+      return NO_IMAGE_DETAILS;
+    }
+
+    const derivatives: MediaDerivative[] = [];
+    for (const size of MEDIA_DERIVATIVE_SIZES) {
+      const bound = DERIVATIVE_BOUNDS[size];
+      // rotate() applies the EXIF orientation, which the copies would otherwise lose with the metadata
+      const resized = sharp(source).rotate().resize(bound, bound, { fit: "inside", withoutEnlargement: true });
+      for (const format of MEDIA_DERIVATIVE_FORMATS) {
+        const relativePath = derivativePath(media.relativePath, size, format);
+        // JPEG has no transparency; without a background, transparent PNG areas turn black
+        const copy = format === "jpeg" ? resized.clone().flatten({ background: "#ffffff" }) : resized.clone();
+        const output = copy.toFormat(format, { quality: DERIVATIVE_QUALITY[format] });
+        const info = await output.toFile(path.join(uploadRoot, relativePath));
+        derivatives.push({ size, format, relativePath, width: info.width, height: info.height, fileSize: info.size });
+      }
+    }
+
+    // Orientations 5-8 turn the photo by 90 degrees, swapping the stored width and height
+    const sideways = (orientation ?? 1) >= 5;
+    return { width: sideways ? height : width, height: sideways ? width : height, derivatives };
+  } catch (error) {
+    log(`Could not create derivatives for ${media.relativePath}: ${(error as Error).message}`, "media");
+    await removeMediaFiles(derivativePaths(media.relativePath));
+    return NO_IMAGE_DETAILS;
+  }
+}
+
+export const findMediaDerivative = (
+  media: ServiceMedia,
+  size: MediaDerivativeSize,
+  format: MediaDerivativeFormat,
+): MediaDerivative | undefined =>
+  media.derivatives.find((derivative) => derivative.size === size && derivative.format === format);
+
+// Sizes that have both formats, keyed by size; empty for videos and photos without derivatives
+export function mediaDerivativeUrls(media: ServiceMedia): Partial<Record<MediaDerivativeSize, MediaDerivativeUrls>> {
+  const urls: Partial<Record<MediaDerivativeSize, MediaDerivativeUrls>> = {};
+  for (const size of MEDIA_DERIVATIVE_SIZES) {
+    const webp = findMediaDerivative(media, size, "webp");
+    const jpeg = findMediaDerivative(media, size, "jpeg");
+    if (webp && jpeg) {
+      urls[size] = {
+        width: jpeg.width,
+        height: jpeg.height,
+        webp: `${mediaUrl(media)}/${size}.webp`,
+        jpeg: `${mediaUrl(media)}/${size}.jpeg`,
+      };
+    }
+  }
+  return urls;
+}
+
+// The derivative served under the original's name, e.g. brakes.jpg -> brakes.thumbnail.webp
+export function derivativeFile(media: ServiceMedia, derivative: MediaDerivative): StoredFile {
+  const { name } = path.parse(media.fileName);
+  return {
+    relativePath: derivative.relativePath,
+    fileType: `image/${derivative.format}`,
+    fileName: `${name}.${derivative.size}.${DERIVATIVE_EXTENSIONS[derivative.format]}`,
+  };
+}
+
+const signMedia = (mediaId: number, expires: number): string =>
+  createHmac("sha256", mediaLinks.secret).update(`${mediaId}.${expires}`).digest("base64url");
+
+// A link anyone holding it can open until it expires; minutes are clamped to the configured maximum.
+export function createSignedMediaUrl(mediaId: number, minutes = mediaLinks.defaultMinutes): MediaLink {
+  const expiresAt = new Date(Date.now() + Math.min(minutes, mediaLinks.maxMinutes) * MINUTE_MS);
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const query = new URLSearchParams({ expires: String(expires), signature: signMedia(mediaId, expires) });
+  return { url: `${mediaUrl({ id: mediaId })}?${query.toString()}`, expiresAt };
+}
+
+export function hasValidMediaSignature(req: Request, mediaId: number): boolean {
+  const { expires, signature } = req.query;
+  if (!mediaLinks.secret || typeof expires !== "string" || typeof signature !== "string") {
+    return false;
+  }
+
+  const expiresAt = Number.parseInt(expires, 10);
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 <= Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signMedia(mediaId, expiresAt));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+type SendFileError = Error & { status?: number; headers?: Record<string, string> };
+
+// res.sendFile handles Range requests (video seeking), ETags and conditional GETs
+export function sendMediaFile(res: Response, media: StoredFile) {
+  res.type(media.fileType);
+  res.set({
+    "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(media.fileName)}`,
+    "Cache-Control": `private, max-age=${MEDIA_CACHE_SECONDS}`,
+    "X-Content-Type-Options": "nosniff",
+  });
+
+  res.sendFile(media.relativePath, { root: uploadRoot, dotfiles: "deny", cacheControl: false }, (error?: SendFileError) => {
+    // Aborted downloads and seeks end here after the headers went out; nothing left to report
+    if (!error || res.headersSent) {
+      return;
+    }
+    if (error.headers) {
+      res.set(error.headers);
+    }
+    const status = error.status ?? 500;
+    res.status(status).json({ error: status === 404 ? "Media file not found" : error.message });
+  });
+}
@@ -1,23 +1,72 @@
 import { Request, Response, NextFunction } from "express";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { authenticateApiToken, getBearerToken } from "./api-tokens";
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+// Accounts with an outstanding security step can only reach the endpoints in server/auth.ts that resolve it
+const PASSWORD_CHANGE_REQUIRED = "You must change your password before continuing";
+const TWO_FACTOR_SETUP_REQUIRED = "You must set up two-factor authentication before continuing";
+
+const pendingStepError = (user: Express.User | undefined): string | null => {
+  if (user?.mustChangePassword) {
+    return PASSWORD_CHANGE_REQUIRED;
+  }
+  if (user?.twoFactorSetupRequired) {
+    return TWO_FACTOR_SETUP_REQUIRED;
+  }
+  return null;
+};
+
+// Clients without a session cookie send `Authorization: Bearer <token>`; a signed-in session takes precedence
+const resolveApiToken = (req: Request, res: Response, next: () => void) => {
+  const token = req.isAuthenticated() ? null : getBearerToken(req);
+  if (!token) {
+    return next();
+  }
+
+  authenticateApiToken(req, token).then(
+    (user) => {
+      if (!user) {
+        return res.status(401).json({ error: "Invalid or expired API token" });
+      }
+      req.user = user;
+      next();
+    },
+    (error: Error) => res.status(500).json({ error: error.message }),
+  );
+};
+
+const checkSignedIn = (req: Request, res: Response, next: () => void) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: "Authentication required" });
   }
+  const pendingStep = pendingStepError(req.user);
+  if (pendingStep) {
+    return res.status(403).json({ error: pendingStep });
+  }
   next();
-}
+};
 
-export function requireRole(...allowedRoles: string[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+// Accepts a browser session or an API token
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  resolveApiToken(req, res, () => checkSignedIn(req, res, next));
+}
 
-    const userRole = req.user?.role;
-    if (!userRole || !allowedRoles.includes(userRole)) {
-      return res.status(403).json({ error: "Insufficient permissions" });
-    }
+// For account security endpoints, such as sessions and API tokens, that a token must not manage
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  checkSignedIn(req, res, next);
+}
 
-    next();
+// Permissions come from the role matrix in shared/permissions.ts, resolved when the session is loaded.
+// API tokens only hold the permissions in their scopes.
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    resolveApiToken(req, res, () =>
+      checkSignedIn(req, res, () => {
+        if (!hasPermission(req.user, permission)) {
+          return res.status(403).json({ error: "Insufficient permissions" });
+        }
+        next();
+      }),
+    );
   };
 }
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+
+// Lets the storage layer see who is making the current request without threading it through every call
+const requestContext = new AsyncLocalStorage<Request>();
+
+export type RequestActor = {
+  userId: string | null;
+  name: string | null;
+  ipAddress: string | null;
+};
+
+export function bindRequestContext(req: Request, _res: Response, next: NextFunction) {
+  requestContext.run(req, next);
+}
+
+// Read when a change is written rather than when the request starts, so API token users resolved later still count
+export const currentActor = (): RequestActor => {
+  const req = requestContext.getStore();
+  return {
+    userId: req?.user?.id ?? null,
+    name: req?.user?.name ?? null,
+    ipAddress: req?.ip ?? null,
+  };
+};
@@ -0,0 +1,262 @@
+import { createHash } from "crypto";
+import { mkdirSync, mkdtempSync, readdirSync, rmSync } from "fs";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import os from "os";
+import path from "path";
+import express from "express";
+import sharp from "sharp";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+
+const { users, mediaUsage } = vi.hoisted(() => ({
+  users: [] as User[],
+  mediaUsage: { serviceBytes: 0, totalBytes: 0 },
+}));
+
+vi.mock("./storage", async () => {
+  const { default: session } = await import("express-session");
+  const fakeStorage: Record<string, unknown> = {
+    sessionStore: new session.MemoryStore(),
+    getUser: async (id: string) => users.find((user) => user.id === id),
+    getUserByUsername: async (username: string) => users.find((user) => user.username === username),
+    getUsers: async () => users,
+    updateUser: async (id: string, changes: Partial<User>) => {
+      const user = users.find((entry) => entry.id === id);
+      return user ? Object.assign(user, changes) : undefined;
+    },
+    createUser: async (user: Partial<User>) => {
+      const created = { ...users[0], ...user, id: `user-${users.length + 1}` };
+      users.push(created);
+      return created;
+    },
+    countActiveAdmins: async () => 1,
+    getLoginThrottles: async () => [],
+    claimTwoFactorStep: async () => true,
+    consumeRecoveryCode: async (userId: string, hash: string) =>
+      Boolean(users.find((user) => user.id === userId)?.twoFactorRecoveryCodes.includes(hash)),
+    getMediaStorageUsage: async () => mediaUsage,
+    getMediaByHash: async () => [],
+  };
+  // Everything else the routes touch only records what happened
+  return { storage: new Proxy(fakeStorage, { get: (target, key: string) => target[key] ?? (async () => undefined) }) };
+});
+
+// Keeps registerRoutes from creating the uploads folder in the working tree
+vi.mock("fs/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs/promises")>();
+  return { ...actual, default: { ...actual, mkdir: async () => undefined } };
+});
+
+const PASSWORD = "Correct-Horse-7";
+const MEGABYTE = 1024 * 1024;
+const TOTP_SECRET = "JBSWY3DPEHPK3PXP";
+const RECOVERY_CODE = "abcde-fghjk";
+
+const makeUser = (overrides: Partial<User>): User => ({
+  id: "admin-1",
+  username: "admin",
+  password: "",
+  name: "Admin",
+  role: "admin",
+  active: true,
+  mustChangePassword: false,
+  passwordChangedAt: null,
+  twoFactorSecret: null,
+  twoFactorEnabledAt: null,
+  twoFactorLastStep: null,
+  twoFactorRecoveryCodes: [],
+  lastLoginAt: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+let server: Server;
+let baseUrl: string;
+let workingDir: string;
+let uploadDir: string;
+
+async function request(method: string, path: string, { body, cookie }: { body?: unknown; cookie?: string } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return {
+    status: response.status,
+    cookie: response.headers.get("set-cookie")?.split(";")[0] ?? cookie,
+    text,
+    json: text ? JSON.parse(text) : undefined,
+  };
+}
+
+// Neither the hashes nor the fields holding them may appear anywhere in a response
+function expectNoSecrets(text: string) {
+  for (const field of ["password", "twoFactorSecret", "twoFactorRecoveryCodes", "twoFactorLastStep"]) {
+    expect(text).not.toContain(`"${field}"`);
+  }
+  for (const user of users) {
+    expect(text).not.toContain(user.password);
+    user.twoFactorRecoveryCodes.forEach((hash) => expect(text).not.toContain(hash));
+  }
+  expect(text).not.toContain(TOTP_SECRET);
+}
+
+async function signIn(username: string) {
+  const login = await request("POST", "/api/login", { body: { username, password: PASSWORD } });
+  expect(login.status).toBe(200);
+  return login;
+}
+
+beforeAll(async () => {
+  process.env.SESSION_SECRET = "test-session-secret";
+  process.env.MEDIA_SERVICE_QUOTA_MB = "1";
+  // Uploads land under the working directory, so the routes run from an empty temporary one
+  workingDir = process.cwd();
+  process.chdir(mkdtempSync(path.join(os.tmpdir(), "routes-test-")));
+  uploadDir = path.join(process.cwd(), "uploads", "service-media");
+  mkdirSync(uploadDir, { recursive: true });
+
+  const { hashPassword } = await import("./utils/passwords");
+  const password = await hashPassword(PASSWORD);
+  users.push(
+    makeUser({ password }),
+    makeUser({
+      id: "mechanic-1",
+      username: "mechanic",
+      name: "Mechanic",
+      role: "mechanic",
+      password,
+      twoFactorSecret: TOTP_SECRET,
+      twoFactorEnabledAt: new Date("2026-01-02T00:00:00Z"),
+      twoFactorRecoveryCodes: [createHash("sha256").update(RECOVERY_CODE.replace("-", "")).digest("hex")],
+    }),
+  );
+
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  const tempDir = process.cwd();
+  process.chdir(workingDir);
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("user payloads", () => {
+  it("leave secrets out of the login response and /api/user", async () => {
+    const login = await signIn("admin");
+    expect(login.json.username).toBe("admin");
+    expectNoSecrets(login.text);
+
+    const current = await request("GET", "/api/user", { cookie: login.cookie });
+    expect(current.status).toBe(200);
+    expect(current.json.id).toBe("admin-1");
+    expectNoSecrets(current.text);
+  });
+
+  it("leave secrets out of both two-factor sign-in steps", async () => {
+    const challenge = await request("POST", "/api/login", { body: { username: "mechanic", password: PASSWORD } });
+    expect(challenge.json).toEqual({ twoFactorRequired: true });
+    expectNoSecrets(challenge.text);
+
+    const verified = await request("POST", "/api/login/two-factor", {
+      body: { code: RECOVERY_CODE },
+      cookie: challenge.cookie,
+    });
+    expect(verified.status).toBe(200);
+    expect(verified.json.username).toBe("mechanic");
+    expectNoSecrets(verified.text);
+
+    const status = await request("GET", "/api/user/two-factor", { cookie: verified.cookie });
+    expect(status.json.enabled).toBe(true);
+    expectNoSecrets(status.text);
+  });
+
+  it("leave secrets out of the user list, new accounts and user updates", async () => {
+    const { cookie } = await signIn("admin");
+
+    const created = await request("POST", "/api/users", {
+      body: { username: "viewer", password: "Another-Pass-9", role: "viewer", name: "Viewer" },
+      cookie,
+    });
+    expect(created.status).toBe(201);
+    expectNoSecrets(created.text);
+
+    const list = await request("GET", "/api/users", { cookie });
+    expect(list.status).toBe(200);
+    expect(list.json).toHaveLength(3);
+    expectNoSecrets(list.text);
+
+    const updated = await request("PATCH", "/api/users/mechanic-1", { body: { name: "Lead Mechanic" }, cookie });
+    expect(updated.status).toBe(200);
+    expect(updated.json.name).toBe("Lead Mechanic");
+    expectNoSecrets(updated.text);
+  });
+});
+
+describe("media uploads", () => {
+  let cookie: string | undefined;
+
+  async function upload(files: Array<{ name: string; type: string; contents: Buffer }>) {
+    const form = new FormData();
+    files.forEach((file) => form.append("media", new Blob([file.contents], { type: file.type }), file.name));
+    const response = await fetch(`${baseUrl}/api/services/7/media`, {
+      method: "POST",
+      headers: cookie ? { Cookie: cookie } : {},
+      body: form,
+    });
+    return { status: response.status, json: await response.json() };
+  }
+
+  const photo = () =>
+    sharp({ create: { width: 8, height: 8, channels: 3, background: "#336699" } })
+      .jpeg()
+      .toBuffer();
+
+  beforeAll(async () => {
+    ({ cookie } = await signIn("admin"));
+  });
+
+  beforeEach(() => {
+    Object.assign(mediaUsage, { serviceBytes: 0, totalBytes: 0 });
+  });
+
+  it("rejects a file labelled as a JPEG that contains something else", async () => {
+    const result = await upload([
+      { name: "brakes.jpg", type: "image/jpeg", contents: await photo() },
+      { name: "invoice.jpg", type: "image/jpeg", contents: Buffer.from("%PDF-1.7\n%\u00e2\u00e3\n1 0 obj\n") },
+    ]);
+
+    expect(result.status).toBe(400);
+    expect(result.json.error).toBe("invoice.jpg is not a valid image/jpeg file");
+    expect(readdirSync(uploadDir)).toEqual([]);
+  });
+
+  it("rejects uploads that would take the service over its quota", async () => {
+    mediaUsage.serviceBytes = MEGABYTE - 16;
+
+    const result = await upload([{ name: "brakes.jpg", type: "image/jpeg", contents: await photo() }]);
+
+    expect(result.status).toBe(413);
+    expect(result.json.error).toMatch(/^A service can hold at most 1 MB of media/);
+    expect(readdirSync(uploadDir)).toEqual([]);
+  });
+
+  it("lets a genuine photo within the quota through to the route", async () => {
+    mediaUsage.serviceBytes = MEGABYTE / 2;
+
+    const result = await upload([{ name: "brakes.jpg", type: "image/jpeg", contents: await photo() }]);
+
+    // The fake storage has no service 7, so the route itself answers and removes the upload
+    expect(result.status).toBe(404);
+    expect(result.json.error).toBe("Service not found");
+    expect(readdirSync(uploadDir)).toEqual([]);
+  });
+});
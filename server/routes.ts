@@ -1,25 +1,125 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import {
+  storage,
+  type AppointmentSlot,
+  type AuditLogFilters,
+  type EstimateWithItems,
+  type ServiceFilters,
+} from "./storage";
 import {
   insertCustomerSchema,
   insertVehicleSchema,
   insertServiceSchema,
+  updateServiceSchema,
+  serviceStatusTransitionSchema,
+  serviceStatusTransitions,
+  serviceItemInputSchema,
+  updateServiceItemSchema,
+  insertMaintenanceReminderSchema,
+  updateMaintenanceReminderSchema,
+  insertServiceIntervalRuleSchema,
+  updateServiceIntervalRuleSchema,
+  createInvoiceSchema,
+  recordPaymentSchema,
+  insertEstimateSchema,
+  updateEstimateSchema,
+  estimateStatusChangeSchema,
+  estimateStatusEnum,
+  auditEntityEnum,
+  estimateStatusTransitions,
+  insertServiceAuthorizationSchema,
+  insertBaySchema,
+  updateBaySchema,
+  insertAppointmentSchema,
+  updateAppointmentSchema,
+  appointmentStatusChangeSchema,
+  clockOnSchema,
+  updateTimeEntrySchema,
+  createUserSchema,
+  updateUserSchema,
+  resetPasswordSchema,
+  updateRoleSettingSchema,
+  createApiTokenSchema,
+  createMediaLinkSchema,
+  MEDIA_DERIVATIVE_FORMATS,
+  MEDIA_DERIVATIVE_SIZES,
+  reorderServiceMediaSchema,
+  updateServiceMediaSchema,
+  uploadServiceMediaSchema,
+  userRoleEnum,
+  toPublicUser,
+  type User,
   type Customer,
   type Vehicle,
   type Service,
+  type ServiceMedia,
+  type InsertServiceMedia,
+  type ServiceStatus,
+  type ServiceItemInput,
+  type Invoice,
+  type Payment,
+  type EstimateStatus,
+  type ServiceAuthorization,
+  type AuthorizedItem,
+  type TimeEntry,
+  type RoleSetting,
 } from "@shared/schema";
-import { requireAuth, requireRole } from "./middleware";
+import {
+  calculateItemTax,
+  roundCurrency,
+  summarizeInvoicePayments,
+  summarizeServiceTotals,
+  type InvoiceBalance,
+} from "@shared/pricing";
+import { projectServiceDue, type ServiceDueProjection } from "@shared/service-intervals";
+import { checkOpeningHours } from "@shared/scheduling";
+import { summarizeTechnicianProductivity } from "@shared/time-clock";
+import { z } from "zod";
+import { hasPermission, resolveRolePermissions } from "@shared/permissions";
+import { requireAuth, requirePermission, requireSession } from "./middleware";
+import { laborSettings, mediaQuotas, openingHours, sellerProfile, taxSettings } from "./config";
+import { buildInvoiceLines, renderInvoiceDocument } from "./invoice-document";
+import { findPasswordProblem, hashPassword } from "./utils/passwords";
+import { clearTwoFactor } from "./two-factor";
+import { isCurrentSession, listUserSessions, revokeUserSession } from "./sessions";
+import { issueApiToken, toApiTokenSummary } from "./api-tokens";
+import {
+  canStripMetadata,
+  createImageDerivatives,
+  createSignedMediaUrl,
+  derivativeFile,
+  derivativePaths,
+  findMediaDerivative,
+  hashFile,
+  hasValidMediaSignature,
+  mediaDerivativeUrls,
+  mediaUrl,
+  normalizeMimeType,
+  normalizeUploadedImage,
+  removeMediaFiles,
+  sendMediaFile,
+  sniffMediaType,
+  unstrippableImageError,
+  uploadRoot,
+} from "./media";
 
 const MEDIA_UPLOAD_LIMIT = 10;
+const MINUTE_MS = 60 * 1000;
 const MAX_MEDIA_FILE_SIZE_BYTES = 25 * 1024 * 1024;
-const uploadRoot = path.resolve(process.cwd(), "uploads");
 const serviceMediaDir = path.join(uploadRoot, "service-media");
 const VEHICLE_SUGGESTION_LIMIT = 5;
+const REMINDER_DUE_SOON_DAYS = 14;
+const PRODUCTIVITY_REPORT_DAYS = 30;
+const DEFAULT_FAILED_LOGINS = 100;
+const MAX_FAILED_LOGINS = 500;
+const DEFAULT_AUDIT_ENTRIES = 100;
+const MAX_AUDIT_ENTRIES = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 type SuggestionReason = "plate" | "phone" | "name" | "vehicle" | "partial";
 
@@ -27,6 +127,23 @@ type LookupPayload = {
   vehicle: Vehicle;
   customer: Customer | null;
   services: Service[];
+  serviceDue: ServiceDueProjection[];
+};
+
+type InvoicePayload = {
+  invoice: Invoice;
+  payments: Payment[];
+  summary: InvoiceBalance;
+};
+
+type ReceivableEntry = {
+  service: Service;
+  invoice: Invoice | null;
+  summary: InvoiceBalance | null;
+};
+
+type AuthorizationPayload = ServiceAuthorization & {
+  signatureUrl: string | null;
 };
 
 type SuggestionPayload = {
@@ -48,6 +165,7 @@ const mediaStorage = multer.diskStorage({
   },
 });
 
+// The client-supplied type is only a first filter; inspectMediaUploads checks the file contents once stored
 const mediaUpload = multer({
   storage: mediaStorage,
   limits: {
@@ -69,20 +187,234 @@ function toRelativeMediaPath(absolutePath: string): string {
   return path.relative(uploadRoot, absolutePath).split(path.sep).join("/");
 }
 
+// Also removes any derivatives written for the files before the request failed
 async function cleanupUploadedFiles(files?: Express.Multer.File[]) {
   if (!files || files.length === 0) {
     return;
   }
 
-  await Promise.all(
-    files.map((file) =>
-      fs.unlink(file.path).catch(() => {
-        /* ignore cleanup errors */
-      }),
-    ),
+  await removeMediaFiles(
+    files.flatMap((file) => {
+      const relativePath = toRelativeMediaPath(file.path);
+      return [relativePath, ...derivativePaths(relativePath)];
+    }),
+  );
+}
+
+// Called after the rows are deleted; files still used by other media rows stay on disk
+async function removeStoredMedia(entries: ServiceMedia[]) {
+  const unused = await storage.getUnusedMedia(entries);
+  await removeMediaFiles(
+    unused.flatMap((entry) => [entry.relativePath, ...entry.derivatives.map((derivative) => derivative.relativePath)]),
+  );
+}
+
+const formatMegabytes = (bytes: number): string => `${Math.ceil(bytes / (1024 * 1024))} MB`;
+
+// SHA-256 of each upload as received, set by inspectMediaUploads
+const uploadDigests = new WeakMap<Express.Multer.File, string>();
+
+// Runs after multer: rejects files whose contents are not the photo or video type they claim to be and
+// photos whose metadata could not be stripped, hashes them for deduplication and enforces the storage quotas. Rejected requests store nothing.
+async function inspectMediaUploads(req: Request, res: Response, next: NextFunction) {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? (req.file ? [req.file] : []);
+
+  try {
+    for (const file of files) {
+      const detected = await sniffMediaType(file.path);
+      if (!detected || detected !== normalizeMimeType(file.mimetype)) {
+        await cleanupUploadedFiles(files);
+        return res.status(400).json({ error: `${file.originalname} is not a valid ${file.mimetype} file` });
+      }
+      if (!canStripMetadata(detected)) {
+        await cleanupUploadedFiles(files);
+        return res.status(400).json({ error: unstrippableImageError(file.originalname).message });
+      }
+      file.mimetype = detected;
+      uploadDigests.set(file, await hashFile(file.path));
+    }
+
+    // Uploads for a new service only count towards the overall quota. Files whose content is already
+    // stored take no new space, and neither do repeats within the upload.
+    const serviceId = Number.parseInt(req.params.id ?? "", 10);
+    const usage = await storage.getMediaStorageUsage(Number.isFinite(serviceId) ? serviceId : undefined);
+    const stored = await storage.getMediaByHash(files.map((file) => uploadDigests.get(file)!));
+    const storedHashes = new Set(stored.map((entry) => entry.sha256));
+    const serviceHashes = new Set(stored.filter((entry) => entry.serviceId === serviceId).map((entry) => entry.sha256));
+    const newBytes = (known: Set<string | null>) => {
+      const counted = new Set<string>();
+      return files.reduce((total, file) => {
+        const sha256 = uploadDigests.get(file)!;
+        if (known.has(sha256) || counted.has(sha256)) {
+          return total;
+        }
+        counted.add(sha256);
+        return total + file.size;
+      }, 0);
+    };
+    if (mediaQuotas.serviceBytes > 0 && usage.serviceBytes + newBytes(serviceHashes) > mediaQuotas.serviceBytes) {
+      await cleanupUploadedFiles(files);
+      return res.status(413).json({
+        error: `A service can hold at most ${formatMegabytes(mediaQuotas.serviceBytes)} of media; ${formatMegabytes(usage.serviceBytes)} is already used`,
+      });
+    }
+    if (mediaQuotas.totalBytes > 0 && usage.totalBytes + newBytes(storedHashes) > mediaQuotas.totalBytes) {
+      await cleanupUploadedFiles(files);
+      return res.status(413).json({ error: "Media storage is full; delete unneeded files or ask an admin to raise the quota" });
+    }
+
+    next();
+  } catch (error: any) {
+    await cleanupUploadedFiles(files);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+// Photos are processed one at a time so only one decoded image is held in memory. The entries come back
+// ordered by when they were taken, so a batch lands in the gallery in shooting order.
+async function toMediaEntries(
+  serviceId: number,
+  files: Express.Multer.File[],
+  extra: Partial<InsertServiceMedia> = {},
+): Promise<InsertServiceMedia[]> {
+  const entries: InsertServiceMedia[] = [];
+  for (const file of files) {
+    const relativePath = toRelativeMediaPath(file.path);
+    const upload = { relativePath, fileName: file.originalname, fileType: file.mimetype, fileSize: file.size };
+    entries.push({
+      serviceId,
+      ...upload,
+      sha256: uploadDigests.get(file),
+      ...(await normalizeUploadedImage(upload)),
+      ...(await createImageDerivatives(upload)),
+      ...extra,
+    });
+  }
+  return entries.sort(
+    (a, b) => (a.capturedAt?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.capturedAt?.getTime() ?? Number.MAX_SAFE_INTEGER),
+  );
+}
+
+// Saves the uploads as media of the service. Uploads whose content was already stored end up
+// pointing at the existing file, so their own copies are removed once the rows are in.
+async function storeServiceMedia(
+  serviceId: number,
+  files: Express.Multer.File[],
+  extra: Partial<InsertServiceMedia> = {},
+): Promise<ServiceMedia[]> {
+  const created = await storage.addServiceMedia(await toMediaEntries(serviceId, files, extra));
+  await discardDuplicateUploads(files, created);
+  return created;
+}
+
+async function discardDuplicateUploads(files: Express.Multer.File[], created: ServiceMedia[]) {
+  const usedPaths = new Set(created.map((entry) => entry.relativePath));
+  await cleanupUploadedFiles(files.filter((file) => !usedPaths.has(toRelativeMediaPath(file.path))));
+}
+
+// What the gallery receives; the on-disk path stays on the server
+const toMediaPayload = (entry: ServiceMedia) => ({
+  id: entry.id,
+  serviceId: entry.serviceId,
+  fileName: entry.fileName,
+  fileType: entry.fileType,
+  fileSize: entry.fileSize,
+  width: entry.width,
+  height: entry.height,
+  capturedAt: entry.capturedAt,
+  caption: entry.caption,
+  sortOrder: entry.sortOrder,
+  isCover: entry.isCover,
+  url: mediaUrl(entry),
+  derivatives: mediaDerivativeUrls(entry),
+  createdAt: entry.createdAt,
+});
+
+const parseCost = (value: unknown): number => Number.parseFloat(String(value ?? "0")) || 0;
+
+const isClosedForUser = (service: Service, user?: Express.User): boolean =>
+  service.status === "closed" && !hasPermission(user, "service.reopen");
+
+function allowedStatusTransitions(service: Service, user?: Express.User): ServiceStatus[] {
+  // Reopening a closed record lets corrections be made after sign-off.
+  if (service.status === "closed" && hasPermission(user, "service.reopen")) {
+    return ["completed"];
+  }
+  return serviceStatusTransitions[service.status].filter(
+    (status) => status !== "closed" || hasPermission(user, "service.close"),
   );
 }
 
+const serviceItemListSchema = z.array(serviceItemInputSchema);
+
+// Line items arrive as a JSON string when the service is submitted as multipart form data.
+function parseServiceItemsField(value: unknown): ServiceItemInput[] {
+  if (value === undefined || value === null || value === "") {
+    return [];
+  }
+
+  const parsed = typeof value === "string" ? JSON.parse(value) : value;
+  return serviceItemListSchema.parse(parsed);
+}
+
+// Resolves the service addressed by `:id` for a write, responding with the
+// appropriate error (and returning null) when it is missing or locked.
+async function resolveEditableService(req: Request, res: Response): Promise<Service | null> {
+  const serviceId = Number.parseInt(req.params.id, 10);
+  if (!Number.isFinite(serviceId)) {
+    res.status(400).json({ error: "Invalid service id" });
+    return null;
+  }
+
+  const service = await storage.getService(serviceId);
+  if (!service) {
+    res.status(404).json({ error: "Service not found" });
+    return null;
+  }
+
+  if (isClosedForUser(service, req.user)) {
+    res.status(403).json({ error: "You do not have permission to edit closed services" });
+    return null;
+  }
+
+  return service;
+}
+
+// Signed links skip sign-in; everyone else needs the same access as for the service the file belongs to
+function requireMediaAccess(req: Request, res: Response, next: NextFunction) {
+  const mediaId = Number.parseInt(req.params.id, 10);
+  if (Number.isFinite(mediaId) && hasValidMediaSignature(req, mediaId)) {
+    return next();
+  }
+  requireAuth(req, res, next);
+}
+
+// Resolves the media addressed by `:id` for download, responding with the error when it cannot be served.
+async function resolveServedMedia(req: Request, res: Response): Promise<ServiceMedia | null> {
+  const mediaId = Number.parseInt(req.params.id, 10);
+  if (!Number.isFinite(mediaId)) {
+    res.status(400).json({ error: "Invalid media id" });
+    return null;
+  }
+
+  const media = await storage.getServiceMediaEntry(mediaId);
+  const service = media ? await storage.getService(media.serviceId) : undefined;
+  if (!media || !service) {
+    res.status(404).json({ error: "Media not found" });
+    return null;
+  }
+
+  return media;
+}
+
+const parseOptionalId = (value: unknown): number | undefined => {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
 const normalizeWhitespace = (value: string): string => value.replace(/\s+/g, " ").trim();
 
 const normalizePhoneDigits = (value: string): string => value.replace(/\D/g, "");
@@ -97,16 +429,231 @@ const isLikelyPlate = (value: string): boolean => {
 };
 
 async function buildLookupPayload(vehicle: Vehicle): Promise<LookupPayload> {
-  const [customer, services] = await Promise.all([
+  const [customer, services, rules] = await Promise.all([
     storage.getCustomer(vehicle.customerId),
     storage.getServicesByVehicle(vehicle.id),
+    storage.getServiceIntervalRules(),
   ]);
 
   return {
     vehicle,
     customer: customer ?? null,
     services,
+    serviceDue: rules.map((rule) => projectServiceDue(rule, services)),
+  };
+}
+
+const buildInvoicePayload = (invoice: Invoice, payments: Payment[]): InvoicePayload => ({
+  invoice,
+  payments,
+  summary: summarizeInvoicePayments(invoice.amount, payments),
+});
+
+async function resolveInvoice(req: Request, res: Response): Promise<Invoice | null> {
+  const invoiceId = Number.parseInt(req.params.id, 10);
+  if (!Number.isFinite(invoiceId)) {
+    res.status(400).json({ error: "Invalid invoice id" });
+    return null;
+  }
+
+  const invoice = await storage.getInvoice(invoiceId);
+  if (!invoice) {
+    res.status(404).json({ error: "Invoice not found" });
+    return null;
+  }
+
+  return invoice;
+}
+
+async function resolveEstimate(req: Request, res: Response): Promise<EstimateWithItems | null> {
+  const estimateId = Number.parseInt(req.params.id, 10);
+  if (!Number.isFinite(estimateId)) {
+    res.status(400).json({ error: "Invalid estimate id" });
+    return null;
+  }
+
+  const estimate = await storage.getEstimate(estimateId);
+  if (!estimate) {
+    res.status(404).json({ error: "Estimate not found" });
+    return null;
+  }
+
+  return estimate;
+}
+
+async function buildAuthorizationPayloads(
+  serviceId: number,
+  authorizations: ServiceAuthorization[],
+): Promise<AuthorizationPayload[]> {
+  const mediaById = new Map((await storage.getServiceMedia(serviceId)).map((entry) => [entry.id, entry]));
+  return authorizations.map((authorization) => {
+    const signature = authorization.signatureMediaId ? mediaById.get(authorization.signatureMediaId) : undefined;
+    return { ...authorization, signatureUrl: signature ? mediaUrl(signature) : null };
+  });
+}
+
+// Selected item ids arrive as a JSON string when the approval is submitted with a signature.
+function parseAuthorizationBody(body: Record<string, unknown>): Record<string, unknown> {
+  const itemIds = typeof body.itemIds === "string" ? JSON.parse(body.itemIds || "[]") : body.itemIds;
+  return { ...body, itemIds };
+}
+
+// `?technicianId=unassigned` lists services nobody has been assigned to
+const parseServiceFilters = (query: Request["query"]): ServiceFilters => {
+  const technicianId = typeof query.technicianId === "string" ? query.technicianId.trim() : "";
+  if (!technicianId) {
+    return {};
+  }
+  return { technicianId: technicianId === "unassigned" ? null : technicianId };
+};
+
+// Services can only be assigned to accounts that do hands-on work.
+async function isAssignableTechnician(userId: string): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  return Boolean(user && (user.role === "admin" || user.role === "mechanic"));
+}
+
+const parseOptionalDate = (value: unknown): Date | undefined => {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+type SlotProblem = {
+  status: number;
+  error: string;
+};
+
+// Checks a booking against the slot grid, opening hours, the bay and existing bookings.
+async function findSlotProblem(slot: AppointmentSlot): Promise<SlotProblem | null> {
+  const durationMinutes = (slot.endsAt.getTime() - slot.startsAt.getTime()) / MINUTE_MS;
+  if (durationMinutes <= 0 || durationMinutes % openingHours.slotMinutes !== 0) {
+    return { status: 400, error: `Bookings are made in ${openingHours.slotMinutes}-minute slots` };
+  }
+
+  const hoursProblem = checkOpeningHours(slot.startsAt, slot.endsAt, openingHours);
+  if (hoursProblem) {
+    return { status: 400, error: hoursProblem };
+  }
+
+  const bay = await storage.getBay(slot.bayId);
+  if (!bay) {
+    return { status: 404, error: "Bay not found" };
+  }
+  if (!bay.active) {
+    return { status: 400, error: `${bay.name} is not taking bookings` };
+  }
+
+  const [conflict] = await storage.findAppointmentConflicts(slot);
+  if (conflict) {
+    return {
+      status: 409,
+      error:
+        conflict.bayId === slot.bayId
+          ? `${bay.name} is already booked at that time`
+          : "This vehicle already has a booking at that time",
+    };
+  }
+
+  return null;
+}
+
+// Resolves the time entry addressed by `:id` for a write. Clocked time feeds the service's labor
+// lines, so entries on a closed service are locked the same way the service itself is.
+async function resolveTimeEntry(req: Request, res: Response): Promise<TimeEntry | null> {
+  const entryId = Number.parseInt(req.params.id, 10);
+  if (!Number.isFinite(entryId)) {
+    res.status(400).json({ error: "Invalid time entry id" });
+    return null;
+  }
+
+  const entry = await storage.getTimeEntry(entryId);
+  if (!entry) {
+    res.status(404).json({ error: "Time entry not found" });
+    return null;
+  }
+
+  const service = await storage.getService(entry.serviceId);
+  if (service && isClosedForUser(service, req.user)) {
+    res.status(403).json({ error: "You do not have permission to edit closed services" });
+    return null;
+  }
+
+  return entry;
+}
+
+async function resolveUser(req: Request, res: Response): Promise<User | null> {
+  const user = await storage.getUser(req.params.id);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return null;
+  }
+  return user;
+}
+
+async function findBayByName(name: string) {
+  const bayList = await storage.getBays();
+  return bayList.find((bay) => bay.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+async function resolveAppointment(req: Request, res: Response) {
+  const appointmentId = Number.parseInt(req.params.id, 10);
+  if (!Number.isFinite(appointmentId)) {
+    res.status(400).json({ error: "Invalid appointment id" });
+    return null;
+  }
+
+  const appointment = await storage.getAppointment(appointmentId);
+  if (!appointment) {
+    res.status(404).json({ error: "Appointment not found" });
+    return null;
+  }
+
+  return appointment;
+}
+
+const isEditableEstimate = (status: EstimateStatus): boolean => status === "draft" || status === "sent";
+
+const parseEstimateStatus = (value: unknown): EstimateStatus | undefined =>
+  estimateStatusEnum.enumValues.find((status) => status === value);
+
+const parseAuditLogFilters = (query: Request["query"]): AuditLogFilters => {
+  const requested = Number.parseInt(String(query.limit ?? ""), 10);
+  const search = typeof query.search === "string" ? query.search.trim() : "";
+  const actorId = typeof query.actorId === "string" ? query.actorId.trim() : "";
+  return {
+    entityType: auditEntityEnum.enumValues.find((entity) => entity === query.entityType),
+    entityId: parseOptionalId(query.entityId),
+    serviceId: parseOptionalId(query.serviceId),
+    actorId: actorId || undefined,
+    search: search || undefined,
+    from: parseOptionalDate(query.from),
+    to: parseOptionalDate(query.to),
+    beforeId: parseOptionalId(query.beforeId),
+    limit: Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_AUDIT_ENTRIES) : DEFAULT_AUDIT_ENTRIES,
   };
+};
+
+// Fills in nextServiceDue from the matching interval rule when the mechanic did not set one.
+async function applyIntervalProjection(service: Service): Promise<Service> {
+  if (!service.serviceType || service.nextServiceDue) {
+    return service;
+  }
+
+  const rule = await storage.getServiceIntervalRuleByType(service.serviceType);
+  if (!rule) {
+    return service;
+  }
+
+  const history = await storage.getServicesByVehicle(service.vehicleId);
+  const projection = projectServiceDue(rule, history);
+  if (!projection.dueDate) {
+    return service;
+  }
+
+  return (await storage.updateService(service.id, { nextServiceDue: projection.dueDate })) ?? service;
 }
 
 function determineSuggestionReason(
@@ -291,7 +838,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers", requireRole("admin", "mechanic"), async (req, res) => {
+  app.get("/api/customers/:id/receivables", requireAuth, async (req, res) => {
+    try {
+      const customerId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(customerId)) {
+        return res.status(400).json({ error: "Invalid customer id" });
+      }
+
+      const [services, customerInvoices] = await Promise.all([
+        storage.getServicesByCustomer(customerId),
+        storage.getInvoicesByCustomer(customerId),
+      ]);
+      const invoicesByService = new Map(customerInvoices.map((entry) => [entry.invoice.serviceId, entry]));
+
+      const entries: ReceivableEntry[] = services.map((service) => {
+        const entry = invoicesByService.get(service.id);
+        return {
+          service,
+          invoice: entry?.invoice ?? null,
+          summary: entry ? summarizeInvoicePayments(entry.invoice.amount, entry.payments) : null,
+        };
+      });
+
+      const totals = entries.reduce(
+        (sum, entry) => {
+          if (!entry.invoice || !entry.summary) {
+            sum.uninvoiced += parseCost(entry.service.totalCost);
+          } else if (entry.invoice.status !== "void") {
+            sum.invoiced += entry.summary.invoiced;
+            sum.paid += entry.summary.netPaid;
+            sum.outstanding += entry.summary.balance;
+          }
+          return sum;
+        },
+        { invoiced: 0, paid: 0, outstanding: 0, uninvoiced: 0 },
+      );
+
+      res.json({
+        entries,
+        totals: {
+          invoiced: totals.invoiced.toFixed(2),
+          paid: totals.paid.toFixed(2),
+          outstanding: totals.outstanding.toFixed(2),
+          uninvoiced: totals.uninvoiced.toFixed(2),
+        },
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/customers", requirePermission("customer.create"), async (req, res) => {
     try {
       const validatedData = insertCustomerSchema.parse(req.body);
       const existingCustomer = await storage.getCustomerByPhone(validatedData.phone);
@@ -305,7 +902,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/customers/:id", requireRole("admin", "mechanic"), async (req, res) => {
+  app.patch("/api/customers/:id", requirePermission("customer.edit"), async (req, res) => {
     try {
       const validatedData = insertCustomerSchema.parse(req.body);
       const customer = await storage.updateCustomer(parseInt(req.params.id), validatedData);
@@ -318,9 +915,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/customers/:id", requireRole("admin", "mechanic"), async (req, res) => {
+  app.delete("/api/customers/:id", requirePermission("customer.delete"), async (req, res) => {
     try {
-      await storage.deleteCustomer(parseInt(req.params.id));
+      const customerId = parseInt(req.params.id);
+      if (await storage.hasInvoices({ customerId })) {
+        return res.status(400).json({ error: "Customers with invoices cannot be deleted" });
+      }
+      const mediaEntries = await storage.getCustomerMedia(customerId);
+      await storage.deleteCustomer(customerId);
+      await removeStoredMedia(mediaEntries);
       res.sendStatus(204);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -378,14 +981,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Vehicle not found" });
       }
 
-      const customer = await storage.getCustomer(vehicle.customerId);
-      const services = await storage.getServicesByVehicle(vehicle.id);
-
-      res.json({
-        vehicle,
-        customer: customer ?? null,
-        services,
-      });
+      res.json(await buildLookupPayload(vehicle));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -412,7 +1008,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vehicles", requireRole("admin", "mechanic"), async (req, res) => {
+  app.post("/api/vehicles", requirePermission("vehicle.create"), async (req, res) => {
     try {
       const validatedData = insertVehicleSchema.parse(req.body);
       const vehicle = await storage.createVehicle(validatedData);
@@ -422,7 +1018,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/vehicles/:id", requireRole("admin", "mechanic"), async (req, res) => {
+  app.patch("/api/vehicles/:id", requirePermission("vehicle.edit"), async (req, res) => {
     try {
       const validatedData = insertVehicleSchema.parse(req.body);
       const vehicle = await storage.updateVehicle(parseInt(req.params.id), validatedData);
@@ -435,145 +1031,599 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/vehicles/:id", requireRole("admin", "mechanic"), async (req, res) => {
+  app.delete("/api/vehicles/:id", requirePermission("vehicle.delete"), async (req, res) => {
     try {
-      await storage.deleteVehicle(parseInt(req.params.id));
+      const vehicleId = parseInt(req.params.id);
+      if (await storage.hasInvoices({ vehicleId })) {
+        return res.status(400).json({ error: "Vehicles with invoiced services cannot be deleted" });
+      }
+      const mediaEntries = await storage.getVehicleMedia(vehicleId);
+      await storage.deleteVehicle(vehicleId);
+      await removeStoredMedia(mediaEntries);
       res.sendStatus(204);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/services", requireAuth, async (_req, res) => {
+  app.get("/api/users", requirePermission("user.manage"), async (_req, res) => {
     try {
-      const services = await storage.getServices();
-      res.json(services);
+      const userList = await storage.getUsers();
+      res.json(userList.map(toPublicUser));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/services/:id", requireAuth, async (req, res) => {
+  app.post("/api/users", requirePermission("user.manage"), async (req, res) => {
     try {
-      const service = await storage.getService(parseInt(req.params.id));
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
+      const validatedData = createUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(400).json({ error: "A user with this username already exists" });
       }
-      res.json(service);
+      const problem = findPasswordProblem(validatedData.password);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      res.status(201).json(toPublicUser(user));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status(400).json({ error: error.message });
     }
   });
 
-  app.get("/api/services/:id/media", requireAuth, async (req, res) => {
+  app.patch("/api/users/:id", requirePermission("user.manage"), async (req, res) => {
     try {
-      const serviceId = Number.parseInt(req.params.id, 10);
-      if (!Number.isFinite(serviceId)) {
-        return res.status(400).json({ error: "Invalid service id" });
+      const existing = await resolveUser(req, res);
+      if (!existing) {
+        return;
       }
 
-      const mediaEntries = await storage.getServiceMedia(serviceId);
-      const payload = mediaEntries.map((entry) => ({
-        id: entry.id,
-        serviceId: entry.serviceId,
-        fileName: entry.fileName,
-        fileType: entry.fileType,
-        fileSize: entry.fileSize,
-        url: `/uploads/${entry.relativePath}`,
-        createdAt: entry.createdAt,
-      }));
+      const validatedData = updateUserSchema.parse(req.body);
+      if (existing.id === req.user?.id && validatedData.active === false) {
+        return res.status(400).json({ error: "You cannot disable your own account" });
+      }
+
+      const losesAdmin =
+        existing.role === "admin" &&
+        existing.active &&
+        ((validatedData.role !== undefined && validatedData.role !== "admin") || validatedData.active === false);
+      if (losesAdmin && (await storage.countActiveAdmins()) <= 1) {
+        return res.status(400).json({ error: "At least one active admin account is required" });
+      }
+
+      const user = await storage.updateUser(existing.id, validatedData);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/users/:id/password", requirePermission("user.manage"), async (req, res) => {
+    try {
+      const existing = await resolveUser(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const { password, mustChangePassword } = resetPasswordSchema.parse(req.body);
+      const problem = findPasswordProblem(password);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      await storage.updateUser(existing.id, {
+        password: await hashPassword(password),
+        mustChangePassword,
+        passwordChangedAt: new Date(),
+      });
+      // The old password may be compromised, so end the user's sessions (but not the admin's own)
+      await storage.deleteUserSessions(existing.id, existing.id === req.user?.id ? req.sessionID : undefined);
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/users/:id/sessions", requirePermission("user.manage"), async (req, res) => {
+    try {
+      const existing = await resolveUser(req, res);
+      if (!existing) {
+        return;
+      }
 
-      res.json(payload);
+      res.json(await listUserSessions(existing.id, req.sessionID));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/services/vehicle/:vehicleId", requireAuth, async (req, res) => {
+  // Signs the user out everywhere; an admin clearing their own sessions keeps the one they are using
+  app.delete("/api/users/:id/sessions", requirePermission("user.manage"), async (req, res) => {
     try {
-      const services = await storage.getServicesByVehicle(parseInt(req.params.vehicleId));
-      res.json(services);
+      const existing = await resolveUser(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const revoked = await storage.deleteUserSessions(
+        existing.id,
+        existing.id === req.user?.id ? req.sessionID : undefined,
+      );
+      res.json({ revoked });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/services/customer/:customerId", requireAuth, async (req, res) => {
+  app.get("/api/user/sessions", requireSession, async (req, res) => {
     try {
-      const services = await storage.getServicesByCustomer(parseInt(req.params.customerId));
-      res.json(services);
+      res.json(await listUserSessions(req.user!.id, req.sessionID));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post(
-    "/api/services",
-    requireRole("admin", "mechanic"),
-    mediaUpload.array("media", MEDIA_UPLOAD_LIMIT),
-    async (req, res) => {
-      const uploadedFiles = (req.files as Express.Multer.File[]) ?? [];
+  app.delete("/api/user/sessions", requireSession, async (req, res) => {
+    try {
+      const revoked = await storage.deleteUserSessions(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      try {
-        const rawBody = req.body ?? {};
-        const plateNumber = rawBody.plateNumber ? String(rawBody.plateNumber).trim().toUpperCase() : "";
+  app.delete("/api/user/sessions/:sessionId", requireSession, async (req, res) => {
+    try {
+      if (isCurrentSession(req, req.params.sessionId)) {
+        return res.status(400).json({ error: "Use Sign out to end the session you are using" });
+      }
 
-        let vehicleId: number | undefined = rawBody.vehicleId;
-        let customerId: number | undefined = rawBody.customerId;
+      const revoked = await revokeUserSession(req.user!.id, req.params.sessionId);
+      if (!revoked) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-        if (plateNumber) {
-          const vehicle = await storage.getVehicleByPlate(plateNumber);
-          if (!vehicle) {
-            await cleanupUploadedFiles(uploadedFiles);
-            return res.status(404).json({ error: "Vehicle with this plate number was not found" });
-          }
+  app.get("/api/user/api-tokens", requireSession, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user!.id);
+      res.json(tokens.map(toApiTokenSummary));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-          vehicleId = vehicle.id;
-          customerId = vehicle.customerId;
-        }
+  // The plain token is only in this response; afterwards the server keeps its hash alone
+  app.post("/api/user/api-tokens", requireSession, async (req, res) => {
+    try {
+      const input = createApiTokenSchema.parse(req.body);
+      const created = await issueApiToken(req.user!, input);
+      res.status(201).json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-        if (!vehicleId || !customerId) {
-          await cleanupUploadedFiles(uploadedFiles);
-          return res.status(400).json({ error: "A valid plate number is required to create a service" });
-        }
+  app.delete("/api/user/api-tokens/:id", requireSession, async (req, res) => {
+    try {
+      const tokenId = Number.parseInt(req.params.id, 10);
+      if (Number.isNaN(tokenId)) {
+        return res.status(400).json({ error: "Invalid token id" });
+      }
 
-        const payload: Record<string, unknown> = {
-          ...rawBody,
-          vehicleId,
-          customerId,
+      const deleted = await storage.deleteApiToken(req.user!.id, tokenId);
+      if (!deleted) {
+        return res.status(404).json({ error: "API token not found" });
+      }
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // For a lost phone: the user signs in with their password alone and can enroll again
+  app.delete("/api/users/:id/two-factor", requirePermission("user.manage"), async (req, res) => {
+    try {
+      const existing = await resolveUser(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const updated = await clearTwoFactor(existing.id);
+      res.json(toPublicUser(updated ?? existing));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/security/role-settings", requirePermission("security.manage"), async (_req, res) => {
+    try {
+      const saved = await storage.getRoleSettings();
+      // Roles nobody has configured yet are listed with the defaults, and permissions always come back resolved
+      const settings: RoleSetting[] = userRoleEnum.enumValues.map((role) => {
+        const setting = saved.find((entry) => entry.role === role);
+        return {
+          role,
+          requireTwoFactor: setting?.requireTwoFactor ?? false,
+          permissions: resolveRolePermissions(role, setting?.permissions),
+          updatedAt: setting?.updatedAt ?? new Date(0),
         };
+      });
+      res.json(settings);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-        delete payload.plateNumber;
+  app.put("/api/security/role-settings/:role", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const role = userRoleEnum.enumValues.find((value) => value === req.params.role);
+      if (!role) {
+        return res.status(404).json({ error: "Role not found" });
+      }
 
-        const validatedData = insertServiceSchema.parse(payload);
+      const updates = updateRoleSettingSchema.parse(req.body);
+      if (updates.permissions && role === "admin") {
+        return res.status(400).json({ error: "Admins always have every permission" });
+      }
 
-        const laborCostValue = Number.parseFloat(String(validatedData.laborCost ?? "0")) || 0;
-        const partsCostValue = Number.parseFloat(String(validatedData.partsCost ?? "0")) || 0;
-        const totalCostValue =
-          validatedData.totalCost !== undefined
-            ? Number.parseFloat(String(validatedData.totalCost)) || laborCostValue + partsCostValue
-            : laborCostValue + partsCostValue;
+      const saved = await storage.saveRoleSetting(role, updates);
+      res.json({ ...saved, permissions: resolveRolePermissions(role, saved.permissions) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-        const service = await storage.createService({
-          ...validatedData,
-          laborCost: laborCostValue.toFixed(2),
-          partsCost: partsCostValue.toFixed(2),
-          totalCost: totalCostValue.toFixed(2),
-        });
+  app.get("/api/security/lockouts", requirePermission("security.manage"), async (_req, res) => {
+    try {
+      const lockouts = await storage.getActiveLockouts(new Date());
+      res.json(lockouts);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-        if (uploadedFiles.length > 0) {
-          await storage.addServiceMedia(
-            uploadedFiles.map((file) => ({
-              serviceId: service.id,
-              fileName: file.originalname,
-              fileType: file.mimetype,
-              fileSize: file.size,
-              relativePath: toRelativeMediaPath(file.path),
-            })),
-          );
+  app.delete("/api/security/lockouts/:id", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const lockoutId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(lockoutId)) {
+        return res.status(400).json({ error: "Invalid lockout id" });
+      }
+
+      const removed = await storage.deleteLoginThrottle(lockoutId);
+      if (!removed) {
+        return res.status(404).json({ error: "Lockout not found" });
+      }
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/security/failed-logins", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const requested = Number.parseInt(String(req.query.limit ?? ""), 10);
+      const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_FAILED_LOGINS) : DEFAULT_FAILED_LOGINS;
+      const attempts = await storage.getFailedLoginAttempts(limit);
+      res.json(attempts);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Newest first; filter by entityType/entityId, serviceId (a job with its items and media), actorId, search, from/to
+  app.get("/api/audit", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const entries = await storage.getAuditLog(parseAuditLogFilters(req.query));
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/technicians", requireAuth, async (_req, res) => {
+    try {
+      const technicians = await storage.getTechnicians();
+      res.json(technicians);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services", requireAuth, async (req, res) => {
+    try {
+      const services = await storage.getServices(parseServiceFilters(req.query));
+      res.json(services);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/:id", requireAuth, async (req, res) => {
+    try {
+      const service = await storage.getService(parseInt(req.params.id));
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      res.json(service);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/:id/media", requireAuth, async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const mediaEntries = await storage.getServiceMedia(serviceId);
+      res.json(mediaEntries.map(toMediaPayload));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Adds photos or videos to an existing service, e.g. after-repair shots
+  app.post(
+    "/api/services/:id/media",
+    requirePermission("service.edit"),
+    mediaUpload.array("media", MEDIA_UPLOAD_LIMIT),
+    inspectMediaUploads,
+    async (req, res) => {
+      const uploadedFiles = (req.files as Express.Multer.File[]) ?? [];
+
+      try {
+        const service = await resolveEditableService(req, res);
+        if (!service) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return;
         }
 
-        res.status(201).json(service);
+        if (uploadedFiles.length === 0) {
+          return res.status(400).json({ error: "Choose at least one file to upload" });
+        }
+
+        const { caption } = uploadServiceMediaSchema.parse(req.body ?? {});
+        const created = await storeServiceMedia(service.id, uploadedFiles, { caption: caption || null });
+
+        res.status(201).json(created.map(toMediaPayload));
+      } catch (error: any) {
+        await cleanupUploadedFiles(uploadedFiles);
+        res.status(400).json({ error: error.message });
+      }
+    },
+  );
+
+  // The body lists every file of the service in its new gallery order
+  app.put("/api/services/:id/media/order", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      const { mediaIds } = reorderServiceMediaSchema.parse(req.body);
+      const currentIds = (await storage.getServiceMedia(service.id)).map((entry) => entry.id);
+      const sameFiles =
+        mediaIds.length === currentIds.length &&
+        new Set(mediaIds).size === mediaIds.length &&
+        currentIds.every((id) => mediaIds.includes(id));
+      if (!sameFiles) {
+        return res.status(400).json({ error: "The new order must list each of the service's files once" });
+      }
+
+      const reordered = await storage.reorderServiceMedia(service.id, mediaIds);
+      res.json(reordered.map(toMediaPayload));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/services/:id/media/:mediaId", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      const mediaId = Number.parseInt(req.params.mediaId, 10);
+      const existing = Number.isFinite(mediaId) ? await storage.getServiceMediaEntry(mediaId) : undefined;
+      if (!existing || existing.serviceId !== service.id) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      const updates = updateServiceMediaSchema.parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: "No changes were provided" });
+      }
+      if (updates.isCover && !existing.fileType.startsWith("image/")) {
+        return res.status(400).json({ error: "Only photos can be used as the cover" });
+      }
+
+      const updated = await storage.updateServiceMedia(mediaId, updates);
+      if (!updated) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+      res.json(toMediaPayload(updated));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/services/:id/media/:mediaId", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      const mediaId = Number.parseInt(req.params.mediaId, 10);
+      const existing = Number.isFinite(mediaId) ? await storage.getServiceMediaEntry(mediaId) : undefined;
+      if (!existing || existing.serviceId !== service.id) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      // A signature is the record of the customer's approval and stays with the service
+      const authorizations = await storage.getServiceAuthorizations(service.id);
+      if (authorizations.some((authorization) => authorization.signatureMediaId === mediaId)) {
+        return res.status(400).json({ error: "Customer signatures cannot be deleted" });
+      }
+
+      const deleted = await storage.deleteServiceMedia(mediaId);
+      if (deleted) {
+        await removeStoredMedia([deleted]);
+      }
+
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/media/:id", requireMediaAccess, async (req, res) => {
+    try {
+      const media = await resolveServedMedia(req, res);
+      if (media) {
+        sendMediaFile(res, media);
+      }
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // e.g. /api/media/12/thumbnail.webp; a share link for the original also opens its derivatives
+  app.get("/api/media/:id/:size.:format", requireMediaAccess, async (req, res) => {
+    try {
+      const media = await resolveServedMedia(req, res);
+      if (!media) {
+        return;
+      }
+
+      const size = MEDIA_DERIVATIVE_SIZES.find((entry) => entry === req.params.size);
+      const format = MEDIA_DERIVATIVE_FORMATS.find((entry) => entry === req.params.format);
+      const derivative = size && format ? findMediaDerivative(media, size, format) : undefined;
+      if (!derivative) {
+        return res.status(404).json({ error: "Media size not found" });
+      }
+
+      sendMediaFile(res, derivativeFile(media, derivative));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/media/:id/links", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const mediaId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(mediaId)) {
+        return res.status(400).json({ error: "Invalid media id" });
+      }
+
+      const { expiresInMinutes } = createMediaLinkSchema.parse(req.body ?? {});
+      const media = await storage.getServiceMediaEntry(mediaId);
+      if (!media) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      res.status(201).json(createSignedMediaUrl(media.id, expiresInMinutes));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/:id/authorizations", requireAuth, async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const authorizations = await storage.getServiceAuthorizations(serviceId);
+      res.json(await buildAuthorizationPayloads(serviceId, authorizations));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post(
+    "/api/services/:id/authorizations",
+    requirePermission("service.edit"),
+    mediaUpload.single("signature"),
+    inspectMediaUploads,
+    async (req, res) => {
+      const signatureFile = req.file;
+      let uploadedFiles = signatureFile ? [signatureFile] : [];
+
+      try {
+        const service = await resolveEditableService(req, res);
+        if (!service) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return;
+        }
+
+        const { itemIds, amount, ...validatedData } = insertServiceAuthorizationSchema.parse(
+          parseAuthorizationBody(req.body ?? {}),
+        );
+
+        if (validatedData.channel === "in_person" && !signatureFile) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return res.status(400).json({ error: "In-person approvals need the customer's signature" });
+        }
+        if (signatureFile && !signatureFile.mimetype.startsWith("image/")) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return res.status(400).json({ error: "The signature must be an image" });
+        }
+
+        const serviceItemsById = new Map((await storage.getServiceItems(service.id)).map((item) => [item.id, item]));
+        const approvedItems: AuthorizedItem[] = [];
+        for (const itemId of Array.from(new Set(itemIds))) {
+          const item = serviceItemsById.get(itemId);
+          if (!item) {
+            await cleanupUploadedFiles(uploadedFiles);
+            return res.status(400).json({ error: `Line item ${itemId} does not belong to this service` });
+          }
+          const { gross } = calculateItemTax(item, service.taxMode, service.taxRate);
+          approvedItems.push({ id: item.id, description: item.description, amount: gross.toFixed(2) });
+        }
+
+        if (amount === undefined && approvedItems.length === 0) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return res.status(400).json({ error: "Select the approved items or enter the approved amount" });
+        }
+        const approvedAmount =
+          amount ?? roundCurrency(approvedItems.reduce((sum, item) => sum + Number.parseFloat(item.amount), 0));
+
+        const [signatureEntry] = signatureFile ? await toMediaEntries(service.id, [signatureFile]) : [];
+        const { authorization, signature } = await storage.createServiceAuthorization(
+          {
+            ...validatedData,
+            serviceId: service.id,
+            amount: approvedAmount.toFixed(2),
+            items: approvedItems,
+            recordedBy: req.user?.id,
+          },
+          signatureEntry,
+        );
+        // The signature row now points at a file, which must stay even if building the response fails
+        await discardDuplicateUploads(uploadedFiles, signature ? [signature] : []);
+        uploadedFiles = [];
+
+        const [payload] = await buildAuthorizationPayloads(service.id, [authorization]);
+        res.status(201).json(payload);
       } catch (error: any) {
         await cleanupUploadedFiles(uploadedFiles);
         res.status(400).json({ error: error.message });
@@ -581,6 +1631,1114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  app.get("/api/services/:id/time-entries", requireAuth, async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      res.json(await storage.getTimeEntries(serviceId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/services/:id/clock-on", requirePermission("time.clock"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      if (service.status !== "scheduled" && service.status !== "in_progress") {
+        return res.status(400).json({ error: "Time can only be clocked on scheduled or in-progress jobs" });
+      }
+
+      const technician = req.user!;
+      const openEntry = await storage.getOpenTimeEntry(technician.id);
+      if (openEntry) {
+        return res.status(400).json({ error: `You are still clocked on service #${openEntry.serviceId}` });
+      }
+
+      const validatedData = clockOnSchema.parse(req.body ?? {});
+      let serviceItemId: number;
+      if (validatedData.serviceItemId) {
+        const item = await storage.getServiceItem(validatedData.serviceItemId);
+        if (!item || item.serviceId !== service.id) {
+          return res.status(400).json({ error: "Line item does not belong to this service" });
+        }
+        serviceItemId = item.id;
+      } else {
+        serviceItemId = (await storage.findOrCreateLaborItem(service.id, technician, laborSettings.defaultRate)).id;
+      }
+
+      const entry = await storage.createTimeEntry({
+        serviceId: service.id,
+        serviceItemId,
+        technicianId: technician.id,
+        startedAt: new Date(),
+        notes: validatedData.notes,
+      });
+      if (!entry) {
+        return res.status(409).json({ error: "You are already clocked on another job; refresh and try again" });
+      }
+
+      // The first clock-on starts the job.
+      if (service.status === "scheduled") {
+        await storage.updateService(service.id, { status: "in_progress" });
+      }
+
+      res.status(201).json(entry);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/time-entries/:id/clock-off", requirePermission("time.clock"), async (req, res) => {
+    try {
+      const existing = await resolveTimeEntry(req, res);
+      if (!existing) {
+        return;
+      }
+
+      if (existing.technicianId !== req.user?.id && !hasPermission(req.user, "time.manage")) {
+        return res.status(403).json({ error: "You can only clock off your own time" });
+      }
+      if (existing.endedAt) {
+        return res.status(400).json({ error: "This time entry is already clocked off" });
+      }
+
+      const entry = await storage.updateTimeEntry(existing.id, { endedAt: new Date() });
+      if (existing.serviceItemId) {
+        await storage.syncClockedLabor(existing.serviceId, [existing.serviceItemId]);
+      }
+      res.json(entry);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/time-entries/:id", requirePermission("time.manage"), async (req, res) => {
+    try {
+      const existing = await resolveTimeEntry(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const validatedData = updateTimeEntrySchema.parse(req.body);
+      if (validatedData.serviceItemId) {
+        const item = await storage.getServiceItem(validatedData.serviceItemId);
+        if (!item || item.serviceId !== existing.serviceId) {
+          return res.status(400).json({ error: "Line item does not belong to this service" });
+        }
+      }
+
+      const startedAt = validatedData.startedAt ?? existing.startedAt;
+      const endedAt = validatedData.endedAt === undefined ? existing.endedAt : validatedData.endedAt;
+      if (endedAt && endedAt.getTime() <= startedAt.getTime()) {
+        return res.status(400).json({ error: "Clock-off time must be after clock-on time" });
+      }
+
+      const entry = await storage.updateTimeEntry(existing.id, validatedData);
+      const affectedItems = [existing.serviceItemId, entry?.serviceItemId].filter(
+        (id): id is number => id !== null && id !== undefined,
+      );
+      await storage.syncClockedLabor(existing.serviceId, affectedItems);
+      res.json(entry);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/time-entries/:id", requirePermission("time.manage"), async (req, res) => {
+    try {
+      const existing = await resolveTimeEntry(req, res);
+      if (!existing) {
+        return;
+      }
+
+      await storage.deleteTimeEntry(existing.id);
+      if (existing.serviceItemId) {
+        await storage.syncClockedLabor(existing.serviceId, [existing.serviceItemId]);
+      }
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/time-clock/active", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getOpenTimeEntry(req.user!.id);
+      if (!entry) {
+        return res.json(null);
+      }
+
+      const service = await storage.getService(entry.serviceId);
+      const vehicle = service ? await storage.getVehicle(service.vehicleId) : undefined;
+      res.json({ entry, service: service ?? null, vehicle: vehicle ?? null });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/time-clock/jobs", requirePermission("time.clock"), async (_req, res) => {
+    try {
+      res.json(await storage.getOpenJobs());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/reports/technician-productivity", requirePermission("report.view_productivity"), async (req, res) => {
+    try {
+      const to = parseOptionalDate(req.query.to) ?? new Date();
+      const from = parseOptionalDate(req.query.from) ?? new Date(to.getTime() - PRODUCTIVITY_REPORT_DAYS * DAY_MS);
+      if (from.getTime() >= to.getTime()) {
+        return res.status(400).json({ error: "The report start must be before its end" });
+      }
+
+      const entries = await storage.getProductivityEntries(from, to);
+      res.json({ from, to, technicians: summarizeTechnicianProductivity(entries) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/:id/items", requireAuth, async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const items = await storage.getServiceItems(serviceId);
+      res.json(items);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/services/:id/items", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      const validatedData = serviceItemInputSchema.parse(req.body);
+      const [item] = await storage.createServiceItems([{ ...validatedData, serviceId: service.id }]);
+      await storage.recalculateServiceCosts(service.id);
+
+      res.status(201).json(item);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/services/:id/items/:itemId", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      const itemId = Number.parseInt(req.params.itemId, 10);
+      const existing = Number.isFinite(itemId) ? await storage.getServiceItem(itemId) : undefined;
+      if (!existing || existing.serviceId !== service.id) {
+        return res.status(404).json({ error: "Service item not found" });
+      }
+
+      const validatedData = updateServiceItemSchema.parse(req.body);
+      const item = await storage.updateServiceItem(itemId, validatedData);
+      await storage.recalculateServiceCosts(service.id);
+
+      res.json(item);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/services/:id/items/:itemId", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const service = await resolveEditableService(req, res);
+      if (!service) {
+        return;
+      }
+
+      const itemId = Number.parseInt(req.params.itemId, 10);
+      const existing = Number.isFinite(itemId) ? await storage.getServiceItem(itemId) : undefined;
+      if (!existing || existing.serviceId !== service.id) {
+        return res.status(404).json({ error: "Service item not found" });
+      }
+
+      await storage.deleteServiceItem(itemId);
+      await storage.recalculateServiceCosts(service.id);
+
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/vehicle/:vehicleId", requireAuth, async (req, res) => {
+    try {
+      const services = await storage.getServicesByVehicle(
+        parseInt(req.params.vehicleId),
+        parseServiceFilters(req.query),
+      );
+      res.json(services);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/customer/:customerId", requireAuth, async (req, res) => {
+    try {
+      const services = await storage.getServicesByCustomer(
+        parseInt(req.params.customerId),
+        parseServiceFilters(req.query),
+      );
+      res.json(services);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post(
+    "/api/services",
+    requirePermission("service.create"),
+    mediaUpload.array("media", MEDIA_UPLOAD_LIMIT),
+    inspectMediaUploads,
+    async (req, res) => {
+      const uploadedFiles = (req.files as Express.Multer.File[]) ?? [];
+
+      try {
+        const rawBody = req.body ?? {};
+        const plateNumber = rawBody.plateNumber ? String(rawBody.plateNumber).trim().toUpperCase() : "";
+
+        let vehicleId: number | undefined = rawBody.vehicleId;
+        let customerId: number | undefined = rawBody.customerId;
+
+        if (plateNumber) {
+          const vehicle = await storage.getVehicleByPlate(plateNumber);
+          if (!vehicle) {
+            await cleanupUploadedFiles(uploadedFiles);
+            return res.status(404).json({ error: "Vehicle with this plate number was not found" });
+          }
+
+          vehicleId = vehicle.id;
+          customerId = vehicle.customerId;
+        }
+
+        if (!vehicleId || !customerId) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return res.status(400).json({ error: "A valid plate number is required to create a service" });
+        }
+
+        const payload: Record<string, unknown> = {
+          ...rawBody,
+          vehicleId,
+          customerId,
+        };
+
+        delete payload.plateNumber;
+        delete payload.items;
+
+        const items = parseServiceItemsField(rawBody.items);
+        const validatedData = insertServiceSchema.parse(payload);
+
+        if (validatedData.assignedTechnicianId && !(await isAssignableTechnician(validatedData.assignedTechnicianId))) {
+          await cleanupUploadedFiles(uploadedFiles);
+          return res.status(400).json({ error: "Assigned technician not found" });
+        }
+
+        const laborCostValue = Number.parseFloat(String(validatedData.laborCost ?? "0")) || 0;
+        const partsCostValue = Number.parseFloat(String(validatedData.partsCost ?? "0")) || 0;
+
+        let service = await storage.createService(
+          {
+            ...validatedData,
+            laborCost: laborCostValue.toFixed(2),
+            partsCost: partsCostValue.toFixed(2),
+            taxMode: validatedData.taxMode ?? taxSettings.mode,
+            taxRate: validatedData.taxRate ?? taxSettings.rate,
+            createdBy: req.user?.id,
+          },
+          items,
+        );
+
+        service = await applyIntervalProjection(service);
+        await storage.syncServiceReminder(service);
+
+        if (uploadedFiles.length > 0) {
+          await storeServiceMedia(service.id, uploadedFiles);
+        }
+
+        res.status(201).json(service);
+      } catch (error: any) {
+        await cleanupUploadedFiles(uploadedFiles);
+        res.status(400).json({ error: error.message });
+      }
+    },
+  );
+
+  app.patch("/api/services/:id", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const existing = await resolveEditableService(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const serviceId = existing.id;
+      const { laborCost, partsCost, taxRate, ...validatedData } = updateServiceSchema.parse(req.body);
+
+      if (validatedData.assignedTechnicianId && !(await isAssignableTechnician(validatedData.assignedTechnicianId))) {
+        return res.status(400).json({ error: "Assigned technician not found" });
+      }
+
+      await storage.updateService(serviceId, {
+        ...validatedData,
+        laborCost: parseCost(laborCost ?? existing.laborCost).toFixed(2),
+        partsCost: parseCost(partsCost ?? existing.partsCost).toFixed(2),
+        taxRate: taxRate !== undefined ? taxRate.toFixed(2) : undefined,
+      });
+
+      // Services with line items always derive their costs from those items.
+      const service = await storage.recalculateServiceCosts(serviceId);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      await storage.syncServiceReminder(service);
+
+      res.json(service);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/services/:id/status", requirePermission("service.edit"), async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const existing = await storage.getService(serviceId);
+      if (!existing) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      if (isClosedForUser(existing, req.user)) {
+        return res.status(403).json({ error: "You do not have permission to reopen closed services" });
+      }
+
+      const { status } = serviceStatusTransitionSchema.parse(req.body);
+      if (!allowedStatusTransitions(existing, req.user).includes(status)) {
+        return res
+          .status(400)
+          .json({ error: `Cannot move a service from ${existing.status} to ${status}` });
+      }
+
+      const service = await storage.updateService(serviceId, { status });
+
+      res.json(service);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/services/:id", requirePermission("service.delete"), async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const existing = await storage.getService(serviceId);
+      if (!existing) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      if (isClosedForUser(existing, req.user)) {
+        return res.status(403).json({ error: "You do not have permission to delete closed services" });
+      }
+
+      // Issued invoices, void ones included, keep their place in the invoice number sequence
+      if (await storage.hasInvoices({ serviceId })) {
+        return res.status(400).json({ error: "Invoiced services cannot be deleted" });
+      }
+
+      const mediaEntries = await storage.getServiceMedia(serviceId);
+      await storage.deleteService(serviceId);
+      await removeStoredMedia(mediaEntries);
+
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/:id/invoice", requireAuth, async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const invoice = await storage.getInvoiceByService(serviceId);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      res.json(buildInvoicePayload(invoice, await storage.getPayments(invoice.id)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/services/:id/invoice", requirePermission("invoice.create"), async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const service = await storage.getService(serviceId);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      // The lines and totals are frozen here; later changes to the service need a new invoice
+      const validatedData = createInvoiceSchema.parse(req.body ?? {});
+      const items = await storage.getServiceItems(service.id);
+      const totals = summarizeServiceTotals(service, items);
+      const invoice = await storage.createInvoice({
+        ...validatedData,
+        serviceId: service.id,
+        customerId: service.customerId,
+        amount: totals.grossTotal.toFixed(2),
+        taxAmount: totals.taxTotal.toFixed(2),
+        taxMode: service.taxMode,
+        lines: buildInvoiceLines(service, items),
+        createdBy: req.user?.id,
+      });
+      if (!invoice) {
+        return res
+          .status(400)
+          .json({ error: "This service has already been invoiced; void the invoice to issue a corrected one" });
+      }
+
+      res.status(201).json(buildInvoicePayload(invoice, []));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/invoices/:id/print", requireAuth, async (req, res) => {
+    try {
+      const invoice = await resolveInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      const service = await storage.getService(invoice.serviceId);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      const [items, customer, vehicle] = await Promise.all([
+        storage.getServiceItems(service.id),
+        storage.getCustomer(service.customerId),
+        storage.getVehicle(service.vehicleId),
+      ]);
+
+      const html = await renderInvoiceDocument({
+        invoice,
+        service,
+        items,
+        customer: customer ?? null,
+        vehicle: vehicle ?? null,
+      });
+      res.type("html").send(html);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/invoices/:id/payments", requirePermission("invoice.record_payment"), async (req, res) => {
+    try {
+      const invoice = await resolveInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      // The void state and the outstanding balance are checked by recordPayment, under the invoice lock
+      const validatedData = recordPaymentSchema.parse(req.body);
+      await storage.recordPayment({
+        ...validatedData,
+        amount: validatedData.amount.toFixed(2),
+        invoiceId: invoice.id,
+        kind: "payment",
+        receivedBy: req.user?.id,
+      });
+
+      const updated = (await storage.getInvoice(invoice.id)) ?? invoice;
+      res.status(201).json(buildInvoicePayload(updated, await storage.getPayments(invoice.id)));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/invoices/:id/refunds", requirePermission("invoice.refund"), async (req, res) => {
+    try {
+      const invoice = await resolveInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      // recordPayment refuses refunds above the net amount paid
+      const validatedData = recordPaymentSchema.parse(req.body);
+      await storage.recordPayment({
+        ...validatedData,
+        amount: validatedData.amount.toFixed(2),
+        invoiceId: invoice.id,
+        kind: "refund",
+        receivedBy: req.user?.id,
+      });
+
+      const updated = (await storage.getInvoice(invoice.id)) ?? invoice;
+      res.status(201).json(buildInvoicePayload(updated, await storage.getPayments(invoice.id)));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/invoices/:id/void", requirePermission("invoice.void"), async (req, res) => {
+    try {
+      const invoice = await resolveInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      const voided = await storage.voidInvoice(invoice.id);
+      if (!voided) {
+        return res.status(400).json({ error: "Refund all payments before voiding this invoice" });
+      }
+
+      res.json(buildInvoicePayload(voided, await storage.getPayments(invoice.id)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/services/:id/estimate", requireAuth, async (req, res) => {
+    try {
+      const serviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(serviceId)) {
+        return res.status(400).json({ error: "Invalid service id" });
+      }
+
+      const estimate = await storage.getEstimateByService(serviceId);
+      if (!estimate) {
+        return res.status(404).json({ error: "Estimate not found" });
+      }
+      res.json(estimate);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/estimates", requireAuth, async (req, res) => {
+    try {
+      const estimates = await storage.getEstimates({
+        customerId: parseOptionalId(req.query.customerId),
+        vehicleId: parseOptionalId(req.query.vehicleId),
+        status: parseEstimateStatus(req.query.status),
+      });
+      res.json(estimates);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/estimates/:id", requireAuth, async (req, res) => {
+    try {
+      const estimate = await resolveEstimate(req, res);
+      if (!estimate) {
+        return;
+      }
+      res.json(estimate);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/estimates", requirePermission("estimate.edit"), async (req, res) => {
+    try {
+      const { items, taxMode, taxRate, ...validatedData } = insertEstimateSchema.parse(req.body);
+
+      const vehicle = await storage.getVehicle(validatedData.vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      const estimate = await storage.createEstimate(
+        {
+          ...validatedData,
+          customerId: vehicle.customerId,
+          taxMode: taxMode ?? taxSettings.mode,
+          taxRate: (taxRate ?? taxSettings.rate).toFixed(2),
+          createdBy: req.user?.id,
+        },
+        items,
+      );
+      res.status(201).json(estimate);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/estimates/:id", requirePermission("estimate.edit"), async (req, res) => {
+    try {
+      const existing = await resolveEstimate(req, res);
+      if (!existing) {
+        return;
+      }
+
+      if (!isEditableEstimate(existing.estimate.status)) {
+        return res.status(400).json({ error: "Only draft or sent estimates can be edited" });
+      }
+
+      const { items, taxRate, ...validatedData } = updateEstimateSchema.parse(req.body);
+      const estimate = await storage.updateEstimate(
+        existing.estimate.id,
+        { ...validatedData, ...(taxRate !== undefined ? { taxRate: taxRate.toFixed(2) } : {}) },
+        items,
+      );
+      res.json(estimate);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/estimates/:id/status", requirePermission("estimate.edit"), async (req, res) => {
+    try {
+      const existing = await resolveEstimate(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const { status } = estimateStatusChangeSchema.parse(req.body);
+      const currentStatus = existing.estimate.status;
+      if (status !== currentStatus && !estimateStatusTransitions[currentStatus].includes(status)) {
+        return res.status(400).json({ error: `Cannot move an estimate from ${currentStatus} to ${status}` });
+      }
+
+      const estimate = await storage.updateEstimate(existing.estimate.id, { status });
+      res.json(estimate);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/estimates/:id/approve", requirePermission("estimate.edit"), async (req, res) => {
+    try {
+      const existing = await resolveEstimate(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const { estimate } = existing;
+      if (!isEditableEstimate(estimate.status)) {
+        return res.status(400).json({ error: `A ${estimate.status} estimate cannot be approved` });
+      }
+      if (estimate.validUntil && estimate.validUntil.getTime() < Date.now()) {
+        return res.status(400).json({ error: "This estimate has expired; update its validity date first" });
+      }
+
+      const approved = await storage.approveEstimate(estimate.id, req.user?.id);
+      if (!approved) {
+        return res.status(409).json({ error: "This estimate was updated by someone else; refresh and try again" });
+      }
+
+      const service = await applyIntervalProjection(approved.service);
+      await storage.syncServiceReminder(service);
+
+      res.status(201).json({ estimate: approved.estimate, service });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/estimates/:id", requirePermission("estimate.delete"), async (req, res) => {
+    try {
+      const existing = await resolveEstimate(req, res);
+      if (!existing) {
+        return;
+      }
+
+      if (existing.estimate.status === "approved") {
+        return res.status(400).json({ error: "Approved estimates are kept as a record of the quote" });
+      }
+
+      await storage.deleteEstimate(existing.estimate.id);
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/scheduling-settings", requireAuth, (_req, res) => {
+    res.json(openingHours);
+  });
+
+  app.get("/api/bays", requireAuth, async (_req, res) => {
+    try {
+      const bayList = await storage.getBays();
+      res.json(bayList);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/bays", requirePermission("bay.manage"), async (req, res) => {
+    try {
+      const validatedData = insertBaySchema.parse(req.body);
+      if (await findBayByName(validatedData.name)) {
+        return res.status(400).json({ error: "A bay with this name already exists" });
+      }
+      const bay = await storage.createBay(validatedData);
+      res.status(201).json(bay);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/bays/:id", requirePermission("bay.manage"), async (req, res) => {
+    try {
+      const bayId = parseInt(req.params.id);
+      const validatedData = updateBaySchema.parse(req.body);
+      if (validatedData.name) {
+        const duplicate = await findBayByName(validatedData.name);
+        if (duplicate && duplicate.id !== bayId) {
+          return res.status(400).json({ error: "A bay with this name already exists" });
+        }
+      }
+
+      const bay = await storage.updateBay(bayId, validatedData);
+      if (!bay) {
+        return res.status(404).json({ error: "Bay not found" });
+      }
+      res.json(bay);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/bays/:id", requirePermission("bay.manage"), async (req, res) => {
+    try {
+      const bayId = parseInt(req.params.id);
+      if (await storage.bayHasAppointments(bayId)) {
+        return res.status(400).json({ error: "This bay has bookings on record; deactivate it instead" });
+      }
+      await storage.deleteBay(bayId);
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/appointments", requireAuth, async (req, res) => {
+    try {
+      const entries = await storage.getAppointments({
+        from: parseOptionalDate(req.query.from),
+        to: parseOptionalDate(req.query.to),
+        bayId: parseOptionalId(req.query.bayId),
+        vehicleId: parseOptionalId(req.query.vehicleId),
+      });
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/appointments", requirePermission("appointment.manage"), async (req, res) => {
+    try {
+      const { plateNumber, vehicleId, durationMinutes, ...validatedData } = insertAppointmentSchema.parse(req.body);
+
+      const vehicle = vehicleId
+        ? await storage.getVehicle(vehicleId)
+        : plateNumber
+          ? await storage.getVehicleByPlate(plateNumber.toUpperCase())
+          : undefined;
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle with this plate number was not found" });
+      }
+
+      const slot: AppointmentSlot = {
+        bayId: validatedData.bayId,
+        vehicleId: vehicle.id,
+        startsAt: validatedData.startsAt,
+        endsAt: new Date(validatedData.startsAt.getTime() + durationMinutes * MINUTE_MS),
+      };
+      const problem = await findSlotProblem(slot);
+      if (problem) {
+        return res.status(problem.status).json({ error: problem.error });
+      }
+
+      const appointment = await storage.createAppointment({
+        ...validatedData,
+        endsAt: slot.endsAt,
+        vehicleId: vehicle.id,
+        customerId: vehicle.customerId,
+        createdBy: req.user?.id,
+      });
+      res.status(201).json(appointment);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/appointments/:id", requirePermission("appointment.manage"), async (req, res) => {
+    try {
+      const existing = await resolveAppointment(req, res);
+      if (!existing) {
+        return;
+      }
+
+      if (existing.status !== "booked") {
+        return res.status(400).json({ error: "Only booked appointments can be changed" });
+      }
+
+      const { durationMinutes, ...validatedData } = updateAppointmentSchema.parse(req.body);
+      const startsAt = validatedData.startsAt ?? existing.startsAt;
+      const duration = durationMinutes ?? (existing.endsAt.getTime() - existing.startsAt.getTime()) / MINUTE_MS;
+      const slot: AppointmentSlot = {
+        bayId: validatedData.bayId ?? existing.bayId,
+        vehicleId: existing.vehicleId,
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + duration * MINUTE_MS),
+        excludeId: existing.id,
+      };
+      const problem = await findSlotProblem(slot);
+      if (problem) {
+        return res.status(problem.status).json({ error: problem.error });
+      }
+
+      const appointment = await storage.updateAppointment(existing.id, { ...validatedData, endsAt: slot.endsAt });
+      res.json(appointment);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/appointments/:id/status", requirePermission("appointment.manage"), async (req, res) => {
+    try {
+      const existing = await resolveAppointment(req, res);
+      if (!existing) {
+        return;
+      }
+
+      if (existing.status === "checked_in") {
+        return res.status(400).json({ error: "This vehicle has already been checked in" });
+      }
+
+      const { status } = appointmentStatusChangeSchema.parse(req.body);
+      if (status === "booked") {
+        // Reinstating a cancelled booking must not double-book the slot it frees up again.
+        const problem = await findSlotProblem({ ...existing, excludeId: existing.id });
+        if (problem) {
+          return res.status(problem.status).json({ error: problem.error });
+        }
+      }
+
+      const appointment = await storage.updateAppointment(existing.id, { status });
+      res.json(appointment);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/appointments/:id/check-in", requirePermission("appointment.manage"), async (req, res) => {
+    try {
+      const existing = await resolveAppointment(req, res);
+      if (!existing) {
+        return;
+      }
+
+      if (existing.status !== "booked") {
+        return res.status(400).json({ error: "Only booked appointments can be checked in" });
+      }
+
+      const checkedIn = await storage.checkInAppointment(existing.id, {
+        vehicleId: existing.vehicleId,
+        customerId: existing.customerId,
+        serviceDate: new Date(),
+        workPerformed: existing.notes?.trim() || existing.serviceType || "Booked service",
+        serviceType: existing.serviceType,
+        status: "in_progress",
+        taxMode: taxSettings.mode,
+        taxRate: taxSettings.rate.toFixed(2),
+        createdBy: req.user?.id,
+      });
+      if (!checkedIn) {
+        return res.status(409).json({ error: "This appointment was updated by someone else; refresh and try again" });
+      }
+
+      const service = await applyIntervalProjection(checkedIn.service);
+      await storage.syncServiceReminder(service);
+
+      res.status(201).json({ appointment: checkedIn.appointment, service });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/reminders", requireAuth, async (req, res) => {
+    try {
+      const reminders = await storage.getReminders({
+        customerId: parseOptionalId(req.query.customerId),
+        vehicleId: parseOptionalId(req.query.vehicleId),
+        includeCompleted: req.query.includeCompleted === "true",
+      });
+      res.json(reminders);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/reminders/due", requireAuth, async (req, res) => {
+    try {
+      const requestedDays = parseOptionalId(req.query.days);
+      const days = requestedDays !== undefined && requestedDays >= 0 ? requestedDays : REMINDER_DUE_SOON_DAYS;
+      const reminders = await storage.getDueReminders(new Date(Date.now() + days * DAY_MS));
+      res.json(reminders);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/reminders", requirePermission("reminder.manage"), async (req, res) => {
+    try {
+      const validatedData = insertMaintenanceReminderSchema.parse(req.body);
+
+      if (validatedData.vehicleId) {
+        const vehicle = await storage.getVehicle(validatedData.vehicleId);
+        if (!vehicle || vehicle.customerId !== validatedData.customerId) {
+          return res.status(400).json({ error: "Vehicle does not belong to this customer" });
+        }
+      }
+
+      const reminder = await storage.createReminder({
+        ...validatedData,
+        createdBy: req.user?.id,
+      });
+      res.status(201).json(reminder);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/reminders/:id", requirePermission("reminder.manage"), async (req, res) => {
+    try {
+      const validatedData = updateMaintenanceReminderSchema.parse(req.body);
+      const reminder = await storage.updateReminder(parseInt(req.params.id), validatedData);
+      if (!reminder) {
+        return res.status(404).json({ error: "Reminder not found" });
+      }
+      res.json(reminder);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/reminders/:id/complete", requirePermission("reminder.manage"), async (req, res) => {
+    try {
+      const reminder = await storage.completeReminder(parseInt(req.params.id));
+      if (!reminder) {
+        return res.status(404).json({ error: "Reminder not found" });
+      }
+      res.json(reminder);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/reminders/:id", requirePermission("reminder.manage"), async (req, res) => {
+    try {
+      await storage.deleteReminder(parseInt(req.params.id));
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/tax-settings", requireAuth, (_req, res) => {
+    res.json({ ...taxSettings, sellerName: sellerProfile.name, sellerVatNumber: sellerProfile.vatNumber });
+  });
+
+  app.get("/api/service-intervals", requireAuth, async (_req, res) => {
+    try {
+      const rules = await storage.getServiceIntervalRules();
+      res.json(rules);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/service-intervals", requirePermission("interval.manage"), async (req, res) => {
+    try {
+      const validatedData = insertServiceIntervalRuleSchema.parse(req.body);
+      const existing = await storage.getServiceIntervalRuleByType(validatedData.serviceType);
+      if (existing) {
+        return res.status(400).json({ error: "An interval rule for this service type already exists" });
+      }
+      const rule = await storage.createServiceIntervalRule(validatedData);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/service-intervals/:id", requirePermission("interval.manage"), async (req, res) => {
+    try {
+      const ruleId = parseInt(req.params.id);
+      const existing = await storage.getServiceIntervalRule(ruleId);
+      if (!existing) {
+        return res.status(404).json({ error: "Interval rule not found" });
+      }
+
+      const validatedData = updateServiceIntervalRuleSchema.parse(req.body);
+      const merged = { ...existing, ...validatedData };
+      if (!merged.intervalKm && !merged.intervalMonths) {
+        return res.status(400).json({ error: "Provide a kilometre interval, a time interval, or both" });
+      }
+      if (validatedData.serviceType) {
+        const duplicate = await storage.getServiceIntervalRuleByType(validatedData.serviceType);
+        if (duplicate && duplicate.id !== ruleId) {
+          return res.status(400).json({ error: "An interval rule for this service type already exists" });
+        }
+      }
+
+      const rule = await storage.updateServiceIntervalRule(ruleId, validatedData);
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/service-intervals/:id", requirePermission("interval.manage"), async (req, res) => {
+    try {
+      await storage.deleteServiceIntervalRule(parseInt(req.params.id));
+      res.sendStatus(204);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
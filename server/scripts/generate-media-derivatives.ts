@@ -0,0 +1,61 @@
+import "dotenv/config";
+import { and, asc, eq, like, sql } from "drizzle-orm";
+import { serviceMedia } from "@shared/schema";
+import { db, pool } from "../db";
+import { createImageDerivatives } from "../media";
+
+// Writes thumbnail and medium copies for photos uploaded before derivatives existed.
+// --force regenerates every photo, e.g. after the sizes or quality settings change.
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.some((arg) => arg === "--dry-run" || arg === "-n");
+  const force = args.includes("--force");
+
+  const pending = await db
+    .select()
+    .from(serviceMedia)
+    .where(
+      force
+        ? like(serviceMedia.fileType, "image/%")
+        : and(like(serviceMedia.fileType, "image/%"), sql`${serviceMedia.derivatives} = '[]'::jsonb`),
+    )
+    .orderBy(asc(serviceMedia.id));
+
+  if (dryRun) {
+    pending.forEach((media) => console.log(`[dry run] #${media.id} ${media.relativePath}`));
+    console.log(`\n${pending.length} photo(s) would be processed.`);
+    return;
+  }
+
+  let processed = 0;
+  const skipped: string[] = [];
+
+  // One photo at a time, so a large backlog does not hold many decoded images in memory
+  for (const media of pending) {
+    const details = await createImageDerivatives(media);
+    if (details.derivatives.length === 0) {
+      skipped.push(`#${media.id} ${media.relativePath}`);
+      continue;
+    }
+
+    await db.update(serviceMedia).set(details).where(eq(serviceMedia.id, media.id));
+    processed += 1;
+    console.log(`#${media.id} ${media.relativePath}: ${details.width}×${details.height}`);
+  }
+
+  if (skipped.length > 0) {
+    console.log("\nNo derivatives (file missing or not a readable image; the original is still served):");
+    skipped.forEach((line) => console.log(`  ${line}`));
+  }
+
+  console.log(`\nCreated derivatives for ${processed} of ${pending.length} photo(s).`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to generate media derivatives:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await pool.end();
+  });
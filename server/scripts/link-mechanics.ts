@@ -0,0 +1,75 @@
+import "dotenv/config";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { services } from "@shared/schema";
+import { storage } from "../storage";
+import { db, pool } from "../db";
+import { matchUserByName } from "../utils/fuzzy-match";
+
+// Links services that only carry a typed `mechanicName` to the matching technician account.
+async function main() {
+  const dryRun = process.argv.slice(2).some((arg) => arg === "--dry-run" || arg === "-n");
+
+  const technicians = await storage.getTechnicians();
+  if (technicians.length === 0) {
+    console.error("No admin or mechanic accounts exist yet; create them before linking services.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const rows = await db
+    .selectDistinct({ mechanicName: services.mechanicName })
+    .from(services)
+    .where(and(isNull(services.assignedTechnicianId), isNotNull(services.mechanicName)));
+
+  let linkedServices = 0;
+  const unresolved: string[] = [];
+
+  for (const { mechanicName } of rows) {
+    if (!mechanicName?.trim()) {
+      continue;
+    }
+
+    const match = matchUserByName(mechanicName, technicians);
+    if (match.status === "unmatched") {
+      unresolved.push(`'${mechanicName}': no matching account`);
+      continue;
+    }
+    if (match.status === "ambiguous") {
+      const candidates = match.users.map((user) => `${user.name} (${user.username})`).join(", ");
+      unresolved.push(`'${mechanicName}': ambiguous between ${candidates}`);
+      continue;
+    }
+
+    const label = `'${mechanicName}' → ${match.user.name} (${match.user.username}), score ${match.score.toFixed(2)}`;
+    if (dryRun) {
+      console.log(`[dry run] ${label}`);
+      continue;
+    }
+
+    const updated = await db
+      .update(services)
+      .set({ assignedTechnicianId: match.user.id })
+      .where(and(eq(services.mechanicName, mechanicName), isNull(services.assignedTechnicianId)))
+      .returning({ id: services.id });
+    linkedServices += updated.length;
+    console.log(`${label}: ${updated.length} service(s)`);
+  }
+
+  if (unresolved.length > 0) {
+    console.log("\nLeft unassigned (edit these services by hand):");
+    unresolved.forEach((line) => console.log(`  ${line}`));
+  }
+
+  if (!dryRun) {
+    console.log(`\nLinked ${linkedServices} service(s) to technician accounts.`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to link mechanic names:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await pool.end();
+  });
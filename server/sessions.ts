@@ -0,0 +1,97 @@
+import { createHash } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ActiveSession, Session } from "@shared/schema";
+import { sessionTimeouts } from "./config";
+import { storage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// lastSeenAt is rewritten at most this often, so ordinary requests only touch the expiry
+const LAST_SEEN_RESOLUTION_MS = MINUTE_MS;
+
+type SessionMeta = {
+  createdAt: number;
+  lastSeenAt: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+declare module "express-session" {
+  interface SessionData {
+    // Device details shown on the sessions screen; only signed-in sessions carry them
+    meta?: SessionMeta;
+  }
+}
+
+// Rolling cookie lifetime: every request pushes the expiry out again, so this is the idle timeout
+export const sessionCookieMaxAge = sessionTimeouts.idleMinutes * MINUTE_MS;
+
+// Clients name a session by this hash so they never learn the id that authenticates it
+const publicSessionId = (sid: string): string => createHash("sha256").update(sid).digest("hex").slice(0, 32);
+
+const requestDetails = (req: Request) => ({
+  ipAddress: req.ip ?? null,
+  userAgent: req.get("user-agent") ?? null,
+});
+
+// Called on the freshly regenerated session right after sign-in
+export function startSessionMeta(req: Request) {
+  const now = Date.now();
+  req.session.meta = { createdAt: now, lastSeenAt: now, ...requestDetails(req) };
+}
+
+// Runs before passport restores the user: ends sessions past the absolute timeout and keeps lastSeenAt current.
+export function enforceSessionLifetime(req: Request, _res: Response, next: NextFunction) {
+  const now = Date.now();
+  const meta = req.session.meta;
+  if (!meta) {
+    // Sessions signed in before device details were recorded start their clock now
+    const { passport } = req.session as { passport?: { user?: string } };
+    if (passport?.user) {
+      startSessionMeta(req);
+    }
+    return next();
+  }
+
+  if (now - meta.createdAt > sessionTimeouts.absoluteHours * HOUR_MS) {
+    return req.session.regenerate((error) => next(error));
+  }
+  if (now - meta.lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+    req.session.meta = { ...meta, lastSeenAt: now, ...requestDetails(req) };
+  }
+  next();
+}
+
+const toActiveSession = (row: Session, currentSid: string | undefined): ActiveSession => {
+  const meta = (row.sess as { meta?: SessionMeta }).meta;
+  return {
+    id: publicSessionId(row.sid),
+    userAgent: meta?.userAgent ?? null,
+    ipAddress: meta?.ipAddress ?? null,
+    createdAt: meta ? new Date(meta.createdAt) : null,
+    lastSeenAt: meta ? new Date(meta.lastSeenAt) : null,
+    expiresAt: row.expire,
+    current: row.sid === currentSid,
+  };
+};
+
+export async function listUserSessions(userId: string, currentSid?: string): Promise<ActiveSession[]> {
+  const rows = await storage.getUserSessions(userId);
+  return rows
+    .map((row) => toActiveSession(row, currentSid))
+    .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+}
+
+// Returns false when the user has no live session with that id.
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const rows = await storage.getUserSessions(userId);
+  const target = rows.find((row) => publicSessionId(row.sid) === sessionId);
+  if (!target) {
+    return false;
+  }
+  await storage.deleteSession(target.sid);
+  return true;
+}
+
+// True when the public id names the session making the request
+export const isCurrentSession = (req: Request, sessionId: string): boolean => publicSessionId(req.sessionID) === sessionId;
@@ -1,11 +1,33 @@
 import {
   users,
+  session as sessions,
+  loginThrottles,
+  loginAttempts,
+  roleSettings,
+  apiTokens,
+  auditLog,
   customers,
   vehicles,
   services,
   serviceMedia,
+  serviceAuthorizations,
+  bays,
+  appointments,
+  timeEntries,
+  serviceItems,
+  maintenanceReminders,
+  serviceIntervalRules,
+  invoices,
+  payments,
+  estimates,
+  estimateItems,
   type User,
   type InsertUser,
+  type LoginThrottle,
+  type InsertLoginThrottle,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type LoginThrottleScope,
   type Customer,
   type InsertCustomer,
   type Vehicle,
@@ -14,9 +36,44 @@ import {
   type InsertService,
   type ServiceMedia,
   type InsertServiceMedia,
+  type UpdateServiceMedia,
+  type ServiceAuthorization,
+  type Bay,
+  type Appointment,
+  type TimeEntry,
+  type ServiceItem,
+  type InsertServiceItem,
+  type UpdateServiceItem,
+  type MaintenanceReminder,
+  type InsertMaintenanceReminder,
+  type UpdateMaintenanceReminder,
+  type ServiceIntervalRule,
+  type InsertServiceIntervalRule,
+  type UpdateServiceIntervalRule,
+  type Invoice,
+  type InsertInvoice,
+  type Payment,
+  type InsertPayment,
+  type Estimate,
+  type EstimateItem,
+  type EstimateStatus,
+  type ServiceItemInput,
+  type TaxMode,
+  type RoleSetting,
+  type UserRole,
+  type Session,
+  type ApiToken,
+  type InsertApiToken,
+  type AuditChanges,
+  type AuditEntity,
+  type AuditLogEntry,
 } from "@shared/schema";
+import { summarizeInvoicePayments, summarizeServiceTotals, toAmount, type TaxedServiceItem } from "@shared/pricing";
+import { clockedLaborChanges, type ProductivityEntry } from "@shared/time-clock";
 import { db } from "./db";
-import { eq, or, like, ilike, desc, sql, type SQL } from "drizzle-orm";
+import { levenshteinDistance } from "./utils/fuzzy-match";
+import { currentActor } from "./request-context";
+import { and, eq, ne, or, like, ilike, lt, gt, gte, lte, asc, desc, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
 import session from "express-session";
 import { pool } from "./db";
 import connectPg from "connect-pg-simple";
@@ -24,13 +81,188 @@ import connectPg from "connect-pg-simple";
 const PostgresSessionStore = connectPg(session);
 
 type ServiceInsert = typeof services.$inferInsert;
+type ServiceItemInsert = typeof serviceItems.$inferInsert;
+type EstimateInsert = typeof estimates.$inferInsert;
+type ServiceAuthorizationInsert = typeof serviceAuthorizations.$inferInsert;
+type BayInsert = typeof bays.$inferInsert;
+type TimeEntryInsert = typeof timeEntries.$inferInsert;
+type AppointmentInsert = typeof appointments.$inferInsert;
+type EstimateCostField = "laborCost" | "partsCost" | "taxAmount" | "totalCost";
 export type VehicleWithCustomer = {
   vehicle: Vehicle;
   customer: Customer | null;
 };
 
+export type ReminderFilters = {
+  customerId?: number;
+  vehicleId?: number;
+  includeCompleted?: boolean;
+};
+
+// Invoices keep their service and customer, so anything with an invoice cannot be deleted
+export type InvoiceScope = { serviceId: number } | { customerId: number } | { vehicleId: number };
+
+export type InvoiceWithPayments = {
+  invoice: Invoice;
+  payments: Payment[];
+};
+
+export type EstimateFilters = {
+  customerId?: number;
+  vehicleId?: number;
+  status?: EstimateStatus;
+};
+
+export type EstimateWithItems = {
+  estimate: Estimate;
+  items: EstimateItem[];
+};
+
+export type TechnicianSummary = Pick<User, "id" | "name" | "username">;
+
+export type UserUpdate = Partial<
+  Pick<
+    User,
+    | "name"
+    | "role"
+    | "active"
+    | "password"
+    | "mustChangePassword"
+    | "passwordChangedAt"
+    | "twoFactorSecret"
+    | "twoFactorEnabledAt"
+    | "twoFactorLastStep"
+    | "twoFactorRecoveryCodes"
+  >
+>;
+
+export type RoleSettingUpdate = Partial<Pick<RoleSetting, "requireTwoFactor" | "permissions">>;
+
+// Bytes of uploaded originals held by one service and on disk overall, with shared files counted once
+export type MediaStorageUsage = {
+  serviceBytes: number;
+  totalBytes: number;
+};
+
+export type AuditLogFilters = {
+  entityType?: AuditEntity;
+  entityId?: number;
+  // Everything recorded against a service: the service itself, its line items and its media
+  serviceId?: number;
+  actorId?: string;
+  // Matched against the record label, the actor's name and the IP address
+  search?: string;
+  from?: Date;
+  to?: Date;
+  // Entries older than this id, for paging back through the log
+  beforeId?: number;
+  limit: number;
+};
+
+export type ServiceFilters = {
+  // A user id, or null for services without an assigned technician
+  technicianId?: string | null;
+};
+
+export type TimeEntryWithTechnician = {
+  entry: TimeEntry;
+  technician: TechnicianSummary | null;
+};
+
+export type OpenJob = {
+  service: Service;
+  vehicle: Vehicle | null;
+};
+
+export type AppointmentFilters = {
+  from?: Date;
+  to?: Date;
+  bayId?: number;
+  vehicleId?: number;
+};
+
+export type AppointmentWithContext = {
+  appointment: Appointment;
+  bay: Bay | null;
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+};
+
+export type AppointmentSlot = {
+  bayId: number;
+  vehicleId: number;
+  startsAt: Date;
+  endsAt: Date;
+  excludeId?: number;
+};
+
+export type ReminderWithContext = {
+  reminder: MaintenanceReminder;
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+};
+
 const MIN_SUBSTRING_LENGTH = 3;
 
+const toNumericString = (value: number | undefined): string | undefined =>
+  value !== undefined ? value.toFixed(2) : undefined;
+
+const normalizeServiceItem = (item: UpdateServiceItem): Partial<ServiceItemInsert> => ({
+  ...item,
+  quantity: toNumericString(item.quantity),
+  unitCost: toNumericString(item.unitCost),
+  laborHours: toNumericString(item.laborHours),
+  laborRate: toNumericString(item.laborRate),
+  taxRate: item.taxRate === null ? null : toNumericString(item.taxRate),
+});
+
+const calculateEstimateCosts = (
+  taxMode: TaxMode,
+  taxRate: string | number,
+  items: Array<Partial<TaxedServiceItem>>,
+): Pick<EstimateInsert, EstimateCostField> => {
+  const totals = summarizeServiceTotals(
+    { laborCost: 0, partsCost: 0, taxMode, taxRate },
+    items.map(({ quantity, unitCost, laborHours, laborRate, taxRate: itemTaxRate }) => ({
+      quantity,
+      unitCost,
+      laborHours,
+      laborRate,
+      taxRate: itemTaxRate,
+    })),
+  );
+  return {
+    laborCost: totals.laborCost.toFixed(2),
+    partsCost: totals.partsCost.toFixed(2),
+    taxAmount: totals.taxTotal.toFixed(2),
+    totalCost: totals.grossTotal.toFixed(2),
+  };
+};
+
+// Hours clocked against each line item across all completed time entries.
+async function sumClockedHoursByItem(itemIds: number[]): Promise<Map<number, number>> {
+  if (itemIds.length === 0) {
+    return new Map();
+  }
+
+  const totals = await db
+    .select({
+      serviceItemId: timeEntries.serviceItemId,
+      seconds: sql<string>`coalesce(sum(extract(epoch from ${timeEntries.endedAt} - ${timeEntries.startedAt})), 0)`,
+    })
+    .from(timeEntries)
+    .where(and(inArray(timeEntries.serviceItemId, itemIds), isNotNull(timeEntries.endedAt)))
+    .groupBy(timeEntries.serviceItemId);
+
+  const hoursByItem = new Map<number, number>();
+  for (const row of totals) {
+    if (row.serviceItemId !== null) {
+      hoursByItem.set(row.serviceItemId, (Number.parseFloat(row.seconds) || 0) / 3600);
+    }
+  }
+  return hoursByItem;
+}
+
 const escapeLikePattern = (value: string): string => value.replace(/[%_]/g, (match) => `\\${match}`);
 
 const buildFuzzyPatterns = (value: string): string[] => {
@@ -82,48 +314,6 @@ const buildDigitPatterns = (value: string): string[] => {
   return Array.from(candidates.values());
 };
 
-const levenshteinDistance = (a: string, b: string): number => {
-  if (a === b) {
-    return 0;
-  }
-
-  const aLength = a.length;
-  const bLength = b.length;
-
-  if (aLength === 0) {
-    return bLength;
-  }
-
-  if (bLength === 0) {
-    return aLength;
-  }
-
-  const matrix: number[][] = Array.from({ length: aLength + 1 }, () => new Array<number>(bLength + 1));
-
-  for (let i = 0; i <= aLength; i += 1) {
-    matrix[i][0] = i;
-  }
-
-  for (let j = 0; j <= bLength; j += 1) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= aLength; i += 1) {
-    const charA = a.charCodeAt(i - 1);
-    for (let j = 1; j <= bLength; j += 1) {
-      const charB = b.charCodeAt(j - 1);
-      const cost = charA === charB ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1,
-        matrix[i][j - 1] + 1,
-        matrix[i - 1][j - 1] + cost,
-      );
-    }
-  }
-
-  return matrix[aLength][bLength];
-};
-
 const computeCandidateScore = (
   normalizedTerm: string,
   digitOnlyTerm: string,
@@ -179,6 +369,202 @@ const computeCandidateScore = (
   return 1 - clamped;
 };
 
+const serviceFilterConditions = (filters: ServiceFilters): SQL[] => {
+  const conditions: SQL[] = [];
+  if (filters.technicianId === null) {
+    conditions.push(isNull(services.assignedTechnicianId));
+  } else if (filters.technicianId !== undefined) {
+    conditions.push(eq(services.assignedTechnicianId, filters.technicianId));
+  }
+  return conditions;
+};
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type AuditedRecords = {
+  customer: Customer;
+  vehicle: Vehicle;
+  service: Service;
+  service_item: ServiceItem;
+  service_media: ServiceMedia;
+};
+
+type AuditSubject = Pick<AuditLogEntry, "entityId" | "serviceId" | "label">;
+
+const auditSubjects: { [K in AuditEntity]: (record: AuditedRecords[K]) => AuditSubject } = {
+  customer: (customer) => ({ entityId: customer.id, serviceId: null, label: customer.name }),
+  vehicle: (vehicle) => ({
+    entityId: vehicle.id,
+    serviceId: null,
+    label: `${vehicle.make} ${vehicle.model} (${vehicle.plateNumber})`,
+  }),
+  service: (service) => ({ entityId: service.id, serviceId: service.id, label: `Service #${service.id}` }),
+  service_item: (item) => ({ entityId: item.id, serviceId: item.serviceId, label: item.description }),
+  service_media: (media) => ({ entityId: media.id, serviceId: media.serviceId, label: media.fileName }),
+};
+
+// Bumped on every write or generated from the upload, so they would only add noise to each entry
+const AUDIT_IGNORED_FIELDS = new Set(["updatedAt", "derivatives", "sha256"]);
+
+const toAuditValue = (value: unknown): unknown => (value instanceof Date ? value.toISOString() : value ?? null);
+
+const diffAuditRecords = (before: object | undefined, after: object | undefined): AuditChanges => {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+  for (const field of Array.from(new Set(Object.keys(previous).concat(Object.keys(next))))) {
+    if (AUDIT_IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const beforeValue = toAuditValue(previous[field]);
+    const afterValue = toAuditValue(next[field]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+  return changes;
+};
+
+// Appends one audit entry: no `before` for a create, no `after` for a delete. Updates that change nothing
+// are skipped. Pass the transaction so the entry is only kept when the change itself commits.
+async function recordAudit<K extends AuditEntity>(
+  executor: DbExecutor,
+  entityType: K,
+  before: AuditedRecords[K] | undefined,
+  after: AuditedRecords[K] | undefined,
+): Promise<void> {
+  const record = after ?? before;
+  if (!record) {
+    return;
+  }
+
+  const action = !before ? "create" : !after ? "delete" : "update";
+  const changes = diffAuditRecords(before, after);
+  if (action === "update" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const actor = currentActor();
+  await executor.insert(auditLog).values({
+    entityType,
+    ...auditSubjects[entityType](record),
+    action,
+    changes,
+    actorId: actor.userId,
+    actorName: actor.name,
+    ipAddress: actor.ipAddress,
+  });
+}
+
+// The foreign keys cascade a delete to the services and their items and media without any audit entry, so
+// each of those rows gets its own delete entry first. The services are locked so no item or photo is added
+// to them in the meantime.
+async function recordCascadedDeletes(executor: DbExecutor, removedServices: SQL): Promise<Service[]> {
+  const doomed = await executor
+    .select()
+    .from(services)
+    .where(removedServices)
+    .orderBy(asc(services.id))
+    .for("update");
+  if (doomed.length === 0) {
+    return [];
+  }
+
+  const serviceIds = doomed.map((service) => service.id);
+  const items = await executor
+    .select()
+    .from(serviceItems)
+    .where(inArray(serviceItems.serviceId, serviceIds))
+    .orderBy(asc(serviceItems.id));
+  const media = await executor
+    .select()
+    .from(serviceMedia)
+    .where(inArray(serviceMedia.serviceId, serviceIds))
+    .orderBy(asc(serviceMedia.id));
+  for (const item of items) {
+    await recordAudit(executor, "service_item", item, undefined);
+  }
+  for (const entry of media) {
+    await recordAudit(executor, "service_media", entry, undefined);
+  }
+  return doomed;
+}
+
+// Inserts media rows as part of the caller's transaction
+async function insertServiceMedia(
+  executor: DbExecutor,
+  mediaEntries: InsertServiceMedia[],
+): Promise<ServiceMedia[]> {
+  if (mediaEntries.length === 0) {
+    return [];
+  }
+
+  // Identical content is stored once: an entry whose hash is already stored points at that file
+  // instead, and the caller discards its own copy. The stored row is locked so it cannot be deleted,
+  // and its file removed, before this transaction commits.
+  const storedByHash = new Map<string, InsertServiceMedia>();
+  const deduplicated: InsertServiceMedia[] = [];
+  for (const entry of mediaEntries) {
+    if (!entry.sha256) {
+      deduplicated.push(entry);
+      continue;
+    }
+    let stored = storedByHash.get(entry.sha256);
+    if (!stored) {
+      [stored] = await executor
+        .select()
+        .from(serviceMedia)
+        .where(eq(serviceMedia.sha256, entry.sha256))
+        .orderBy(asc(serviceMedia.id))
+        .limit(1)
+        .for("update");
+    }
+    const shared = stored
+      ? {
+          ...entry,
+          fileType: stored.fileType,
+          fileSize: stored.fileSize,
+          relativePath: stored.relativePath,
+          width: stored.width,
+          height: stored.height,
+          capturedAt: stored.capturedAt,
+          derivatives: stored.derivatives,
+        }
+      : entry;
+    storedByHash.set(entry.sha256, shared);
+    deduplicated.push(shared);
+  }
+
+  // Entries without an explicit position go after the service's existing files, in upload order
+  const nextSortOrder = new Map<number, number>();
+  const positioned: InsertServiceMedia[] = [];
+  for (const entry of deduplicated) {
+    if (entry.sortOrder !== undefined) {
+      positioned.push(entry);
+      continue;
+    }
+    let next = nextSortOrder.get(entry.serviceId);
+    if (next === undefined) {
+      const [{ last }] = await executor
+        .select({ last: sql<number>`coalesce(max(${serviceMedia.sortOrder}), -1)` })
+        .from(serviceMedia)
+        .where(eq(serviceMedia.serviceId, entry.serviceId));
+      next = Number(last) + 1;
+    }
+    positioned.push({ ...entry, sortOrder: next });
+    nextSortOrder.set(entry.serviceId, next + 1);
+  }
+
+  const created = await executor.insert(serviceMedia).values(positioned).returning();
+  for (const media of created) {
+    await recordAudit(executor, "service_media", undefined, media);
+  }
+  return created;
+}
+
+// connect-pg-simple stores the serialized passport user id inside the session JSON
+const sessionBelongsTo = (userId: string): SQL => sql`${sessions.sess} -> 'passport' ->> 'user' = ${userId}`;
+
 export interface IStorage {
   sessionStore: session.Store;
   
@@ -186,6 +572,33 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: UserUpdate): Promise<User | undefined>;
+  recordUserLogin(id: string): Promise<void>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  countActiveAdmins(): Promise<number>;
+  claimTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  getRoleSettings(): Promise<RoleSetting[]>;
+  getRoleSetting(role: UserRole): Promise<RoleSetting | undefined>;
+  saveRoleSetting(role: UserRole, updates: RoleSettingUpdate): Promise<RoleSetting>;
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  deleteApiToken(userId: string, id: number): Promise<ApiToken | undefined>;
+  recordApiTokenUse(id: number, ipAddress: string | null): Promise<void>;
+  getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+
+  getLoginThrottles(username: string, ipAddress: string): Promise<LoginThrottle[]>;
+  saveLoginThrottle(throttle: InsertLoginThrottle): Promise<LoginThrottle>;
+  clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void>;
+  getActiveLockouts(now: Date): Promise<LoginThrottle[]>;
+  deleteLoginThrottle(id: number): Promise<LoginThrottle | undefined>;
+  pruneLoginThrottles(staleBefore: Date): Promise<void>;
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void>;
+  getFailedLoginAttempts(limit: number): Promise<LoginAttempt[]>;
+  getTechnicians(): Promise<TechnicianSummary[]>;
   
   getCustomers(): Promise<Customer[]>;
   getCustomer(id: number): Promise<Customer | undefined>;
@@ -206,13 +619,108 @@ export interface IStorage {
   deleteVehicle(id: number): Promise<void>;
   searchVehicleCandidates(term: string, limit?: number): Promise<VehicleWithCustomer[]>;
   
-  getServices(): Promise<Service[]>;
+  getServices(filters?: ServiceFilters): Promise<Service[]>;
   getService(id: number): Promise<Service | undefined>;
-  getServicesByVehicle(vehicleId: number): Promise<Service[]>;
-  getServicesByCustomer(customerId: number): Promise<Service[]>;
-  createService(service: InsertService): Promise<Service>;
+  getServicesByVehicle(vehicleId: number, filters?: ServiceFilters): Promise<Service[]>;
+  getServicesByCustomer(customerId: number, filters?: ServiceFilters): Promise<Service[]>;
+  createService(service: InsertService, items?: ServiceItemInput[]): Promise<Service>;
+  updateService(id: number, service: Partial<ServiceInsert>): Promise<Service | undefined>;
+  deleteService(id: number): Promise<void>;
   addServiceMedia(media: InsertServiceMedia[]): Promise<ServiceMedia[]>;
   getServiceMedia(serviceId: number): Promise<ServiceMedia[]>;
+  getServiceMediaEntry(id: number): Promise<ServiceMedia | undefined>;
+  updateServiceMedia(id: number, updates: UpdateServiceMedia): Promise<ServiceMedia | undefined>;
+  reorderServiceMedia(serviceId: number, mediaIds: number[]): Promise<ServiceMedia[]>;
+  deleteServiceMedia(id: number): Promise<ServiceMedia | undefined>;
+  getCustomerMedia(customerId: number): Promise<ServiceMedia[]>;
+  getVehicleMedia(vehicleId: number): Promise<ServiceMedia[]>;
+  getMediaByHash(hashes: string[]): Promise<ServiceMedia[]>;
+  getUnusedMedia(entries: ServiceMedia[]): Promise<ServiceMedia[]>;
+  getMediaStorageUsage(serviceId?: number): Promise<MediaStorageUsage>;
+
+  getServiceAuthorizations(serviceId: number): Promise<ServiceAuthorization[]>;
+  createServiceAuthorization(
+    authorization: ServiceAuthorizationInsert,
+    signature?: InsertServiceMedia,
+  ): Promise<{ authorization: ServiceAuthorization; signature?: ServiceMedia }>;
+
+  getServiceItems(serviceId: number): Promise<ServiceItem[]>;
+  getServiceItem(id: number): Promise<ServiceItem | undefined>;
+  createServiceItems(items: InsertServiceItem[]): Promise<ServiceItem[]>;
+  updateServiceItem(id: number, item: UpdateServiceItem): Promise<ServiceItem | undefined>;
+  deleteServiceItem(id: number): Promise<void>;
+  recalculateServiceCosts(serviceId: number): Promise<Service | undefined>;
+
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getInvoiceByService(serviceId: number): Promise<Invoice | undefined>;
+  getInvoicesByCustomer(customerId: number): Promise<InvoiceWithPayments[]>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice | undefined>;
+  getPayments(invoiceId: number): Promise<Payment[]>;
+  recordPayment(payment: InsertPayment): Promise<Payment>;
+  voidInvoice(id: number): Promise<Invoice | undefined>;
+  hasInvoices(scope: InvoiceScope): Promise<boolean>;
+
+  getEstimates(filters?: EstimateFilters): Promise<Estimate[]>;
+  getEstimate(id: number): Promise<EstimateWithItems | undefined>;
+  getEstimateByService(serviceId: number): Promise<EstimateWithItems | undefined>;
+  createEstimate(
+    estimate: Omit<EstimateInsert, EstimateCostField>,
+    items: ServiceItemInput[],
+  ): Promise<EstimateWithItems>;
+  updateEstimate(
+    id: number,
+    estimate: Partial<Omit<EstimateInsert, EstimateCostField>>,
+    items?: ServiceItemInput[],
+  ): Promise<EstimateWithItems | undefined>;
+  deleteEstimate(id: number): Promise<void>;
+  approveEstimate(id: number, approvedBy?: string): Promise<{ estimate: Estimate; service: Service } | undefined>;
+
+  getTimeEntries(serviceId: number): Promise<TimeEntryWithTechnician[]>;
+  getTimeEntry(id: number): Promise<TimeEntry | undefined>;
+  getOpenTimeEntry(technicianId: string): Promise<TimeEntry | undefined>;
+  createTimeEntry(entry: TimeEntryInsert): Promise<TimeEntry | undefined>;
+  updateTimeEntry(id: number, entry: Partial<TimeEntryInsert>): Promise<TimeEntry | undefined>;
+  deleteTimeEntry(id: number): Promise<void>;
+  findOrCreateLaborItem(serviceId: number, technician: TechnicianSummary, laborRate: number): Promise<ServiceItem>;
+  syncClockedLabor(serviceId: number, serviceItemIds: number[]): Promise<Service | undefined>;
+  getProductivityEntries(from: Date, to: Date): Promise<ProductivityEntry[]>;
+  getOpenJobs(): Promise<OpenJob[]>;
+
+  getBays(): Promise<Bay[]>;
+  getBay(id: number): Promise<Bay | undefined>;
+  createBay(bay: BayInsert): Promise<Bay>;
+  updateBay(id: number, bay: Partial<BayInsert>): Promise<Bay | undefined>;
+  deleteBay(id: number): Promise<void>;
+  bayHasAppointments(id: number): Promise<boolean>;
+
+  getAppointments(filters?: AppointmentFilters): Promise<AppointmentWithContext[]>;
+  getAppointment(id: number): Promise<Appointment | undefined>;
+  findAppointmentConflicts(slot: AppointmentSlot): Promise<Appointment[]>;
+  createAppointment(appointment: AppointmentInsert): Promise<Appointment>;
+  updateAppointment(id: number, appointment: Partial<AppointmentInsert>): Promise<Appointment | undefined>;
+  checkInAppointment(
+    id: number,
+    service: ServiceInsert,
+  ): Promise<{ appointment: Appointment; service: Service } | undefined>;
+
+  getReminders(filters?: ReminderFilters): Promise<MaintenanceReminder[]>;
+  getReminder(id: number): Promise<MaintenanceReminder | undefined>;
+  getDueReminders(dueBefore: Date): Promise<ReminderWithContext[]>;
+  createReminder(reminder: InsertMaintenanceReminder): Promise<MaintenanceReminder>;
+  updateReminder(id: number, reminder: UpdateMaintenanceReminder): Promise<MaintenanceReminder | undefined>;
+  completeReminder(id: number): Promise<MaintenanceReminder | undefined>;
+  deleteReminder(id: number): Promise<void>;
+  syncServiceReminder(service: Service): Promise<MaintenanceReminder | undefined>;
+
+  getServiceIntervalRules(): Promise<ServiceIntervalRule[]>;
+  getServiceIntervalRule(id: number): Promise<ServiceIntervalRule | undefined>;
+  getServiceIntervalRuleByType(serviceType: string): Promise<ServiceIntervalRule | undefined>;
+  createServiceIntervalRule(rule: InsertServiceIntervalRule): Promise<ServiceIntervalRule>;
+  updateServiceIntervalRule(
+    id: number,
+    rule: UpdateServiceIntervalRule,
+  ): Promise<ServiceIntervalRule | undefined>;
+  deleteServiceIntervalRule(id: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -223,7 +731,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUsers(): Promise<User[]> {
-    return await db.select().from(users);
+    return await db.select().from(users).orderBy(asc(users.name));
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -245,6 +753,229 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: UserUpdate): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
+  async recordUserLogin(id: string): Promise<void> {
+    await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, id));
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(sessionBelongsTo(userId), gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const conditions: SQL[] = [sessionBelongsTo(userId)];
+    if (exceptSessionId) {
+      conditions.push(ne(sessions.sid, exceptSessionId));
+    }
+    const deleted = await db
+      .delete(sessions)
+      .where(and(...conditions))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  // Conditional updates so two requests racing with the same code cannot both succeed
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await db
+      .update(users)
+      .set({ twoFactorLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const consumed = await db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: sql`array_remove(${users.twoFactorRecoveryCodes}, ${codeHash})` })
+      .where(and(eq(users.id, userId), sql`${codeHash} = any(${users.twoFactorRecoveryCodes})`))
+      .returning({ id: users.id });
+    return consumed.length > 0;
+  }
+
+  async getRoleSettings(): Promise<RoleSetting[]> {
+    return await db.select().from(roleSettings);
+  }
+
+  async getRoleSetting(role: UserRole): Promise<RoleSetting | undefined> {
+    const [setting] = await db.select().from(roleSettings).where(eq(roleSettings.role, role));
+    return setting || undefined;
+  }
+
+  async saveRoleSetting(role: UserRole, updates: RoleSettingUpdate): Promise<RoleSetting> {
+    const [saved] = await db
+      .insert(roleSettings)
+      .values({ role, ...updates, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: roleSettings.role,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return await db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  // Scoped to the owner so one user cannot revoke another's token by guessing ids
+  async deleteApiToken(userId: string, id: number): Promise<ApiToken | undefined> {
+    const [deleted] = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async recordApiTokenUse(id: number, ipAddress: string | null): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date(), lastUsedIp: ipAddress }).where(eq(apiTokens.id, id));
+  }
+
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.entityType) {
+      conditions.push(eq(auditLog.entityType, filters.entityType));
+    }
+    if (filters.entityId !== undefined) {
+      conditions.push(eq(auditLog.entityId, filters.entityId));
+    }
+    if (filters.serviceId !== undefined) {
+      conditions.push(eq(auditLog.serviceId, filters.serviceId));
+    }
+    if (filters.actorId) {
+      conditions.push(eq(auditLog.actorId, filters.actorId));
+    }
+    if (filters.search) {
+      const pattern = `%${escapeLikePattern(filters.search)}%`;
+      conditions.push(
+        or(ilike(auditLog.label, pattern), ilike(auditLog.actorName, pattern), ilike(auditLog.ipAddress, pattern))!,
+      );
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLog.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lt(auditLog.createdAt, filters.to));
+    }
+    if (filters.beforeId !== undefined) {
+      conditions.push(lt(auditLog.id, filters.beforeId));
+    }
+
+    return await db
+      .select()
+      .from(auditLog)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.id))
+      .limit(filters.limit);
+  }
+
+  async getLoginThrottles(username: string, ipAddress: string): Promise<LoginThrottle[]> {
+    return await db
+      .select()
+      .from(loginThrottles)
+      .where(
+        or(
+          and(eq(loginThrottles.scope, "username"), eq(loginThrottles.key, username)),
+          and(eq(loginThrottles.scope, "ip"), eq(loginThrottles.key, ipAddress)),
+        ),
+      );
+  }
+
+  async saveLoginThrottle(throttle: InsertLoginThrottle): Promise<LoginThrottle> {
+    const [saved] = await db
+      .insert(loginThrottles)
+      .values(throttle)
+      .onConflictDoUpdate({
+        target: [loginThrottles.scope, loginThrottles.key],
+        set: {
+          failures: throttle.failures,
+          lastFailedAt: throttle.lastFailedAt,
+          lockedUntil: throttle.lockedUntil ?? null,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void> {
+    await db.delete(loginThrottles).where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+  }
+
+  async getActiveLockouts(now: Date): Promise<LoginThrottle[]> {
+    return await db
+      .select()
+      .from(loginThrottles)
+      .where(gt(loginThrottles.lockedUntil, now))
+      .orderBy(desc(loginThrottles.lastFailedAt));
+  }
+
+  async deleteLoginThrottle(id: number): Promise<LoginThrottle | undefined> {
+    const [deleted] = await db.delete(loginThrottles).where(eq(loginThrottles.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async pruneLoginThrottles(staleBefore: Date): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(
+        and(
+          lt(loginThrottles.lastFailedAt, staleBefore),
+          or(isNull(loginThrottles.lockedUntil), lt(loginThrottles.lockedUntil, staleBefore)),
+        ),
+      );
+  }
+
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    await db.insert(loginAttempts).values(attempt);
+  }
+
+  async getFailedLoginAttempts(limit: number): Promise<LoginAttempt[]> {
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(ne(loginAttempts.outcome, "success"))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit);
+  }
+
+  async countActiveAdmins(): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(and(eq(users.role, "admin"), eq(users.active, true)));
+    return row?.count ?? 0;
+  }
+
+  async getTechnicians(): Promise<TechnicianSummary[]> {
+    return await db
+      .select({ id: users.id, name: users.name, username: users.username })
+      .from(users)
+      .where(and(inArray(users.role, ["admin", "mechanic"]), eq(users.active, true)))
+      .orderBy(asc(users.name));
+  }
+
   async getCustomers(): Promise<Customer[]> {
     return await db.select().from(customers).orderBy(desc(customers.createdAt));
   }
@@ -260,21 +991,52 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const [newCustomer] = await db.insert(customers).values(customer).returning();
-    return newCustomer;
+    return await db.transaction(async (tx) => {
+      const [newCustomer] = await tx.insert(customers).values(customer).returning();
+      await recordAudit(tx, "customer", undefined, newCustomer);
+      return newCustomer;
+    });
   }
 
   async updateCustomer(id: number, customer: InsertCustomer): Promise<Customer | undefined> {
-    const [updated] = await db
-      .update(customers)
-      .set(customer)
-      .where(eq(customers.id, id))
-      .returning();
-    return updated || undefined;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(customers).where(eq(customers.id, id)).for("update");
+      if (!existing) {
+        return undefined;
+      }
+      const [updated] = await tx
+        .update(customers)
+        .set(customer)
+        .where(eq(customers.id, id))
+        .returning();
+      await recordAudit(tx, "customer", existing, updated);
+      return updated;
+    });
   }
 
   async deleteCustomer(id: number): Promise<void> {
-    await db.delete(customers).where(eq(customers.id, id));
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(customers).where(eq(customers.id, id)).for("update");
+      if (!existing) {
+        return;
+      }
+      const customerVehicles = await tx
+        .select()
+        .from(vehicles)
+        .where(eq(vehicles.customerId, id))
+        .orderBy(asc(vehicles.id))
+        .for("update");
+      const customerServices = await recordCascadedDeletes(tx, eq(services.customerId, id));
+      for (const service of customerServices) {
+        await recordAudit(tx, "service", service, undefined);
+      }
+      for (const vehicle of customerVehicles) {
+        await recordAudit(tx, "vehicle", vehicle, undefined);
+      }
+
+      const [deleted] = await tx.delete(customers).where(eq(customers.id, id)).returning();
+      await recordAudit(tx, "customer", deleted, undefined);
+    });
   }
 
   async searchCustomers(query: string): Promise<Customer[]> {
@@ -336,21 +1098,43 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
-    const [newVehicle] = await db.insert(vehicles).values(vehicle).returning();
-    return newVehicle;
+    return await db.transaction(async (tx) => {
+      const [newVehicle] = await tx.insert(vehicles).values(vehicle).returning();
+      await recordAudit(tx, "vehicle", undefined, newVehicle);
+      return newVehicle;
+    });
   }
 
   async updateVehicle(id: number, vehicle: InsertVehicle): Promise<Vehicle | undefined> {
-    const [updated] = await db
-      .update(vehicles)
-      .set(vehicle)
-      .where(eq(vehicles.id, id))
-      .returning();
-    return updated || undefined;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(vehicles).where(eq(vehicles.id, id)).for("update");
+      if (!existing) {
+        return undefined;
+      }
+      const [updated] = await tx
+        .update(vehicles)
+        .set(vehicle)
+        .where(eq(vehicles.id, id))
+        .returning();
+      await recordAudit(tx, "vehicle", existing, updated);
+      return updated;
+    });
   }
 
   async deleteVehicle(id: number): Promise<void> {
-    await db.delete(vehicles).where(eq(vehicles.id, id));
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(vehicles).where(eq(vehicles.id, id)).for("update");
+      if (!existing) {
+        return;
+      }
+      const vehicleServices = await recordCascadedDeletes(tx, eq(services.vehicleId, id));
+      for (const service of vehicleServices) {
+        await recordAudit(tx, "service", service, undefined);
+      }
+
+      const [deleted] = await tx.delete(vehicles).where(eq(vehicles.id, id)).returning();
+      await recordAudit(tx, "vehicle", deleted, undefined);
+    });
   }
 
   async searchVehicleCandidates(term: string, limit = 5): Promise<VehicleWithCustomer[]> {
@@ -426,8 +1210,13 @@ export class DatabaseStorage implements IStorage {
       .map((entry) => entry.record);
   }
 
-  async getServices(): Promise<Service[]> {
-    return await db.select().from(services).orderBy(desc(services.serviceDate));
+  async getServices(filters: ServiceFilters = {}): Promise<Service[]> {
+    const conditions = serviceFilterConditions(filters);
+    return await db
+      .select()
+      .from(services)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(services.serviceDate));
   }
 
   async getService(id: number): Promise<Service | undefined> {
@@ -435,23 +1224,24 @@ export class DatabaseStorage implements IStorage {
     return service || undefined;
   }
 
-  async getServicesByVehicle(vehicleId: number): Promise<Service[]> {
+  async getServicesByVehicle(vehicleId: number, filters: ServiceFilters = {}): Promise<Service[]> {
     return await db
       .select()
       .from(services)
-      .where(eq(services.vehicleId, vehicleId))
+      .where(and(eq(services.vehicleId, vehicleId), ...serviceFilterConditions(filters)))
       .orderBy(desc(services.serviceDate));
   }
 
-  async getServicesByCustomer(customerId: number): Promise<Service[]> {
+  async getServicesByCustomer(customerId: number, filters: ServiceFilters = {}): Promise<Service[]> {
     return await db
       .select()
       .from(services)
-      .where(eq(services.customerId, customerId))
+      .where(and(eq(services.customerId, customerId), ...serviceFilterConditions(filters)))
       .orderBy(desc(services.serviceDate));
   }
 
-  async createService(service: InsertService): Promise<Service> {
+  // Inserts the service with its line items and their totals in one transaction
+  async createService(service: InsertService, items: ServiceItemInput[] = []): Promise<Service> {
     const normalizedService: ServiceInsert = {
       ...service,
       laborCost:
@@ -466,10 +1256,71 @@ export class DatabaseStorage implements IStorage {
         service.totalCost !== undefined && service.totalCost !== null
           ? String(service.totalCost)
           : "0",
+      taxRate: toNumericString(service.taxRate),
     };
 
-    const [newService] = await db.insert(services).values(normalizedService).returning();
-    return newService;
+    return await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(services).values(normalizedService).returning();
+
+      const createdItems = items.length
+        ? await tx
+            .insert(serviceItems)
+            .values(
+              items.map((item) => ({
+                ...normalizeServiceItem(item),
+                serviceId: inserted.id,
+                description: item.description,
+              })),
+            )
+            .returning()
+        : [];
+
+      const totals = summarizeServiceTotals(inserted, createdItems);
+      const [newService] = await tx
+        .update(services)
+        .set({
+          laborCost: totals.laborCost.toFixed(2),
+          partsCost: totals.partsCost.toFixed(2),
+          taxAmount: totals.taxTotal.toFixed(2),
+          totalCost: totals.grossTotal.toFixed(2),
+        })
+        .where(eq(services.id, inserted.id))
+        .returning();
+
+      await recordAudit(tx, "service", undefined, newService);
+      for (const createdItem of createdItems) {
+        await recordAudit(tx, "service_item", undefined, createdItem);
+      }
+      return newService;
+    });
+  }
+
+  async updateService(id: number, service: Partial<ServiceInsert>): Promise<Service | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(services).where(eq(services.id, id)).for("update");
+      if (!existing) {
+        return undefined;
+      }
+      const [updated] = await tx
+        .update(services)
+        .set({ ...service, updatedAt: new Date() })
+        .where(eq(services.id, id))
+        .returning();
+      await recordAudit(tx, "service", existing, updated);
+      return updated;
+    });
+  }
+
+  async deleteService(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [existing] = await recordCascadedDeletes(tx, eq(services.id, id));
+      if (!existing) {
+        return;
+      }
+
+      const [deleted] = await tx.delete(services).where(eq(services.id, id)).returning();
+      await recordAudit(tx, "service", deleted, undefined);
+    });
   }
 
   async addServiceMedia(mediaEntries: InsertServiceMedia[]): Promise<ServiceMedia[]> {
@@ -477,7 +1328,7 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
 
-    return await db.insert(serviceMedia).values(mediaEntries).returning();
+    return await db.transaction(async (tx) => await insertServiceMedia(tx, mediaEntries));
   }
 
   async getServiceMedia(serviceId: number): Promise<ServiceMedia[]> {
@@ -485,7 +1336,975 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(serviceMedia)
       .where(eq(serviceMedia.serviceId, serviceId))
-      .orderBy(desc(serviceMedia.createdAt));
+      .orderBy(asc(serviceMedia.sortOrder), asc(serviceMedia.createdAt), asc(serviceMedia.id));
+  }
+
+  async getServiceMediaEntry(id: number): Promise<ServiceMedia | undefined> {
+    const [entry] = await db.select().from(serviceMedia).where(eq(serviceMedia.id, id));
+    return entry || undefined;
+  }
+
+  async updateServiceMedia(id: number, updates: UpdateServiceMedia): Promise<ServiceMedia | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(serviceMedia).where(eq(serviceMedia.id, id)).for("update");
+      if (!existing) {
+        return undefined;
+      }
+
+      // Making a file the cover takes the flag away from the service's previous cover
+      if (updates.isCover && !existing.isCover) {
+        const previousCovers = await tx
+          .update(serviceMedia)
+          .set({ isCover: false })
+          .where(and(eq(serviceMedia.serviceId, existing.serviceId), eq(serviceMedia.isCover, true)))
+          .returning();
+        for (const previous of previousCovers) {
+          await recordAudit(tx, "service_media", { ...previous, isCover: true }, previous);
+        }
+      }
+
+      const [updated] = await tx
+        .update(serviceMedia)
+        .set(updates.caption === "" ? { ...updates, caption: null } : updates)
+        .where(eq(serviceMedia.id, id))
+        .returning();
+      await recordAudit(tx, "service_media", existing, updated);
+      return updated;
+    });
+  }
+
+  async reorderServiceMedia(serviceId: number, mediaIds: number[]): Promise<ServiceMedia[]> {
+    await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(serviceMedia)
+        .where(eq(serviceMedia.serviceId, serviceId))
+        .for("update");
+      const byId = new Map(existing.map((entry) => [entry.id, entry]));
+
+      for (let sortOrder = 0; sortOrder < mediaIds.length; sortOrder += 1) {
+        const mediaId = mediaIds[sortOrder];
+        const before = byId.get(mediaId);
+        if (!before || before.sortOrder === sortOrder) {
+          continue;
+        }
+        const [updated] = await tx
+          .update(serviceMedia)
+          .set({ sortOrder })
+          .where(eq(serviceMedia.id, mediaId))
+          .returning();
+        await recordAudit(tx, "service_media", before, updated);
+      }
+    });
+
+    return await this.getServiceMedia(serviceId);
+  }
+
+  async deleteServiceMedia(id: number): Promise<ServiceMedia | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(serviceMedia).where(eq(serviceMedia.id, id)).returning();
+      await recordAudit(tx, "service_media", deleted, undefined);
+      return deleted || undefined;
+    });
+  }
+
+  // Media of every service a customer or vehicle delete cascades to
+  async getCustomerMedia(customerId: number): Promise<ServiceMedia[]> {
+    const rows = await db
+      .select({ media: serviceMedia })
+      .from(serviceMedia)
+      .innerJoin(services, eq(serviceMedia.serviceId, services.id))
+      .where(eq(services.customerId, customerId));
+    return rows.map((row) => row.media);
+  }
+
+  async getVehicleMedia(vehicleId: number): Promise<ServiceMedia[]> {
+    const rows = await db
+      .select({ media: serviceMedia })
+      .from(serviceMedia)
+      .innerJoin(services, eq(serviceMedia.serviceId, services.id))
+      .where(eq(services.vehicleId, vehicleId));
+    return rows.map((row) => row.media);
+  }
+
+  async getMediaByHash(hashes: string[]): Promise<ServiceMedia[]> {
+    if (hashes.length === 0) {
+      return [];
+    }
+    return await db.select().from(serviceMedia).where(inArray(serviceMedia.sha256, hashes));
+  }
+
+  // Of deleted media rows, those whose file no remaining row points at
+  async getUnusedMedia(entries: ServiceMedia[]): Promise<ServiceMedia[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    const paths = Array.from(new Set(entries.map((entry) => entry.relativePath)));
+    const used = await db
+      .selectDistinct({ relativePath: serviceMedia.relativePath })
+      .from(serviceMedia)
+      .where(inArray(serviceMedia.relativePath, paths));
+    const usedPaths = new Set(used.map((row) => row.relativePath));
+    const unused = new Map<string, ServiceMedia>();
+    for (const entry of entries) {
+      if (!usedPaths.has(entry.relativePath)) {
+        unused.set(entry.relativePath, entry);
+      }
+    }
+    return Array.from(unused.values());
+  }
+
+  async getMediaStorageUsage(serviceId?: number): Promise<MediaStorageUsage> {
+    const serviceFiles = db
+      .selectDistinctOn([serviceMedia.relativePath], { fileSize: serviceMedia.fileSize })
+      .from(serviceMedia)
+      .where(eq(serviceMedia.serviceId, serviceId ?? 0))
+      .as("service_files");
+    const [service] =
+      serviceId === undefined
+        ? [{ bytes: 0 }]
+        : await db.select({ bytes: sql<string>`coalesce(sum(${serviceFiles.fileSize}), 0)` }).from(serviceFiles);
+    const storedFiles = db
+      .selectDistinctOn([serviceMedia.relativePath], { fileSize: serviceMedia.fileSize })
+      .from(serviceMedia)
+      .as("stored_files");
+    const [total] = await db.select({ bytes: sql<string>`coalesce(sum(${storedFiles.fileSize}), 0)` }).from(storedFiles);
+    return { serviceBytes: Number(service.bytes), totalBytes: Number(total.bytes) };
+  }
+
+  async getServiceAuthorizations(serviceId: number): Promise<ServiceAuthorization[]> {
+    return await db
+      .select()
+      .from(serviceAuthorizations)
+      .where(eq(serviceAuthorizations.serviceId, serviceId))
+      .orderBy(desc(serviceAuthorizations.approvedAt));
+  }
+
+  // The signature's media row and the authorization pointing at it are committed together
+  async createServiceAuthorization(
+    authorization: ServiceAuthorizationInsert,
+    signature?: InsertServiceMedia,
+  ): Promise<{ authorization: ServiceAuthorization; signature?: ServiceMedia }> {
+    return await db.transaction(async (tx) => {
+      const [storedSignature] = signature ? await insertServiceMedia(tx, [signature]) : [];
+      const [created] = await tx
+        .insert(serviceAuthorizations)
+        .values({ ...authorization, signatureMediaId: storedSignature?.id ?? authorization.signatureMediaId })
+        .returning();
+      return { authorization: created, signature: storedSignature };
+    });
+  }
+
+  async getServiceItems(serviceId: number): Promise<ServiceItem[]> {
+    return await db
+      .select()
+      .from(serviceItems)
+      .where(eq(serviceItems.serviceId, serviceId))
+      .orderBy(asc(serviceItems.id));
+  }
+
+  async getServiceItem(id: number): Promise<ServiceItem | undefined> {
+    const [item] = await db.select().from(serviceItems).where(eq(serviceItems.id, id));
+    return item || undefined;
+  }
+
+  async createServiceItems(items: InsertServiceItem[]): Promise<ServiceItem[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const normalizedItems = items.map(
+      (item) => ({ ...normalizeServiceItem(item), serviceId: item.serviceId, description: item.description }),
+    );
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(serviceItems).values(normalizedItems).returning();
+      for (const createdItem of created) {
+        await recordAudit(tx, "service_item", undefined, createdItem);
+      }
+      return created;
+    });
+  }
+
+  async updateServiceItem(id: number, item: UpdateServiceItem): Promise<ServiceItem | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(serviceItems).where(eq(serviceItems.id, id)).for("update");
+      if (!existing) {
+        return undefined;
+      }
+      const [updated] = await tx
+        .update(serviceItems)
+        .set(normalizeServiceItem(item))
+        .where(eq(serviceItems.id, id))
+        .returning();
+      await recordAudit(tx, "service_item", existing, updated);
+      return updated;
+    });
+  }
+
+  async deleteServiceItem(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(serviceItems).where(eq(serviceItems.id, id)).returning();
+      await recordAudit(tx, "service_item", deleted, undefined);
+    });
+  }
+
+  async recalculateServiceCosts(serviceId: number): Promise<Service | undefined> {
+    const existing = await this.getService(serviceId);
+    if (!existing) {
+      return undefined;
+    }
+
+    const items = await this.getServiceItems(serviceId);
+    const totals = summarizeServiceTotals(existing, items);
+    const service = await this.updateService(serviceId, {
+      laborCost: totals.laborCost.toFixed(2),
+      partsCost: totals.partsCost.toFixed(2),
+      taxAmount: totals.taxTotal.toFixed(2),
+      totalCost: totals.grossTotal.toFixed(2),
+    });
+    return service;
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice || undefined;
+  }
+
+  // The latest invoice; earlier ones were voided and reissued
+  async getInvoiceByService(serviceId: number): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.serviceId, serviceId))
+      .orderBy(desc(invoices.id))
+      .limit(1);
+    return invoice || undefined;
+  }
+
+  async getInvoicesByCustomer(customerId: number): Promise<InvoiceWithPayments[]> {
+    const customerInvoices = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.customerId, customerId))
+      .orderBy(desc(invoices.issuedAt));
+    if (customerInvoices.length === 0) {
+      return [];
+    }
+
+    const invoicePayments = await db
+      .select()
+      .from(payments)
+      .where(inArray(payments.invoiceId, customerInvoices.map((invoice) => invoice.id)))
+      .orderBy(asc(payments.receivedAt));
+
+    return customerInvoices.map((invoice) => ({
+      invoice,
+      payments: invoicePayments.filter((payment) => payment.invoiceId === invoice.id),
+    }));
+  }
+
+  // Undefined when the service already has an invoice that is not void, e.g. a concurrent request issued one.
+  // The service row stays locked until the insert commits, so only one live invoice can exist per service.
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [service] = await tx
+        .select({ id: services.id })
+        .from(services)
+        .where(eq(services.id, invoice.serviceId))
+        .for("update");
+      if (!service) {
+        return undefined;
+      }
+
+      const [live] = await tx
+        .select({ id: invoices.id })
+        .from(invoices)
+        .where(and(eq(invoices.serviceId, service.id), ne(invoices.status, "void")))
+        .limit(1);
+      if (live) {
+        return undefined;
+      }
+
+      const { status } = summarizeInvoicePayments(invoice.amount ?? 0, []);
+      const [created] = await tx
+        .insert(invoices)
+        .values({ ...invoice, status })
+        .returning();
+      return created;
+    });
+  }
+
+  async getPayments(invoiceId: number): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.invoiceId, invoiceId))
+      .orderBy(asc(payments.receivedAt));
+  }
+
+  // Payments may not exceed the balance and refunds may not exceed the net amount paid. The invoice row is
+  // locked before the ledger is read, so concurrent entries are checked one after the other.
+  async recordPayment(payment: InsertPayment): Promise<Payment> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, payment.invoiceId)).for("update");
+      if (!invoice) {
+        throw new Error("Invoice not found");
+      }
+
+      const ledger = await tx.select().from(payments).where(eq(payments.invoiceId, invoice.id));
+      const { balance, netPaid } = summarizeInvoicePayments(invoice.amount, ledger);
+      const amount = toAmount(payment.amount);
+      if (payment.kind === "refund") {
+        if (amount > netPaid) {
+          throw new Error("Refund exceeds the amount paid");
+        }
+      } else if (invoice.status === "void") {
+        throw new Error("Payments cannot be recorded on a void invoice");
+      } else if (amount > balance) {
+        throw new Error("Payment exceeds the outstanding balance");
+      }
+
+      const [created] = await tx.insert(payments).values(payment).returning();
+      const { status } = summarizeInvoicePayments(invoice.amount, [...ledger, created]);
+      if (invoice.status !== "void" && status !== invoice.status) {
+        await tx.update(invoices).set({ status, updatedAt: new Date() }).where(eq(invoices.id, invoice.id));
+      }
+      return created;
+    });
+  }
+
+  // Undefined while payments remain on the invoice; the lock keeps a payment from landing as it is voided
+  async voidInvoice(id: number): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, id)).for("update");
+      if (!invoice) {
+        return undefined;
+      }
+
+      const ledger = await tx.select().from(payments).where(eq(payments.invoiceId, id));
+      if (summarizeInvoicePayments(invoice.amount, ledger).netPaid !== 0) {
+        return undefined;
+      }
+
+      const [voided] = await tx
+        .update(invoices)
+        .set({ status: "void", updatedAt: new Date() })
+        .where(eq(invoices.id, id))
+        .returning();
+      return voided;
+    });
+  }
+
+  async hasInvoices(scope: InvoiceScope): Promise<boolean> {
+    const condition =
+      "serviceId" in scope
+        ? eq(invoices.serviceId, scope.serviceId)
+        : "customerId" in scope
+          ? eq(invoices.customerId, scope.customerId)
+          : inArray(
+              invoices.serviceId,
+              db.select({ id: services.id }).from(services).where(eq(services.vehicleId, scope.vehicleId)),
+            );
+    const [invoice] = await db.select({ id: invoices.id }).from(invoices).where(condition).limit(1);
+    return Boolean(invoice);
+  }
+
+  async getEstimates(filters: EstimateFilters = {}): Promise<Estimate[]> {
+    const conditions: SQL[] = [];
+    if (filters.customerId !== undefined) {
+      conditions.push(eq(estimates.customerId, filters.customerId));
+    }
+    if (filters.vehicleId !== undefined) {
+      conditions.push(eq(estimates.vehicleId, filters.vehicleId));
+    }
+    if (filters.status !== undefined) {
+      conditions.push(eq(estimates.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(estimates)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(estimates.createdAt));
+  }
+
+  async getEstimate(id: number): Promise<EstimateWithItems | undefined> {
+    const [estimate] = await db.select().from(estimates).where(eq(estimates.id, id));
+    if (!estimate) {
+      return undefined;
+    }
+
+    const items = await db
+      .select()
+      .from(estimateItems)
+      .where(eq(estimateItems.estimateId, id))
+      .orderBy(asc(estimateItems.id));
+    return { estimate, items };
+  }
+
+  async getEstimateByService(serviceId: number): Promise<EstimateWithItems | undefined> {
+    const [estimate] = await db.select().from(estimates).where(eq(estimates.serviceId, serviceId));
+    return estimate ? await this.getEstimate(estimate.id) : undefined;
+  }
+
+  async createEstimate(
+    estimate: Omit<EstimateInsert, EstimateCostField>,
+    items: ServiceItemInput[],
+  ): Promise<EstimateWithItems> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(estimates)
+        .values({
+          ...estimate,
+          ...calculateEstimateCosts(estimate.taxMode ?? "exclusive", estimate.taxRate ?? "15", items),
+        })
+        .returning();
+
+      const createdItems = items.length
+        ? await tx
+            .insert(estimateItems)
+            .values(
+              items.map((item) => ({
+                ...normalizeServiceItem(item),
+                estimateId: created.id,
+                description: item.description,
+              })),
+            )
+            .returning()
+        : [];
+
+      return { estimate: created, items: createdItems };
+    });
+  }
+
+  async updateEstimate(
+    id: number,
+    estimate: Partial<Omit<EstimateInsert, EstimateCostField>>,
+    items?: ServiceItemInput[],
+  ): Promise<EstimateWithItems | undefined> {
+    const existing = await this.getEstimate(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    await db.transaction(async (tx) => {
+      let currentItems: Array<Partial<TaxedServiceItem>> = existing.items;
+      if (items) {
+        await tx.delete(estimateItems).where(eq(estimateItems.estimateId, id));
+        if (items.length) {
+          await tx.insert(estimateItems).values(
+            items.map((item) => ({ ...normalizeServiceItem(item), estimateId: id, description: item.description })),
+          );
+        }
+        currentItems = items;
+      }
+
+      await tx
+        .update(estimates)
+        .set({
+          ...estimate,
+          ...calculateEstimateCosts(
+            estimate.taxMode ?? existing.estimate.taxMode,
+            estimate.taxRate ?? existing.estimate.taxRate,
+            currentItems,
+          ),
+          updatedAt: new Date(),
+        })
+        .where(eq(estimates.id, id));
+    });
+
+    return await this.getEstimate(id);
+  }
+
+  async deleteEstimate(id: number): Promise<void> {
+    await db.delete(estimates).where(eq(estimates.id, id));
+  }
+
+  // Creates the service and its line items from the estimate and marks it approved, atomically.
+  // Undefined when the estimate is missing or no longer draft or sent, e.g. a concurrent approval won.
+  async approveEstimate(
+    id: number,
+    approvedBy?: string,
+  ): Promise<{ estimate: Estimate; service: Service } | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [estimate] = await tx
+        .update(estimates)
+        .set({ status: "approved", approvedAt: now, updatedAt: now })
+        .where(and(eq(estimates.id, id), inArray(estimates.status, ["draft", "sent"])))
+        .returning();
+      if (!estimate) {
+        return undefined;
+      }
+
+      const items = await tx
+        .select()
+        .from(estimateItems)
+        .where(eq(estimateItems.estimateId, id))
+        .orderBy(asc(estimateItems.id));
+
+      const [service] = await tx
+        .insert(services)
+        .values({
+          vehicleId: estimate.vehicleId,
+          customerId: estimate.customerId,
+          workPerformed: estimate.description,
+          serviceType: estimate.serviceType,
+          notes: estimate.notes,
+          status: "scheduled",
+          laborCost: estimate.laborCost,
+          partsCost: estimate.partsCost,
+          taxMode: estimate.taxMode,
+          taxRate: estimate.taxRate,
+          taxAmount: estimate.taxAmount,
+          totalCost: estimate.totalCost,
+          createdBy: approvedBy,
+        })
+        .returning();
+
+      await recordAudit(tx, "service", undefined, service);
+
+      if (items.length) {
+        const createdItems = await tx
+          .insert(serviceItems)
+          .values(
+            items.map(({ id: _id, estimateId: _estimateId, createdAt: _createdAt, ...item }) => ({
+              ...item,
+              serviceId: service.id,
+            })),
+          )
+          .returning();
+        for (const createdItem of createdItems) {
+          await recordAudit(tx, "service_item", undefined, createdItem);
+        }
+      }
+
+      const [approved] = await tx
+        .update(estimates)
+        .set({ serviceId: service.id })
+        .where(eq(estimates.id, id))
+        .returning();
+
+      return { estimate: approved, service };
+    });
+  }
+
+  async getTimeEntries(serviceId: number): Promise<TimeEntryWithTechnician[]> {
+    const rows = await db
+      .select({
+        entry: timeEntries,
+        technician: { id: users.id, name: users.name, username: users.username },
+      })
+      .from(timeEntries)
+      .leftJoin(users, eq(timeEntries.technicianId, users.id))
+      .where(eq(timeEntries.serviceId, serviceId))
+      .orderBy(desc(timeEntries.startedAt));
+
+    return rows.map((row) => ({ entry: row.entry, technician: row.technician ?? null }));
+  }
+
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry || undefined;
+  }
+
+  async getOpenTimeEntry(technicianId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.technicianId, technicianId), isNull(timeEntries.endedAt)));
+    return entry || undefined;
+  }
+
+  // Undefined when the technician already has an open entry, e.g. from a double-tapped clock-on
+  async createTimeEntry(entry: TimeEntryInsert): Promise<TimeEntry | undefined> {
+    const [created] = await db.insert(timeEntries).values(entry).onConflictDoNothing().returning();
+    return created || undefined;
+  }
+
+  async updateTimeEntry(id: number, entry: Partial<TimeEntryInsert>): Promise<TimeEntry | undefined> {
+    const [updated] = await db.update(timeEntries).set(entry).where(eq(timeEntries.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteTimeEntry(id: number): Promise<void> {
+    await db.delete(timeEntries).where(eq(timeEntries.id, id));
+  }
+
+  // Time clocked without a line item goes on a per-technician labor line for the job.
+  async findOrCreateLaborItem(
+    serviceId: number,
+    technician: TechnicianSummary,
+    laborRate: number,
+  ): Promise<ServiceItem> {
+    const description = `Labor – ${technician.name}`;
+    const [existing] = await db
+      .select()
+      .from(serviceItems)
+      .where(
+        and(
+          eq(serviceItems.serviceId, serviceId),
+          eq(serviceItems.description, description),
+          eq(serviceItems.billsClockedTime, true),
+        ),
+      );
+    if (existing) {
+      return existing;
+    }
+
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(serviceItems)
+        .values({
+          serviceId,
+          description,
+          quantity: "0",
+          unitCost: "0",
+          laborHours: "0",
+          laborRate: laborRate.toFixed(2),
+          billsClockedTime: true,
+        })
+        .returning();
+      await recordAudit(tx, "service_item", undefined, created);
+      return created;
+    });
+  }
+
+  // Records the time clocked against each line item, then refreshes the service totals.
+  async syncClockedLabor(serviceId: number, serviceItemIds: number[]): Promise<Service | undefined> {
+    const itemIds = Array.from(new Set(serviceItemIds));
+    if (itemIds.length > 0) {
+      const hoursByItem = await sumClockedHoursByItem(itemIds);
+      await db.transaction(async (tx) => {
+        for (const itemId of itemIds) {
+          const hours = hoursByItem.get(itemId) ?? 0;
+          const [existing] = await tx
+            .select()
+            .from(serviceItems)
+            .where(and(eq(serviceItems.id, itemId), eq(serviceItems.serviceId, serviceId)))
+            .for("update");
+          if (!existing) {
+            continue;
+          }
+          const [updated] = await tx
+            .update(serviceItems)
+            .set(clockedLaborChanges(existing, hours))
+            .where(eq(serviceItems.id, itemId))
+            .returning();
+          await recordAudit(tx, "service_item", existing, updated);
+        }
+      });
+    }
+
+    return await this.recalculateServiceCosts(serviceId);
+  }
+
+  async getProductivityEntries(from: Date, to: Date): Promise<ProductivityEntry[]> {
+    const rows = await db
+      .select({
+        entry: timeEntries,
+        technicianName: users.name,
+        itemLaborHours: serviceItems.laborHours,
+      })
+      .from(timeEntries)
+      .innerJoin(users, eq(timeEntries.technicianId, users.id))
+      .leftJoin(serviceItems, eq(timeEntries.serviceItemId, serviceItems.id))
+      .where(
+        and(isNotNull(timeEntries.endedAt), gte(timeEntries.startedAt, from), lt(timeEntries.startedAt, to)),
+      );
+
+    const itemIds = Array.from(
+      new Set(rows.map((row) => row.entry.serviceItemId).filter((id): id is number => id !== null)),
+    );
+    const hoursByItem = await sumClockedHoursByItem(itemIds);
+
+    return rows.map((row) => ({
+      technicianId: row.entry.technicianId,
+      technicianName: row.technicianName,
+      serviceId: row.entry.serviceId,
+      serviceItemId: row.entry.serviceItemId,
+      startedAt: row.entry.startedAt,
+      endedAt: row.entry.endedAt,
+      itemLaborHours: row.itemLaborHours,
+      itemClockedHours: row.entry.serviceItemId !== null ? hoursByItem.get(row.entry.serviceItemId) ?? 0 : 0,
+    }));
+  }
+
+  // Jobs technicians can clock on to, oldest first.
+  async getOpenJobs(): Promise<OpenJob[]> {
+    const rows = await db
+      .select({ service: services, vehicle: vehicles })
+      .from(services)
+      .leftJoin(vehicles, eq(services.vehicleId, vehicles.id))
+      .where(inArray(services.status, ["scheduled", "in_progress"]))
+      .orderBy(asc(services.serviceDate));
+
+    return rows.map((row) => ({ service: row.service, vehicle: row.vehicle ?? null }));
+  }
+
+  async getBays(): Promise<Bay[]> {
+    return await db.select().from(bays).orderBy(asc(bays.sortOrder), asc(bays.name));
+  }
+
+  async getBay(id: number): Promise<Bay | undefined> {
+    const [bay] = await db.select().from(bays).where(eq(bays.id, id));
+    return bay || undefined;
+  }
+
+  async createBay(bay: BayInsert): Promise<Bay> {
+    const [created] = await db.insert(bays).values(bay).returning();
+    return created;
+  }
+
+  async updateBay(id: number, bay: Partial<BayInsert>): Promise<Bay | undefined> {
+    const [updated] = await db.update(bays).set(bay).where(eq(bays.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteBay(id: number): Promise<void> {
+    await db.delete(bays).where(eq(bays.id, id));
+  }
+
+  async bayHasAppointments(id: number): Promise<boolean> {
+    const [row] = await db.select({ id: appointments.id }).from(appointments).where(eq(appointments.bayId, id)).limit(1);
+    return Boolean(row);
+  }
+
+  async getAppointments(filters: AppointmentFilters = {}): Promise<AppointmentWithContext[]> {
+    const conditions: SQL[] = [];
+    if (filters.from) {
+      conditions.push(gt(appointments.endsAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lt(appointments.startsAt, filters.to));
+    }
+    if (filters.bayId !== undefined) {
+      conditions.push(eq(appointments.bayId, filters.bayId));
+    }
+    if (filters.vehicleId !== undefined) {
+      conditions.push(eq(appointments.vehicleId, filters.vehicleId));
+    }
+
+    const rows = await db
+      .select({ appointment: appointments, bay: bays, customer: customers, vehicle: vehicles })
+      .from(appointments)
+      .leftJoin(bays, eq(appointments.bayId, bays.id))
+      .leftJoin(customers, eq(appointments.customerId, customers.id))
+      .leftJoin(vehicles, eq(appointments.vehicleId, vehicles.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(asc(appointments.startsAt));
+
+    return rows.map((row) => ({
+      appointment: row.appointment,
+      bay: row.bay ?? null,
+      customer: row.customer ?? null,
+      vehicle: row.vehicle ?? null,
+    }));
+  }
+
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment || undefined;
+  }
+
+  // Active bookings that would overlap the slot, either in the same bay or for the same vehicle.
+  async findAppointmentConflicts(slot: AppointmentSlot): Promise<Appointment[]> {
+    const conditions: SQL[] = [
+      inArray(appointments.status, ["booked", "checked_in"]),
+      lt(appointments.startsAt, slot.endsAt),
+      gt(appointments.endsAt, slot.startsAt),
+      or(eq(appointments.bayId, slot.bayId), eq(appointments.vehicleId, slot.vehicleId))!,
+    ];
+    if (slot.excludeId !== undefined) {
+      conditions.push(ne(appointments.id, slot.excludeId));
+    }
+
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(...conditions))
+      .orderBy(asc(appointments.startsAt));
+  }
+
+  async createAppointment(appointment: AppointmentInsert): Promise<Appointment> {
+    const [created] = await db.insert(appointments).values(appointment).returning();
+    return created;
+  }
+
+  async updateAppointment(id: number, appointment: Partial<AppointmentInsert>): Promise<Appointment | undefined> {
+    const [updated] = await db
+      .update(appointments)
+      .set({ ...appointment, updatedAt: new Date() })
+      .where(eq(appointments.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Opens the service record for the booking and marks it checked in, atomically.
+  async checkInAppointment(
+    id: number,
+    service: ServiceInsert,
+  ): Promise<{ appointment: Appointment; service: Service } | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [claimed] = await tx
+        .update(appointments)
+        .set({ status: "checked_in", checkedInAt: now, updatedAt: now })
+        .where(and(eq(appointments.id, id), eq(appointments.status, "booked")))
+        .returning();
+      if (!claimed) {
+        return undefined;
+      }
+
+      const [created] = await tx.insert(services).values(service).returning();
+      await recordAudit(tx, "service", undefined, created);
+      const [appointment] = await tx
+        .update(appointments)
+        .set({ serviceId: created.id })
+        .where(eq(appointments.id, id))
+        .returning();
+      return { appointment, service: created };
+    });
+  }
+
+  async getReminders(filters: ReminderFilters = {}): Promise<MaintenanceReminder[]> {
+    const conditions: SQL[] = [];
+    if (filters.customerId !== undefined) {
+      conditions.push(eq(maintenanceReminders.customerId, filters.customerId));
+    }
+    if (filters.vehicleId !== undefined) {
+      conditions.push(eq(maintenanceReminders.vehicleId, filters.vehicleId));
+    }
+    if (!filters.includeCompleted) {
+      conditions.push(eq(maintenanceReminders.completed, false));
+    }
+
+    return await db
+      .select()
+      .from(maintenanceReminders)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(asc(maintenanceReminders.dueDate));
+  }
+
+  async getReminder(id: number): Promise<MaintenanceReminder | undefined> {
+    const [reminder] = await db.select().from(maintenanceReminders).where(eq(maintenanceReminders.id, id));
+    return reminder || undefined;
+  }
+
+  async getDueReminders(dueBefore: Date): Promise<ReminderWithContext[]> {
+    const rows = await db
+      .select({ reminder: maintenanceReminders, customer: customers, vehicle: vehicles })
+      .from(maintenanceReminders)
+      .leftJoin(customers, eq(maintenanceReminders.customerId, customers.id))
+      .leftJoin(vehicles, eq(maintenanceReminders.vehicleId, vehicles.id))
+      .where(and(eq(maintenanceReminders.completed, false), lte(maintenanceReminders.dueDate, dueBefore)))
+      .orderBy(asc(maintenanceReminders.dueDate));
+
+    return rows.map((row) => ({
+      reminder: row.reminder,
+      customer: row.customer ?? null,
+      vehicle: row.vehicle ?? null,
+    }));
+  }
+
+  async createReminder(reminder: InsertMaintenanceReminder): Promise<MaintenanceReminder> {
+    const [created] = await db.insert(maintenanceReminders).values(reminder).returning();
+    return created;
+  }
+
+  async updateReminder(
+    id: number,
+    reminder: UpdateMaintenanceReminder,
+  ): Promise<MaintenanceReminder | undefined> {
+    const [updated] = await db
+      .update(maintenanceReminders)
+      .set({ ...reminder, updatedAt: new Date() })
+      .where(eq(maintenanceReminders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async completeReminder(id: number): Promise<MaintenanceReminder | undefined> {
+    const now = new Date();
+    const [updated] = await db
+      .update(maintenanceReminders)
+      .set({ completed: true, completedAt: now, updatedAt: now })
+      .where(eq(maintenanceReminders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteReminder(id: number): Promise<void> {
+    await db.delete(maintenanceReminders).where(eq(maintenanceReminders.id, id));
+  }
+
+  async syncServiceReminder(service: Service): Promise<MaintenanceReminder | undefined> {
+    const [existing] = await db
+      .select()
+      .from(maintenanceReminders)
+      .where(and(eq(maintenanceReminders.serviceId, service.id), eq(maintenanceReminders.completed, false)));
+
+    if (!service.nextServiceDue) {
+      if (existing) {
+        await this.deleteReminder(existing.id);
+      }
+      return undefined;
+    }
+
+    if (existing) {
+      if (existing.dueDate.getTime() === service.nextServiceDue.getTime()) {
+        return existing;
+      }
+      return await this.updateReminder(existing.id, { dueDate: service.nextServiceDue });
+    }
+
+    return await this.createReminder({
+      customerId: service.customerId,
+      vehicleId: service.vehicleId,
+      serviceId: service.id,
+      title: service.serviceType ? `${service.serviceType} due` : "Next service due",
+      description: `Follow-up for service #${service.id}: ${service.workPerformed}`,
+      dueDate: service.nextServiceDue,
+      createdBy: service.createdBy ?? undefined,
+    });
+  }
+
+  async getServiceIntervalRules(): Promise<ServiceIntervalRule[]> {
+    return await db.select().from(serviceIntervalRules).orderBy(asc(serviceIntervalRules.serviceType));
+  }
+
+  async getServiceIntervalRule(id: number): Promise<ServiceIntervalRule | undefined> {
+    const [rule] = await db.select().from(serviceIntervalRules).where(eq(serviceIntervalRules.id, id));
+    return rule || undefined;
+  }
+
+  async getServiceIntervalRuleByType(serviceType: string): Promise<ServiceIntervalRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(serviceIntervalRules)
+      .where(sql`lower(${serviceIntervalRules.serviceType}) = lower(${serviceType.trim()})`);
+    return rule || undefined;
+  }
+
+  async createServiceIntervalRule(rule: InsertServiceIntervalRule): Promise<ServiceIntervalRule> {
+    const [created] = await db.insert(serviceIntervalRules).values(rule).returning();
+    return created;
+  }
+
+  async updateServiceIntervalRule(
+    id: number,
+    rule: UpdateServiceIntervalRule,
+  ): Promise<ServiceIntervalRule | undefined> {
+    const [updated] = await db
+      .update(serviceIntervalRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(serviceIntervalRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteServiceIntervalRule(id: number): Promise<void> {
+    await db.delete(serviceIntervalRules).where(eq(serviceIntervalRules.id, id));
   }
 }
 
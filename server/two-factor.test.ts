@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+import { generateRecoveryCodes, verifyAuthenticatorCode, verifySecondFactor } from "./two-factor";
+import { encodeBase32, totpStep } from "./utils/totp";
+
+type StoredTwoFactor = { lastStep: number | null; recoveryCodes: string[] };
+
+const { users } = vi.hoisted(() => ({ users: new Map<string, StoredTwoFactor>() }));
+
+// Same conditions as the UPDATE ... WHERE statements in DatabaseStorage
+vi.mock("./storage", () => ({
+  storage: {
+    claimTwoFactorStep: async (userId: string, step: number) => {
+      const user = users.get(userId)!;
+      if (user.lastStep !== null && user.lastStep >= step) {
+        return false;
+      }
+      user.lastStep = step;
+      return true;
+    },
+    consumeRecoveryCode: async (userId: string, hash: string) => {
+      const user = users.get(userId)!;
+      if (!user.recoveryCodes.includes(hash)) {
+        return false;
+      }
+      user.recoveryCodes = user.recoveryCodes.filter((code) => code !== hash);
+      return true;
+    },
+  },
+}));
+
+// RFC 6238 Appendix B: at 1234567890 seconds the seed gives 89005924, shown as its last 6 digits
+const SECRET = encodeBase32(Buffer.from("12345678901234567890", "ascii"));
+const NOW = new Date(1234567890 * 1000);
+const CODE = "005924";
+
+const makeUser = (overrides: Partial<User> = {}): User =>
+  ({
+    id: "tech-1",
+    twoFactorSecret: SECRET,
+    twoFactorEnabledAt: new Date("2026-01-01T00:00:00Z"),
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: [],
+    ...overrides,
+  }) as User;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  users.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyAuthenticatorCode", () => {
+  it("accepts a code once and refuses it when replayed", async () => {
+    users.set("tech-1", { lastStep: null, recoveryCodes: [] });
+    const user = makeUser();
+
+    expect(await verifyAuthenticatorCode(user, CODE)).toBe(totpStep(NOW));
+    expect(await verifyAuthenticatorCode(user, CODE)).toBeNull();
+  });
+
+  it("refuses a code from a step before the last one used", async () => {
+    users.set("tech-1", { lastStep: totpStep(NOW) + 1, recoveryCodes: [] });
+
+    expect(await verifyAuthenticatorCode(makeUser(), CODE)).toBeNull();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts each recovery code once, with or without its dash", async () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    users.set("tech-1", { lastStep: null, recoveryCodes: hashes });
+    const user = makeUser();
+
+    expect(await verifySecondFactor(user, codes[0].toUpperCase())).toBe(true);
+    expect(await verifySecondFactor(user, codes[0])).toBe(false);
+    expect(await verifySecondFactor(user, codes[1].replace("-", ""))).toBe(true);
+    expect(users.get("tech-1")!.recoveryCodes).toEqual(hashes.slice(2));
+  });
+
+  it("accepts nothing until two-factor sign-in is enabled", async () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    users.set("tech-1", { lastStep: null, recoveryCodes: hashes });
+    const user = makeUser({ twoFactorEnabledAt: null });
+
+    expect(await verifySecondFactor(user, CODE)).toBe(false);
+    expect(await verifySecondFactor(user, codes[0])).toBe(false);
+  });
+});
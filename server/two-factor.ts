@@ -0,0 +1,98 @@
+import { createHash, randomInt } from "crypto";
+import QRCode from "qrcode";
+import { resolveRolePermissions } from "@shared/permissions";
+import {
+  toPublicUser,
+  type PublicUser,
+  type SessionUser,
+  type TwoFactorSetup,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { sellerProfile } from "./config";
+import { storage } from "./storage";
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from "./utils/totp";
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+// No 0/o, 1/l/i so codes survive being read aloud or written down
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, "");
+
+// Recovery codes are long random strings, so a plain SHA-256 is enough to keep them unreadable at rest
+const hashRecoveryCode = (code: string): string =>
+  createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+export async function isTwoFactorRequiredForRole(role: UserRole): Promise<boolean> {
+  const setting = await storage.getRoleSetting(role);
+  return setting?.requireTwoFactor ?? false;
+}
+
+// Builds what a signed-in request carries: the public profile plus the role's 2FA policy and permissions
+export async function loadSessionUser(user: PublicUser): Promise<SessionUser> {
+  const setting = await storage.getRoleSetting(user.role);
+  return {
+    ...toPublicUser(user),
+    twoFactorSetupRequired: !user.twoFactorEnabledAt && (setting?.requireTwoFactor ?? false),
+    permissions: resolveRolePermissions(user.role, setting?.permissions),
+  };
+}
+
+// Stores a fresh secret as pending enrollment; it only protects the account once a code has been confirmed.
+export async function beginTwoFactorSetup(user: User): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  await storage.updateUser(user.id, { twoFactorSecret: secret, twoFactorLastStep: null });
+  const otpauthUri = buildOtpAuthUri(secret, user.username, sellerProfile.name);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+  return { secret, otpauthUri, qrCodeDataUrl };
+}
+
+// Turns 2FA off and drops the secret; used by the user themselves and by admins for a lost phone
+export async function clearTwoFactor(userId: string): Promise<User | undefined> {
+  return await storage.updateUser(userId, {
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: [],
+  });
+}
+
+// Plain codes are shown to the user once; only their hashes are stored.
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    let code = "";
+    for (let index = 0; index < RECOVERY_CODE_LENGTH; index += 1) {
+      code += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+    }
+    return `${code.slice(0, RECOVERY_CODE_LENGTH / 2)}-${code.slice(RECOVERY_CODE_LENGTH / 2)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Returns the time step of a valid, not yet used authenticator code, or null.
+export async function verifyAuthenticatorCode(user: User, code: string): Promise<number | null> {
+  if (!user.twoFactorSecret) {
+    return null;
+  }
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null || !(await storage.claimTwoFactorStep(user.id, step))) {
+    return null;
+  }
+  return step;
+}
+
+// Accepts an authenticator code or, failing that, burns one of the recovery codes.
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.twoFactorEnabledAt) {
+    return false;
+  }
+  if ((await verifyAuthenticatorCode(user, code)) !== null) {
+    return true;
+  }
+  const normalized = normalizeRecoveryCode(code);
+  if (normalized.length !== RECOVERY_CODE_LENGTH) {
+    return false;
+  }
+  return await storage.consumeRecoveryCode(user.id, hashRecoveryCode(normalized));
+}
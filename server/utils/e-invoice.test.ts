@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { buildSimplifiedInvoiceQrPayload, encodeTlv } from "./e-invoice";
+
+describe("buildSimplifiedInvoiceQrPayload", () => {
+  it("matches the published ZATCA sample payload", () => {
+    const payload = buildSimplifiedInvoiceQrPayload({
+      sellerName: "Bobs Records",
+      vatNumber: "310122393500003",
+      timestamp: new Date("2022-04-25T15:30:00.000Z"),
+      total: "1000.00",
+      vatTotal: "150.00",
+    });
+
+    expect(payload).toBe(
+      "AQxCb2JzIFJlY29yZHMCDzMxMDEyMjM5MzUwMDAwMwMUMjAyMi0wNC0yNVQxNTozMDowMFoEBzEwMDAuMDAFBjE1MC4wMA==",
+    );
+  });
+
+  it("counts the length in UTF-8 bytes, not characters", () => {
+    const payload = buildSimplifiedInvoiceQrPayload({
+      sellerName: "ورشة",
+      vatNumber: "300000000000003",
+      timestamp: new Date("2026-03-01T12:00:00Z"),
+      total: "115.00",
+      vatTotal: "15.00",
+    });
+    const bytes = Buffer.from(payload, "base64");
+
+    expect([bytes[0], bytes[1]]).toEqual([1, 8]);
+    expect(bytes.subarray(2, 10).toString("utf8")).toBe("ورشة");
+    expect([bytes[10], bytes[11]]).toEqual([2, 15]);
+  });
+});
+
+describe("encodeTlv", () => {
+  it("writes tag, length and value for each field in order", () => {
+    expect(Array.from(encodeTlv([[1, "ab"], [4, ""]]))).toEqual([1, 2, 0x61, 0x62, 4, 0]);
+  });
+
+  it("refuses values that do not fit a one-byte length", () => {
+    expect(() => encodeTlv([[1, "x".repeat(255)]])).not.toThrow();
+    expect(() => encodeTlv([[1, "x".repeat(256)]])).toThrow("TLV value for tag 1 is longer than 255 bytes");
+    expect(() => encodeTlv([[1, "é".repeat(128)]])).toThrow("longer than 255 bytes");
+  });
+});
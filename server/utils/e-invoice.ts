@@ -0,0 +1,32 @@
+export type SimplifiedInvoiceQrFields = {
+  sellerName: string;
+  vatNumber: string;
+  timestamp: Date;
+  total: string;
+  vatTotal: string;
+};
+
+// Encodes tag-length-value triplets with one-byte tags and lengths, values as UTF-8.
+export function encodeTlv(fields: Array<[tag: number, value: string]>): Buffer {
+  return Buffer.concat(
+    fields.map(([tag, value]) => {
+      const bytes = Buffer.from(value, "utf8");
+      if (bytes.length > 255) {
+        throw new Error(`TLV value for tag ${tag} is longer than 255 bytes`);
+      }
+      return Buffer.concat([Buffer.from([tag, bytes.length]), bytes]);
+    }),
+  );
+}
+
+// Base64 QR payload for simplified tax invoices (ZATCA phase 1): seller name, VAT number,
+// timestamp, invoice total including VAT and the VAT total, as tags 1–5.
+export function buildSimplifiedInvoiceQrPayload(fields: SimplifiedInvoiceQrFields): string {
+  return encodeTlv([
+    [1, fields.sellerName],
+    [2, fields.vatNumber],
+    [3, fields.timestamp.toISOString().replace(/\.\d{3}Z$/, "Z")],
+    [4, fields.total],
+    [5, fields.vatTotal],
+  ]).toString("base64");
+}
@@ -0,0 +1,118 @@
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) {
+    return 0;
+  }
+
+  const aLength = a.length;
+  const bLength = b.length;
+
+  if (aLength === 0) {
+    return bLength;
+  }
+
+  if (bLength === 0) {
+    return aLength;
+  }
+
+  const matrix: number[][] = Array.from({ length: aLength + 1 }, () => new Array<number>(bLength + 1));
+
+  for (let i = 0; i <= aLength; i += 1) {
+    matrix[i][0] = i;
+  }
+
+  for (let j = 0; j <= bLength; j += 1) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= aLength; i += 1) {
+    const charA = a.charCodeAt(i - 1);
+    for (let j = 1; j <= bLength; j += 1) {
+      const charB = b.charCodeAt(j - 1);
+      const cost = charA === charB ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost,
+      );
+    }
+  }
+
+  return matrix[aLength][bLength];
+};
+
+type NamedUser = {
+  id: string;
+  name: string;
+  username: string;
+};
+
+export type NameMatch<T extends NamedUser> =
+  | { status: "matched"; user: T; score: number }
+  | { status: "ambiguous"; users: T[] }
+  | { status: "unmatched" };
+
+// Below this similarity a typed name is not considered to refer to the account
+const MIN_NAME_SIMILARITY = 0.8;
+// Abbreviations like "Ali M." rank just below exact matches
+const ABBREVIATION_SCORE = 0.9;
+
+export const normalizePersonName = (value: string): string =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    // Keeps Latin and Arabic letters and digits; punctuation such as "Ali M." becomes spaces
+    .replace(/[^a-z0-9\u0600-\u06ff\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// "ali m" abbreviates "ali mohammed": every typed token starts the matching name token.
+const isAbbreviationOf = (typed: string[], full: string[]): boolean =>
+  typed.length > 0 &&
+  typed.length <= full.length &&
+  typed.every((token, index) => full[index].startsWith(token));
+
+const scoreName = (typed: string, candidate: string): number => {
+  const normalizedCandidate = normalizePersonName(candidate);
+  if (!typed || !normalizedCandidate) {
+    return 0;
+  }
+  if (typed === normalizedCandidate) {
+    return 1;
+  }
+  if (isAbbreviationOf(typed.split(" "), normalizedCandidate.split(" "))) {
+    return ABBREVIATION_SCORE;
+  }
+
+  const distance = levenshteinDistance(typed, normalizedCandidate);
+  const similarity = 1 - distance / Math.max(typed.length, normalizedCandidate.length);
+  return similarity >= MIN_NAME_SIMILARITY ? similarity : 0;
+};
+
+// Resolves a hand-typed name to one of the given accounts by display name or username.
+export function matchUserByName<T extends NamedUser>(typedName: string, users: T[]): NameMatch<T> {
+  const typed = normalizePersonName(typedName);
+  let bestScore = 0;
+  let best: T[] = [];
+
+  for (const user of users) {
+    const score = Math.max(scoreName(typed, user.name), scoreName(typed, user.username));
+    if (score === 0 || score < bestScore) {
+      continue;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = [user];
+    } else {
+      best.push(user);
+    }
+  }
+
+  if (best.length === 0) {
+    return { status: "unmatched" };
+  }
+  if (best.length > 1) {
+    return { status: "ambiguous", users: best };
+  }
+  return { status: "matched", user: best[0], score: bestScore };
+}
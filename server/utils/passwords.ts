@@ -1,5 +1,7 @@
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import { checkPasswordStrength, describePasswordProblems } from "@shared/password-policy";
+import { passwordPolicy } from "../config";
 
 const scryptAsync = promisify(scrypt);
 
@@ -15,3 +17,9 @@ export async function comparePasswords(supplied: string, stored: string) {
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
+
+// Message describing why a new password is rejected, or null when it meets the configured policy.
+export function findPasswordProblem(password: string): string | null {
+  const problems = checkPasswordStrength(password, passwordPolicy);
+  return problems.length > 0 ? describePasswordProblems(problems) : null;
+}
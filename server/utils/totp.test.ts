@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { decodeBase32, encodeBase32, totpStep, verifyTotp } from "./totp";
+
+// RFC 6238 Appendix B: the SHA-1 seed and its 8-digit codes; authenticator apps show the last 6 digits
+const RFC_SECRET = encodeBase32(Buffer.from("12345678901234567890", "ascii"));
+const RFC_VECTORS: Array<[seconds: number, code: string]> = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe("verifyTotp", () => {
+  it.each(RFC_VECTORS)("accepts the RFC 6238 code at %i seconds", (seconds, code) => {
+    expect(verifyTotp(RFC_SECRET, code.slice(-6), at(seconds))).toBe(totpStep(at(seconds)));
+  });
+
+  it("accepts codes one step either side of the current one and nothing further", () => {
+    const [seconds, code] = RFC_VECTORS[3];
+    const step = totpStep(at(seconds));
+
+    expect(verifyTotp(RFC_SECRET, code.slice(-6), at(seconds - 30))).toBe(step);
+    expect(verifyTotp(RFC_SECRET, code.slice(-6), at(seconds + 30))).toBe(step);
+    expect(verifyTotp(RFC_SECRET, code.slice(-6), at(seconds - 60))).toBeNull();
+    expect(verifyTotp(RFC_SECRET, code.slice(-6), at(seconds + 60))).toBeNull();
+  });
+
+  it("ignores spaces and rejects anything that is not six digits", () => {
+    const [seconds] = RFC_VECTORS[0];
+
+    expect(verifyTotp(RFC_SECRET, "287 082", at(seconds))).toBe(totpStep(at(seconds)));
+    expect(verifyTotp(RFC_SECRET, "94287082", at(seconds))).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708a", at(seconds))).toBeNull();
+  });
+});
+
+describe("base32", () => {
+  it("round-trips secrets and rejects characters outside the alphabet", () => {
+    const key = Buffer.from("12345678901234567890", "ascii");
+
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(decodeBase32(RFC_SECRET.toLowerCase())).toEqual(key);
+    expect(() => decodeBase32("GEZDGNBV1")).toThrow("Invalid base32 secret");
+  });
+});
@@ -0,0 +1,51 @@
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: true,
+  requireSymbol: false,
+};
+
+type PasswordRule = {
+  label: string;
+  test: (password: string) => boolean;
+};
+
+const activeRules = (policy: PasswordPolicy): PasswordRule[] => {
+  const rules: PasswordRule[] = [
+    { label: `at least ${policy.minLength} characters`, test: (password) => password.length >= policy.minLength },
+  ];
+  if (policy.requireUppercase) {
+    rules.push({ label: "an uppercase letter", test: (password) => /[A-Z]/.test(password) });
+  }
+  if (policy.requireLowercase) {
+    rules.push({ label: "a lowercase letter", test: (password) => /[a-z]/.test(password) });
+  }
+  if (policy.requireNumber) {
+    rules.push({ label: "a number", test: (password) => /\d/.test(password) });
+  }
+  if (policy.requireSymbol) {
+    rules.push({ label: "a symbol", test: (password) => /[^A-Za-z0-9]/.test(password) });
+  }
+  return rules;
+};
+
+export const describePasswordRules = (policy: PasswordPolicy): string[] =>
+  activeRules(policy).map((rule) => rule.label);
+
+// Labels of the rules a password breaks; empty when it is acceptable.
+export const checkPasswordStrength = (password: string, policy: PasswordPolicy): string[] =>
+  activeRules(policy)
+    .filter((rule) => !rule.test(password))
+    .map((rule) => rule.label);
+
+export const describePasswordProblems = (problems: string[]): string =>
+  `Password must contain ${problems.join(", ")}`;
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { hasPermission, resolveRolePermissions } from "./permissions";
+import { updateRoleSettingSchema } from "./schema";
+
+describe("admin-only permissions", () => {
+  it("keeps user management away from other roles, so they cannot promote anyone to admin", () => {
+    // A matrix saved before user.manage was reserved for admins
+    const mechanic = { permissions: resolveRolePermissions("mechanic", ["service.edit", "user.manage"]) };
+
+    expect(hasPermission(mechanic, "service.edit")).toBe(true);
+    expect(hasPermission(mechanic, "user.manage")).toBe(false);
+    expect(hasPermission({ permissions: resolveRolePermissions("admin", null) }, "user.manage")).toBe(true);
+  });
+
+  it("rejects matrix edits that would let a role widen its own permissions", () => {
+    expect(updateRoleSettingSchema.safeParse({ permissions: ["service.edit", "security.manage"] }).success).toBe(false);
+    expect(updateRoleSettingSchema.safeParse({ permissions: ["user.manage"] }).success).toBe(false);
+    expect(resolveRolePermissions("viewer", ["report.view_revenue", "security.manage"])).toEqual(["report.view_revenue"]);
+  });
+
+  it("accepts matrix edits within the grantable permissions", () => {
+    expect(updateRoleSettingSchema.parse({ permissions: ["service.edit", "audit.view"] })).toEqual({
+      permissions: ["service.edit", "audit.view"],
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import type { UserRole } from "./schema";
+
+export const PERMISSIONS = [
+  "customer.create",
+  "customer.edit",
+  "customer.delete",
+  "vehicle.create",
+  "vehicle.edit",
+  "vehicle.delete",
+  "service.create",
+  "service.edit",
+  "service.delete",
+  "service.close",
+  "service.reopen",
+  "estimate.edit",
+  "estimate.delete",
+  "invoice.create",
+  "invoice.record_payment",
+  "invoice.refund",
+  "invoice.void",
+  "appointment.manage",
+  "reminder.manage",
+  "time.clock",
+  "time.manage",
+  "report.view_revenue",
+  "report.view_productivity",
+  "bay.manage",
+  "interval.manage",
+  "user.manage",
+  "security.manage",
+  "audit.view",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Holders could make themselves admins through the user list or widen their own role in the matrix,
+// so these are never granted to other roles.
+export const ADMIN_ONLY_PERMISSIONS: readonly Permission[] = ["user.manage", "security.manage"];
+
+export type PermissionGroup = {
+  label: string;
+  permissions: Array<{ key: Permission; label: string }>;
+};
+
+// Drives the admin permission matrix; every permission appears exactly once
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    label: "Customers & vehicles",
+    permissions: [
+      { key: "customer.create", label: "Add customers" },
+      { key: "customer.edit", label: "Edit customers" },
+      { key: "customer.delete", label: "Delete customers with their vehicles and services" },
+      { key: "vehicle.create", label: "Add vehicles" },
+      { key: "vehicle.edit", label: "Edit vehicles" },
+      { key: "vehicle.delete", label: "Delete vehicles with their services" },
+    ],
+  },
+  {
+    label: "Services",
+    permissions: [
+      { key: "service.create", label: "Create services" },
+      { key: "service.edit", label: "Edit services, line items and approvals" },
+      { key: "service.delete", label: "Delete services" },
+      { key: "service.close", label: "Close completed services" },
+      { key: "service.reopen", label: "Reopen and edit closed services" },
+      { key: "estimate.edit", label: "Create, send and approve estimates" },
+      { key: "estimate.delete", label: "Delete estimates" },
+    ],
+  },
+  {
+    label: "Billing",
+    permissions: [
+      { key: "invoice.create", label: "Issue invoices" },
+      { key: "invoice.record_payment", label: "Record payments" },
+      { key: "invoice.refund", label: "Refund payments" },
+      { key: "invoice.void", label: "Void invoices" },
+    ],
+  },
+  {
+    label: "Scheduling & time",
+    permissions: [
+      { key: "appointment.manage", label: "Book and update appointments" },
+      { key: "reminder.manage", label: "Manage maintenance reminders" },
+      { key: "time.clock", label: "Clock on and off jobs" },
+      { key: "time.manage", label: "Correct anyone's time entries" },
+      { key: "bay.manage", label: "Manage bays" },
+      { key: "interval.manage", label: "Manage service intervals" },
+    ],
+  },
+  {
+    label: "Reports & administration",
+    permissions: [
+      { key: "report.view_revenue", label: "See revenue figures" },
+      { key: "report.view_productivity", label: "See technician productivity" },
+      { key: "user.manage", label: "Manage user accounts and their sessions" },
+      { key: "security.manage", label: "Manage sign-in security and permissions" },
+      { key: "audit.view", label: "See the audit log and record history" },
+    ],
+  },
+];
+
+// What each role gets until an admin edits the matrix. Admins always hold every permission,
+// so nobody can lock themselves out of this screen.
+export const DEFAULT_ROLE_PERMISSIONS: Record<Exclude<UserRole, "admin">, Permission[]> = {
+  mechanic: [
+    "customer.create",
+    "customer.edit",
+    "vehicle.create",
+    "vehicle.edit",
+    "service.create",
+    "service.edit",
+    "service.delete",
+    "service.close",
+    "estimate.edit",
+    "estimate.delete",
+    "invoice.create",
+    "invoice.record_payment",
+    "appointment.manage",
+    "reminder.manage",
+    "time.clock",
+    "report.view_revenue",
+  ],
+  viewer: ["report.view_revenue"],
+};
+
+export const isPermission = (value: string): value is Permission => (PERMISSIONS as readonly string[]).includes(value);
+
+export const isAdminOnlyPermission = (permission: Permission): boolean => ADMIN_ONLY_PERMISSIONS.includes(permission);
+
+// Resolves a role's permissions from the saved matrix entry (null when never edited).
+export function resolveRolePermissions(role: UserRole, saved: string[] | null | undefined): Permission[] {
+  if (role === "admin") {
+    return [...PERMISSIONS];
+  }
+  if (!saved) {
+    return [...DEFAULT_ROLE_PERMISSIONS[role]];
+  }
+  return saved.filter(isPermission).filter((permission) => !isAdminOnlyPermission(permission));
+}
+
+export const hasPermission = (user: { permissions: Permission[] } | null | undefined, permission: Permission): boolean =>
+  Boolean(user?.permissions.includes(permission));
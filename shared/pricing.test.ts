@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { applyTax, summarizeServiceTotals, type TaxedServiceItem } from "./pricing";
+
+const part = (unitCost: number, overrides: Partial<TaxedServiceItem> = {}): TaxedServiceItem => ({
+  quantity: "1",
+  unitCost: String(unitCost),
+  laborHours: "0",
+  laborRate: "0",
+  taxRate: null,
+  ...overrides,
+});
+
+describe("applyTax", () => {
+  it("takes 15% VAT out of an inclusive amount", () => {
+    expect(applyTax(100, 15, "inclusive")).toEqual({ net: 86.96, tax: 13.04, gross: 100 });
+  });
+
+  it("adds 15% VAT to an exclusive amount", () => {
+    expect(applyTax(100, 15, "exclusive")).toEqual({ net: 100, tax: 15, gross: 115 });
+  });
+
+  it("rounds the VAT to the nearest halala", () => {
+    expect(applyTax(19.99, 15, "exclusive")).toEqual({ net: 19.99, tax: 3, gross: 22.99 });
+    expect(applyTax(9.99, 15, "inclusive")).toEqual({ net: 8.69, tax: 1.3, gross: 9.99 });
+  });
+
+  it("treats a negative rate as exempt", () => {
+    expect(applyTax(50, -5, "exclusive")).toEqual({ net: 50, tax: 0, gross: 50 });
+  });
+});
+
+describe("summarizeServiceTotals", () => {
+  const items = [
+    part(50, { quantity: "2" }),
+    part(0, { laborHours: "1.5", laborRate: "80", taxRate: "5" }),
+    part(30, { taxRate: "0" }),
+  ];
+
+  it("taxes each exclusive line at its own rate, the service rate or not at all", () => {
+    const totals = summarizeServiceTotals({ laborCost: 0, partsCost: 0, taxMode: "exclusive", taxRate: "15" }, items);
+
+    expect(totals).toEqual({
+      laborCost: 120,
+      partsCost: 130,
+      totalCost: 250,
+      netTotal: 250,
+      taxTotal: 21,
+      grossTotal: 271,
+    });
+  });
+
+  it("splits inclusive lines at their own rates", () => {
+    const totals = summarizeServiceTotals(
+      { laborCost: 0, partsCost: 0, taxMode: "inclusive", taxRate: "15" },
+      [part(115), part(21, { taxRate: "5" }), part(30, { taxRate: "0" })],
+    );
+
+    expect(totals).toMatchObject({ netTotal: 150, taxTotal: 16, grossTotal: 166 });
+  });
+
+  it("rounds VAT per line before adding it up", () => {
+    const totals = summarizeServiceTotals(
+      { laborCost: 0, partsCost: 0, taxMode: "exclusive", taxRate: "15" },
+      [part(0.1), part(0.1), part(0.1)],
+    );
+
+    expect(totals).toMatchObject({ netTotal: 0.3, taxTotal: 0.06, grossTotal: 0.36 });
+  });
+
+  it("taxes the labor and parts costs of a service without line items", () => {
+    const totals = summarizeServiceTotals(
+      { laborCost: "200", partsCost: "145.5", taxMode: "exclusive", taxRate: "15" },
+      [],
+    );
+
+    expect(totals).toMatchObject({ totalCost: 345.5, netTotal: 345.5, taxTotal: 51.83, grossTotal: 397.33 });
+  });
+});
@@ -0,0 +1,160 @@
+type Numeric = string | number | null | undefined;
+
+export type PricedServiceItem = {
+  quantity: Numeric;
+  unitCost: Numeric;
+  laborHours: Numeric;
+  laborRate: Numeric;
+};
+
+export type ServiceCostSummary = {
+  laborCost: number;
+  partsCost: number;
+  totalCost: number;
+};
+
+export const toAmount = (value: Numeric): number => {
+  const parsed = Number.parseFloat(String(value ?? "0"));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export function calculateItemCosts(item: PricedServiceItem): ServiceCostSummary {
+  const partsCost = roundCurrency(toAmount(item.quantity) * toAmount(item.unitCost));
+  const laborCost = roundCurrency(toAmount(item.laborHours) * toAmount(item.laborRate));
+  return {
+    laborCost,
+    partsCost,
+    totalCost: roundCurrency(laborCost + partsCost),
+  };
+}
+
+export function summarizeServiceItems(items: PricedServiceItem[]): ServiceCostSummary {
+  return items.reduce<ServiceCostSummary>(
+    (summary, item) => {
+      const costs = calculateItemCosts(item);
+      return {
+        laborCost: roundCurrency(summary.laborCost + costs.laborCost),
+        partsCost: roundCurrency(summary.partsCost + costs.partsCost),
+        totalCost: roundCurrency(summary.totalCost + costs.totalCost),
+      };
+    },
+    { laborCost: 0, partsCost: 0, totalCost: 0 },
+  );
+}
+
+export type TaxMode = "exclusive" | "inclusive";
+
+export type TaxBreakdown = {
+  net: number;
+  tax: number;
+  gross: number;
+};
+
+export type TaxedServiceItem = PricedServiceItem & {
+  taxRate?: Numeric;
+};
+
+export type TaxedServiceSource = {
+  laborCost: Numeric;
+  partsCost: Numeric;
+  taxMode: TaxMode;
+  taxRate: Numeric;
+};
+
+export type ServiceTotals = ServiceCostSummary & {
+  netTotal: number;
+  taxTotal: number;
+  grossTotal: number;
+};
+
+// Splits an amount into net and VAT. In inclusive mode the amount already contains the VAT.
+export function applyTax(amount: number, ratePercent: number, mode: TaxMode): TaxBreakdown {
+  const rate = Math.max(ratePercent, 0) / 100;
+  if (mode === "inclusive") {
+    const gross = roundCurrency(amount);
+    const net = roundCurrency(gross / (1 + rate));
+    return { net, tax: roundCurrency(gross - net), gross };
+  }
+
+  const net = roundCurrency(amount);
+  const tax = roundCurrency(net * rate);
+  return { net, tax, gross: roundCurrency(net + tax) };
+}
+
+// Lines without their own rate use the service's rate; a rate of 0 marks an exempt line.
+export const resolveItemTaxRate = (item: TaxedServiceItem, defaultRate: Numeric): number =>
+  item.taxRate === null || item.taxRate === undefined || item.taxRate === ""
+    ? toAmount(defaultRate)
+    : toAmount(item.taxRate);
+
+export function calculateItemTax(item: TaxedServiceItem, mode: TaxMode, defaultRate: Numeric): TaxBreakdown {
+  return applyTax(calculateItemCosts(item).totalCost, resolveItemTaxRate(item, defaultRate), mode);
+}
+
+// Totals for a service: taxed per line when it has line items, otherwise from its labor and parts costs.
+export function summarizeServiceTotals(service: TaxedServiceSource, items: TaxedServiceItem[]): ServiceTotals {
+  const costs =
+    items.length > 0
+      ? summarizeServiceItems(items)
+      : (() => {
+          const laborCost = roundCurrency(toAmount(service.laborCost));
+          const partsCost = roundCurrency(toAmount(service.partsCost));
+          return { laborCost, partsCost, totalCost: roundCurrency(laborCost + partsCost) };
+        })();
+
+  const lines =
+    items.length > 0
+      ? items.map((item) => calculateItemTax(item, service.taxMode, service.taxRate))
+      : [applyTax(costs.totalCost, toAmount(service.taxRate), service.taxMode)];
+
+  const netTotal = roundCurrency(lines.reduce((sum, line) => sum + line.net, 0));
+  const taxTotal = roundCurrency(lines.reduce((sum, line) => sum + line.tax, 0));
+
+  return {
+    ...costs,
+    netTotal,
+    taxTotal,
+    grossTotal: roundCurrency(netTotal + taxTotal),
+  };
+}
+
+export type InvoiceLedgerEntry = {
+  kind: "payment" | "refund";
+  amount: Numeric;
+};
+
+export type InvoiceBalance = {
+  invoiced: number;
+  paid: number;
+  refunded: number;
+  netPaid: number;
+  balance: number;
+  status: "pending" | "partial" | "paid";
+};
+
+export const formatInvoiceNumber = (invoiceNumber: number): string =>
+  `INV-${String(invoiceNumber).padStart(6, "0")}`;
+
+// Nets payments against refunds; a negative balance means the customer is owed credit.
+export function summarizeInvoicePayments(amount: Numeric, entries: InvoiceLedgerEntry[]): InvoiceBalance {
+  const invoiced = roundCurrency(toAmount(amount));
+  const paid = roundCurrency(
+    entries.filter((entry) => entry.kind === "payment").reduce((sum, entry) => sum + toAmount(entry.amount), 0),
+  );
+  const refunded = roundCurrency(
+    entries.filter((entry) => entry.kind === "refund").reduce((sum, entry) => sum + toAmount(entry.amount), 0),
+  );
+  const netPaid = roundCurrency(paid - refunded);
+  const balance = roundCurrency(invoiced - netPaid);
+
+  let status: InvoiceBalance["status"] = "pending";
+  if (netPaid > 0) {
+    status = balance <= 0 ? "paid" : "partial";
+  } else if (invoiced <= 0) {
+    status = "paid";
+  }
+
+  return { invoiced, paid, refunded, netPaid, balance, status };
+}
@@ -0,0 +1,79 @@
+export type OpeningHours = {
+  // "HH:mm" in the shop's local time
+  opensAt: string;
+  closesAt: string;
+  // 0 = Sunday … 6 = Saturday
+  closedDays: number[];
+  slotMinutes: number;
+  timeZone: string;
+};
+
+export type ShopClock = {
+  dateKey: string;
+  weekday: number;
+  minutes: number;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const parseClockTime = (value: string): number => {
+  const [hours, minutes] = value.split(":").map((part) => Number.parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const formatClockTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+export const rangesOverlap = (startA: Date, endA: Date, startB: Date, endB: Date): boolean =>
+  startA.getTime() < endB.getTime() && startB.getTime() < endA.getTime();
+
+// Calendar date, weekday and minutes past midnight of an instant as seen on the shop's wall clock.
+export function getShopClock(date: Date, timeZone: string): ShopClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value ?? "";
+
+  return {
+    dateKey: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: WEEKDAYS.indexOf(part("weekday")),
+    minutes: Number.parseInt(part("hour"), 10) * 60 + Number.parseInt(part("minute"), 10),
+  };
+}
+
+// Returns why the booking falls outside opening hours, or null when it fits.
+export function checkOpeningHours(startsAt: Date, endsAt: Date, hours: OpeningHours): string | null {
+  if (endsAt.getTime() <= startsAt.getTime()) {
+    return "Appointments must end after they start";
+  }
+
+  const start = getShopClock(startsAt, hours.timeZone);
+  const end = getShopClock(endsAt, hours.timeZone);
+  if (start.dateKey !== end.dateKey) {
+    return "Appointments must start and end on the same day";
+  }
+  if (hours.closedDays.includes(start.weekday)) {
+    return "The shop is closed on that day";
+  }
+  if (start.minutes < parseClockTime(hours.opensAt) || end.minutes > parseClockTime(hours.closesAt)) {
+    return `Appointments must fall within opening hours (${hours.opensAt}–${hours.closesAt})`;
+  }
+  return null;
+}
+
+// Start offsets (minutes past midnight) of every bookable slot in a day.
+export function buildDaySlots(hours: OpeningHours): number[] {
+  const slots: number[] = [];
+  const closesAt = parseClockTime(hours.closesAt);
+  for (let minutes = parseClockTime(hours.opensAt); minutes + hours.slotMinutes <= closesAt; minutes += hours.slotMinutes) {
+    slots.push(minutes);
+  }
+  return slots;
+}
@@ -1,15 +1,118 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, numeric, timestamp, pgEnum, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, numeric, timestamp, pgEnum, boolean, jsonb, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { PERMISSIONS, isAdminOnlyPermission, type Permission } from "./permissions";
 
 // Enum for user roles
 export const userRoleEnum = pgEnum("user_role", ["admin", "mechanic", "viewer"]);
 
+export type UserRole = (typeof userRoleEnum.enumValues)[number];
+
 // Enum for service status lifecycle
 export const serviceStatusEnum = pgEnum("service_status", ["scheduled", "in_progress", "completed", "closed"]);
 
+export type ServiceStatus = (typeof serviceStatusEnum.enumValues)[number];
+
+// Allowed forward transitions for the service lifecycle (scheduled → in_progress → completed → closed)
+export const serviceStatusTransitions: Record<ServiceStatus, ServiceStatus[]> = {
+  scheduled: ["in_progress"],
+  in_progress: ["completed"],
+  completed: ["closed"],
+  closed: [],
+};
+
+// Enum for estimate lifecycle; approving an estimate creates the service record
+export const estimateStatusEnum = pgEnum("estimate_status", ["draft", "sent", "approved", "declined"]);
+
+export type EstimateStatus = (typeof estimateStatusEnum.enumValues)[number];
+
+// Manual estimate transitions; "approved" is only reached through the approve action
+export const estimateStatusTransitions: Record<EstimateStatus, EstimateStatus[]> = {
+  draft: ["sent", "declined"],
+  sent: ["draft", "declined"],
+  approved: [],
+  declined: ["draft"],
+};
+
+// Enums for invoices and the payments recorded against them
+export const paymentMethodEnum = pgEnum("payment_method", ["cash", "card", "bank_transfer", "check", "other"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "partial", "paid", "void"]);
+export const paymentKindEnum = pgEnum("payment_kind", ["payment", "refund"]);
+
+export type PaymentMethod = (typeof paymentMethodEnum.enumValues)[number];
+export type PaymentStatus = (typeof paymentStatusEnum.enumValues)[number];
+
+// Whether entered prices exclude VAT (added on top) or already include it
+export const taxModeEnum = pgEnum("tax_mode", ["exclusive", "inclusive"]);
+
+export type TaxMode = (typeof taxModeEnum.enumValues)[number];
+
+// How the customer gave their go-ahead for (additional) work
+export const authorizationChannelEnum = pgEnum("authorization_channel", ["in_person", "phone", "link"]);
+
+export type AuthorizationChannel = (typeof authorizationChannelEnum.enumValues)[number];
+
+// Enum for bay bookings; checking in turns the booking into an in-progress service
+export const appointmentStatusEnum = pgEnum("appointment_status", ["booked", "checked_in", "cancelled", "no_show"]);
+
+export type AppointmentStatus = (typeof appointmentStatusEnum.enumValues)[number];
+
+// Sign-in throttling is tracked separately per username and per client IP
+export const loginThrottleScopeEnum = pgEnum("login_throttle_scope", ["username", "ip"]);
+
+export type LoginThrottleScope = (typeof loginThrottleScopeEnum.enumValues)[number];
+
+export const loginOutcomeEnum = pgEnum("login_outcome", ["success", "invalid_credentials", "invalid_code", "throttled", "locked"]);
+
+export type LoginOutcome = (typeof loginOutcomeEnum.enumValues)[number];
+
+// Records whose changes are written to the audit log
+export const auditEntityEnum = pgEnum("audit_entity", ["customer", "vehicle", "service", "service_item", "service_media"]);
+
+export type AuditEntity = (typeof auditEntityEnum.enumValues)[number];
+
+export const auditActionEnum = pgEnum("audit_action", ["create", "update", "delete"]);
+
+export type AuditAction = (typeof auditActionEnum.enumValues)[number];
+
+// Changed fields of an audited record; creates have no before values and deletes no after values
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Snapshot of a line item as it was when the customer approved it
+export type AuthorizedItem = {
+  id: number;
+  description: string;
+  amount: string;
+};
+
+export const MEDIA_DERIVATIVE_SIZES = ["thumbnail", "medium"] as const;
+export type MediaDerivativeSize = (typeof MEDIA_DERIVATIVE_SIZES)[number];
+export const MEDIA_DERIVATIVE_FORMATS = ["webp", "jpeg"] as const;
+export type MediaDerivativeFormat = (typeof MEDIA_DERIVATIVE_FORMATS)[number];
+
+// A line as printed on an invoice, copied from the service when the invoice is issued
+export type InvoiceLine = {
+  description: string;
+  quantity: string;
+  unitPrice: number;
+  rate: number;
+  net: number;
+  tax: number;
+  gross: number;
+};
+
+// A downscaled copy of an uploaded photo, stored next to the original
+export type MediaDerivative = {
+  size: MediaDerivativeSize;
+  format: MediaDerivativeFormat;
+  relativePath: string;
+  width: number;
+  height: number;
+  fileSize: number;
+};
+
 
 // Users table - for authentication with role-based access
 export const users = pgTable("users", {
@@ -18,6 +121,20 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: userRoleEnum("role").notNull().default("viewer"),
   name: text("name").notNull(),
+  // Disabled accounts cannot sign in and their existing sessions stop resolving
+  active: boolean("active").notNull().default(true),
+  // Set by admins after a reset; the user must pick a new password before doing anything else
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  passwordChangedAt: timestamp("password_changed_at"),
+  // TOTP (RFC 6238) second factor; the secret is kept while enrollment is pending and enabledAt confirms it
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  // Last accepted time step, so a code cannot be replayed inside its window
+  twoFactorLastStep: integer("two_factor_last_step"),
+  // SHA-256 hashes of the unused one-time recovery codes
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes").array().notNull().default(sql`'{}'::text[]`),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Customers table - phone number as unique identifier
@@ -27,6 +144,8 @@ export const customers = pgTable("customers", {
   name: text("name").notNull(),
   email: text("email"),
   address: text("address"),
+  // Buyer VAT registration number, printed on tax invoices for business customers
+  vatNumber: text("vat_number"),
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -52,8 +171,16 @@ export const services = pgTable("services", {
   partsReplaced: text("parts_replaced"),
   laborCost: numeric("labor_cost", { precision: 10, scale: 2 }).notNull().default("0"),
   partsCost: numeric("parts_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Amount payable including VAT; labor/parts costs are entered according to taxMode
   totalCost: numeric("total_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxMode: taxModeEnum("tax_mode").notNull().default("exclusive"),
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull().default("15"),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Legacy free-text technician; kept for history and linked via `npm run migrate:mechanics`
   mechanicName: text("mechanic_name"),
+  assignedTechnicianId: varchar("assigned_technician_id").references(() => users.id, { onDelete: "set null" }),
+  // Matches a serviceIntervalRules.serviceType so follow-ups can be projected
+  serviceType: text("service_type"),
   notes: text("notes"),
   status: serviceStatusEnum("status").notNull().default("completed"),
   odometer: integer("odometer"),
@@ -70,6 +197,20 @@ export const serviceMedia = pgTable("service_media", {
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
   relativePath: text("relative_path").notNull(),
+  // Of the file as uploaded, before metadata stripping; null for uploads that predate hashing.
+  // Rows with identical content share one file, which is removed once no row points at it.
+  sha256: text("sha256"),
+  // Pixel size of photos as displayed; null for videos and files that could not be read
+  width: integer("width"),
+  height: integer("height"),
+  // When the photo was taken according to its EXIF data; null when the camera did not record it
+  capturedAt: timestamp("captured_at"),
+  derivatives: jsonb("derivatives").$type<MediaDerivative[]>().notNull().default([]),
+  caption: text("caption"),
+  // Gallery position within the service; uploads are appended after the existing files
+  sortOrder: integer("sort_order").notNull().default(0),
+  // At most one cover photo per service
+  isCover: boolean("is_cover").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -80,7 +221,110 @@ export const session = pgTable("session", {
   expire: timestamp("expire").notNull(),
 });
 
-// Payments table - tracks invoices and receipts per service
+// Consecutive failed sign-ins per username or IP; drives back-off and temporary lockouts
+export const loginThrottles = pgTable(
+  "login_throttles",
+  {
+    id: serial("id").primaryKey(),
+    scope: loginThrottleScopeEnum("scope").notNull(),
+    // Lower-cased username or the client IP address
+    key: text("key").notNull(),
+    failures: integer("failures").notNull().default(0),
+    lastFailedAt: timestamp("last_failed_at").notNull().defaultNow(),
+    lockedUntil: timestamp("locked_until"),
+  },
+  (table) => [unique("login_throttles_scope_key_unique").on(table.scope, table.key)],
+);
+
+// Per-role security policy edited by admins; roles without a row use the defaults
+export const roleSettings = pgTable("role_settings", {
+  role: userRoleEnum("role").primaryKey(),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  // Permission keys from shared/permissions.ts; null until an admin edits the role, meaning the defaults apply
+  permissions: text("permissions").array(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Append-only history of data changes, written by the storage layer and never updated or deleted
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: auditEntityEnum("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  // The service a service, line item or photo belongs to, so a job's history includes its items and media
+  serviceId: integer("service_id"),
+  // Readable name of the record at the time, kept because the record itself may be deleted
+  label: text("label").notNull(),
+  action: auditActionEnum("action").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  // Null for changes made outside a request, such as maintenance scripts
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorName: text("actor_name"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Personal access tokens for scripts and kiosks; only the SHA-256 of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the token so its owner can tell tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  // Permission keys the token may use, further limited by the owner's current role
+  scopes: text("scopes").array().notNull().default(sql`'{}'::text[]`),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Audit log of sign-in attempts shown to admins
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  outcome: loginOutcomeEnum("outcome").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Invoices table - sequential invoice numbers for billed services. Issued invoices are never changed or
+// deleted: a correction voids the invoice and issues a new one, so a service may have several void invoices.
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  invoiceNumber: serial("invoice_number").notNull().unique(),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: "restrict" }),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "restrict" }),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxMode: taxModeEnum("tax_mode").notNull().default("exclusive"),
+  // Printed as issued; empty for invoices issued before lines were kept, which print from the service
+  lines: jsonb("lines").$type<InvoiceLine[]>().notNull().default([]),
+  status: paymentStatusEnum("status").notNull().default("pending"),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  dueDate: timestamp("due_date"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Payments table - tracks receipts and refunds per invoice; several rows make a split payment
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  kind: paymentKindEnum("kind").notNull().default("payment"),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  method: paymentMethodEnum("method").notNull(),
+  referenceNumber: text("reference_number"),
+  notes: text("notes"),
+  receivedBy: varchar("received_by").references(() => users.id, { onDelete: "set null" }),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Service line items table - granular record of parts/labor per service visit
 export const serviceItems = pgTable("service_items", {
   id: serial("id").primaryKey(),
@@ -91,15 +335,128 @@ export const serviceItems = pgTable("service_items", {
   unitCost: numeric("unit_cost", { precision: 10, scale: 2 }).notNull().default("0"),
   laborHours: numeric("labor_hours", { precision: 10, scale: 2 }).notNull().default("0"),
   laborRate: numeric("labor_rate", { precision: 10, scale: 2 }).notNull().default("0"),
+  // VAT percentage for this line; null falls back to the service's rate
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }),
+  notes: text("notes"),
+  // Hours technicians clocked against this line, kept apart from the billed labor hours
+  clockedHours: numeric("clocked_hours", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Set on the per-technician labor line the time clock creates; only it bills the clocked time
+  billsClockedTime: boolean("bills_clocked_time").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Estimates table - priced quote given to the customer before work starts
+export const estimates = pgTable("estimates", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  // Set once the estimate is approved and turned into a service
+  serviceId: integer("service_id").references(() => services.id, { onDelete: "set null" }),
+  description: text("description").notNull(),
+  serviceType: text("service_type"),
+  status: estimateStatusEnum("status").notNull().default("draft"),
+  validUntil: timestamp("valid_until"),
+  laborCost: numeric("labor_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  partsCost: numeric("parts_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxMode: taxModeEnum("tax_mode").notNull().default("exclusive"),
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull().default("15"),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  totalCost: numeric("total_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  notes: text("notes"),
+  approvedAt: timestamp("approved_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Estimate line items - same shape as service line items so they can be copied on approval
+export const estimateItems = pgTable("estimate_items", {
+  id: serial("id").primaryKey(),
+  estimateId: integer("estimate_id").notNull().references(() => estimates.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  partNumber: text("part_number"),
+  quantity: numeric("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitCost: numeric("unit_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  laborHours: numeric("labor_hours", { precision: 10, scale: 2 }).notNull().default("0"),
+  laborRate: numeric("labor_rate", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }),
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Service authorizations table - customer approvals for the work (and any extra work found mid-job)
+export const serviceAuthorizations = pgTable("service_authorizations", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: "cascade" }),
+  approvedBy: text("approved_by").notNull(),
+  channel: authorizationChannelEnum("channel").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  items: jsonb("items").$type<AuthorizedItem[]>().notNull().default([]),
+  // Signature captured on the pad for in-person approvals, stored as service media
+  signatureMediaId: integer("signature_media_id").references(() => serviceMedia.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  approvedAt: timestamp("approved_at").notNull().defaultNow(),
+  recordedBy: varchar("recorded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Time entries table - technicians clocking on and off a job; hours roll up into the linked line item
+export const timeEntries = pgTable(
+  "time_entries",
+  {
+    id: serial("id").primaryKey(),
+    serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: "cascade" }),
+    serviceItemId: integer("service_item_id").references(() => serviceItems.id, { onDelete: "set null" }),
+    technicianId: varchar("technician_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    // Null while the technician is still clocked on
+    endedAt: timestamp("ended_at"),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  // A technician is clocked on at most one job at a time
+  (table) => [
+    uniqueIndex("time_entries_open_technician_unique").on(table.technicianId).where(sql`${table.endedAt} is null`),
+  ],
+);
+
+// Bays table - lifts and work bays that appointments are booked into
+export const bays = pgTable("bays", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  // Inactive bays keep their booking history but can no longer be booked
+  active: boolean("active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Appointments table - a vehicle booked into a bay for a time slot
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  bayId: integer("bay_id").notNull().references(() => bays.id),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  // Set when the vehicle is checked in and the service record is opened
+  serviceId: integer("service_id").references(() => services.id, { onDelete: "set null" }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  serviceType: text("service_type"),
+  notes: text("notes"),
+  status: appointmentStatusEnum("status").notNull().default("booked"),
+  checkedInAt: timestamp("checked_in_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Maintenance reminders table - optional follow-up reminders for customers/vehicles
 export const maintenanceReminders = pgTable("maintenance_reminders", {
   id: serial("id").primaryKey(),
   customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
   vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  // Set when the reminder was generated from a service's nextServiceDue
+  serviceId: integer("service_id").references(() => services.id, { onDelete: "set null" }),
   title: text("title").notNull(),
   description: text("description"),
   dueDate: timestamp("due_date").notNull(),
@@ -110,6 +467,16 @@ export const maintenanceReminders = pgTable("maintenance_reminders", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Service interval rules - "every N km or M months, whichever first" per service type
+export const serviceIntervalRules = pgTable("service_interval_rules", {
+  id: serial("id").primaryKey(),
+  serviceType: text("service_type").notNull().unique(),
+  intervalKm: integer("interval_km"),
+  intervalMonths: integer("interval_months"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Define relations
 export const customersRelations = relations(customers, ({ many }) => ({
   vehicles: many(vehicles),
@@ -134,6 +501,86 @@ export const servicesRelations = relations(services, ({ one, many }) => ({
     references: [customers.id],
   }),
   media: many(serviceMedia),
+  items: many(serviceItems),
+  assignedTechnician: one(users, {
+    fields: [services.assignedTechnicianId],
+    references: [users.id],
+  }),
+  invoices: many(invoices),
+  authorizations: many(serviceAuthorizations),
+  timeEntries: many(timeEntries),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  service: one(services, {
+    fields: [timeEntries.serviceId],
+    references: [services.id],
+  }),
+  serviceItem: one(serviceItems, {
+    fields: [timeEntries.serviceItemId],
+    references: [serviceItems.id],
+  }),
+  technician: one(users, {
+    fields: [timeEntries.technicianId],
+    references: [users.id],
+  }),
+}));
+
+export const baysRelations = relations(bays, ({ many }) => ({
+  appointments: many(appointments),
+}));
+
+export const appointmentsRelations = relations(appointments, ({ one }) => ({
+  bay: one(bays, {
+    fields: [appointments.bayId],
+    references: [bays.id],
+  }),
+  customer: one(customers, {
+    fields: [appointments.customerId],
+    references: [customers.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [appointments.vehicleId],
+    references: [vehicles.id],
+  }),
+  service: one(services, {
+    fields: [appointments.serviceId],
+    references: [services.id],
+  }),
+}));
+
+export const serviceAuthorizationsRelations = relations(serviceAuthorizations, ({ one }) => ({
+  service: one(services, {
+    fields: [serviceAuthorizations.serviceId],
+    references: [services.id],
+  }),
+  signature: one(serviceMedia, {
+    fields: [serviceAuthorizations.signatureMediaId],
+    references: [serviceMedia.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  service: one(services, {
+    fields: [invoices.serviceId],
+    references: [services.id],
+  }),
+  customer: one(customers, {
+    fields: [invoices.customerId],
+    references: [customers.id],
+  }),
+  payments: many(payments),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [payments.invoiceId],
+    references: [invoices.id],
+  }),
+  receivedByUser: one(users, {
+    fields: [payments.receivedBy],
+    references: [users.id],
+  }),
 }));
 
 export const serviceMediaRelations = relations(serviceMedia, ({ one }) => ({
@@ -150,6 +597,29 @@ export const serviceItemsRelations = relations(serviceItems, ({ one }) => ({
   }),
 }));
 
+export const estimatesRelations = relations(estimates, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [estimates.customerId],
+    references: [customers.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [estimates.vehicleId],
+    references: [vehicles.id],
+  }),
+  service: one(services, {
+    fields: [estimates.serviceId],
+    references: [services.id],
+  }),
+  items: many(estimateItems),
+}));
+
+export const estimateItemsRelations = relations(estimateItems, ({ one }) => ({
+  estimate: one(estimates, {
+    fields: [estimateItems.estimateId],
+    references: [estimates.id],
+  }),
+}));
+
 export const maintenanceRemindersRelations = relations(maintenanceReminders, ({ one }) => ({
   customer: one(customers, {
     fields: [maintenanceReminders.customerId],
@@ -159,6 +629,10 @@ export const maintenanceRemindersRelations = relations(maintenanceReminders, ({
     fields: [maintenanceReminders.vehicleId],
     references: [vehicles.id],
   }),
+  service: one(services, {
+    fields: [maintenanceReminders.serviceId],
+    references: [services.id],
+  }),
   createdByUser: one(users, {
     fields: [maintenanceReminders.createdBy],
     references: [users.id],
@@ -171,6 +645,98 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   role: true,
   name: true,
+  mustChangePassword: true,
+});
+
+// Strength is checked against the configured password policy by the server
+const passwordSchema = z.string().min(1, "Password is required");
+
+// Accounts created from the user-management screen; the password is hashed by the server
+export const createUserSchema = insertUserSchema.extend({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .regex(/^[a-zA-Z0-9._-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: passwordSchema,
+  role: z.enum(userRoleEnum.enumValues),
+  name: z.string().trim().min(1, "Name is required"),
+  mustChangePassword: z.boolean().default(true),
+});
+
+export const updateUserSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    role: z.enum(userRoleEnum.enumValues),
+    active: z.boolean(),
+    mustChangePassword: z.boolean(),
+  })
+  .partial();
+
+export const resetPasswordSchema = z.object({
+  password: passwordSchema,
+  mustChangePassword: z.boolean().default(true),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: passwordSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter the code from your authenticator app"),
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+});
+
+export const updateRoleSettingSchema = z
+  .object({
+    requireTwoFactor: z.boolean(),
+    permissions: z
+      .array(z.enum(PERMISSIONS))
+      .refine(
+        (permissions) => !permissions.some(isAdminOnlyPermission),
+        "Managing users and security settings is reserved for admins",
+      ),
+  })
+  .partial();
+
+export const API_TOKEN_MAX_EXPIRY_DAYS = 365;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(PERMISSIONS)).default([]),
+  // Omit for a token that lasts until it is revoked
+  expiresInDays: z.number().int().min(1).max(API_TOKEN_MAX_EXPIRY_DAYS).optional(),
+});
+
+export const createMediaLinkSchema = z.object({
+  // Defaults to MEDIA_LINK_MINUTES and is capped at seven days
+  expiresInMinutes: z.number().int().min(1).optional(),
+});
+
+export const MEDIA_CAPTION_MAX_LENGTH = 500;
+
+const mediaCaptionSchema = z.string().trim().max(MEDIA_CAPTION_MAX_LENGTH);
+
+export const updateServiceMediaSchema = z
+  .object({
+    caption: mediaCaptionSchema.nullable(),
+    // Only photos can be the cover
+    isCover: z.boolean(),
+  })
+  .partial();
+
+// The service's media ids in their new gallery order
+export const reorderServiceMediaSchema = z.object({
+  mediaIds: z.array(z.number().int()).min(1),
+});
+
+export const uploadServiceMediaSchema = z.object({
+  // Applied to every file in the upload, e.g. "After repair"
+  caption: mediaCaptionSchema.optional(),
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).omit({
@@ -194,6 +760,7 @@ export const insertVehicleSchema = createInsertSchema(vehicles).omit({
 
 export const insertServiceSchema = createInsertSchema(services).omit({
   id: true,
+  mechanicName: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -202,17 +769,167 @@ export const insertServiceSchema = createInsertSchema(services).omit({
   laborCost: z.string().or(z.number()).optional(),
   partsCost: z.string().or(z.number()).optional(),
   totalCost: z.string().or(z.number()).optional(),
-  status: z.enum(serviceStatusEnum.enumValues).optional(),
-  odometer: z.number().int().min(0).optional(),
+  // Completing and closing go through the status transitions, which check permissions and the lifecycle
+  status: z.enum(["scheduled", "in_progress"]).optional(),
+  taxMode: z.enum(taxModeEnum.enumValues).optional(),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  odometer: z.coerce.number().int().min(0).optional(),
   nextServiceDue: z.coerce.date().optional(),
+  assignedTechnicianId: z.string().uuid().nullable().optional(),
   createdBy: z.string().uuid().optional(),
 });
 
+export const updateServiceSchema = insertServiceSchema
+  .omit({
+    vehicleId: true,
+    customerId: true,
+    status: true,
+    createdBy: true,
+    totalCost: true,
+    taxAmount: true,
+  })
+  .partial()
+  .extend({
+    odometer: z.number().int().min(0).nullable().optional(),
+    nextServiceDue: z.coerce.date().nullable().optional(),
+  });
+
+export const serviceStatusTransitionSchema = z.object({
+  status: z.enum(serviceStatusEnum.enumValues),
+});
+
 export const insertServiceItemSchema = createInsertSchema(serviceItems).omit({
   id: true,
+  clockedHours: true,
+  billsClockedTime: true,
   createdAt: true,
 }).extend({
   description: z.string().min(1, "Item description is required"),
+  quantity: z.coerce.number().min(0).optional(),
+  unitCost: z.coerce.number().min(0).optional(),
+  laborHours: z.coerce.number().min(0).optional(),
+  laborRate: z.coerce.number().min(0).optional(),
+  taxRate: z.coerce.number().min(0).max(100).nullable().optional(),
+});
+
+// Line items submitted alongside a service (the service id is assigned by the server)
+export const serviceItemInputSchema = insertServiceItemSchema.omit({ serviceId: true });
+
+export const updateServiceItemSchema = serviceItemInputSchema.partial();
+
+// Totals are derived from the line items on the server
+export const insertEstimateSchema = createInsertSchema(estimates).pick({
+  vehicleId: true,
+  description: true,
+  serviceType: true,
+  validUntil: true,
+  notes: true,
+}).extend({
+  description: z.string().min(1, "Describe the proposed work"),
+  serviceType: z.string().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  taxMode: z.enum(taxModeEnum.enumValues).optional(),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  items: z.array(serviceItemInputSchema).default([]),
+});
+
+export const updateEstimateSchema = insertEstimateSchema.omit({ vehicleId: true }).partial();
+
+export const estimateStatusChangeSchema = z.object({
+  status: z.enum(["draft", "sent", "declined"]),
+});
+
+// Item snapshots and the signature reference are filled in by the server
+export const insertServiceAuthorizationSchema = createInsertSchema(serviceAuthorizations).pick({
+  approvedBy: true,
+  channel: true,
+  notes: true,
+  approvedAt: true,
+}).extend({
+  approvedBy: z.string().trim().min(1, "Enter who approved the work"),
+  channel: z.enum(authorizationChannelEnum.enumValues),
+  notes: z.string().nullable().optional(),
+  approvedAt: z.coerce.date().optional(),
+  // Defaults to the total of the selected items when omitted
+  amount: z.coerce.number().min(0).optional(),
+  itemIds: z.array(z.coerce.number().int()).default([]),
+});
+
+// Without a line item the server books the time against the technician's own labor line
+export const clockOnSchema = z.object({
+  serviceItemId: z.coerce.number().int().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const updateTimeEntrySchema = createInsertSchema(timeEntries).pick({
+  serviceItemId: true,
+  startedAt: true,
+  endedAt: true,
+  notes: true,
+}).extend({
+  serviceItemId: z.coerce.number().int().nullable().optional(),
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const insertBaySchema = createInsertSchema(bays).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Bay name is required"),
+  description: z.string().nullable().optional(),
+  sortOrder: z.coerce.number().int().optional(),
+});
+
+export const updateBaySchema = insertBaySchema.partial();
+
+// Either an existing vehicle id or a plate number identifies the vehicle; the end time is derived
+export const insertAppointmentSchema = createInsertSchema(appointments).pick({
+  bayId: true,
+  startsAt: true,
+  serviceType: true,
+  notes: true,
+}).extend({
+  bayId: z.coerce.number().int(),
+  startsAt: z.coerce.date(),
+  durationMinutes: z.coerce.number().int().positive(),
+  vehicleId: z.coerce.number().int().optional(),
+  plateNumber: z.string().trim().optional(),
+  serviceType: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const updateAppointmentSchema = insertAppointmentSchema
+  .omit({ vehicleId: true, plateNumber: true })
+  .partial();
+
+export const appointmentStatusChangeSchema = z.object({
+  status: z.enum(["booked", "cancelled", "no_show"]),
+});
+
+// The invoice amount and number are assigned by the server from the service totals
+export const createInvoiceSchema = createInsertSchema(invoices).pick({
+  dueDate: true,
+  notes: true,
+}).extend({
+  dueDate: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const recordPaymentSchema = createInsertSchema(payments).pick({
+  amount: true,
+  method: true,
+  referenceNumber: true,
+  notes: true,
+  receivedAt: true,
+}).extend({
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  method: z.enum(paymentMethodEnum.enumValues),
+  referenceNumber: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  receivedAt: z.coerce.date().optional(),
 });
 
 export const insertMaintenanceReminderSchema = createInsertSchema(maintenanceReminders).omit({
@@ -226,10 +943,98 @@ export const insertMaintenanceReminderSchema = createInsertSchema(maintenanceRem
   completed: z.boolean().optional(),
 });
 
+export const updateMaintenanceReminderSchema = insertMaintenanceReminderSchema
+  .omit({
+    customerId: true,
+    serviceId: true,
+    createdBy: true,
+    completed: true,
+  })
+  .partial();
+
+const serviceIntervalRuleBaseSchema = createInsertSchema(serviceIntervalRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  serviceType: z.string().trim().min(1, "Service type is required"),
+  intervalKm: z.number().int().positive().nullable().optional(),
+  intervalMonths: z.number().int().positive().nullable().optional(),
+});
+
+const hasInterval = (rule: { intervalKm?: number | null; intervalMonths?: number | null }) =>
+  Boolean(rule.intervalKm || rule.intervalMonths);
+
+export const insertServiceIntervalRuleSchema = serviceIntervalRuleBaseSchema.refine(hasInterval, {
+  message: "Provide a kilometre interval, a time interval, or both",
+});
+
+export const updateServiceIntervalRuleSchema = serviceIntervalRuleBaseSchema.partial();
+
 // TypeScript types
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactor = z.infer<typeof disableTwoFactorSchema>;
+export type UpdateRoleSetting = z.infer<typeof updateRoleSettingSchema>;
 export type User = typeof users.$inferSelect;
 
+// The only user shape that leaves the server; secrets such as the password hash are never included
+export type PublicUser = Pick<
+  User,
+  | "id"
+  | "username"
+  | "name"
+  | "role"
+  | "active"
+  | "mustChangePassword"
+  | "twoFactorEnabledAt"
+  | "lastLoginAt"
+  | "createdAt"
+>;
+
+// Copies the allowed fields only, so passing a full `User` row drops everything else
+export const toPublicUser = (user: PublicUser): PublicUser => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  active: user.active,
+  mustChangePassword: user.mustChangePassword,
+  twoFactorEnabledAt: user.twoFactorEnabledAt,
+  lastLoginAt: user.lastLoginAt,
+  createdAt: user.createdAt,
+});
+
+// The signed-in user's view of themselves: the public profile, whether their role still needs 2FA set up,
+// and the permissions their role grants
+export type SessionUser = PublicUser & { twoFactorSetupRequired: boolean; permissions: Permission[] };
+
+export const toSessionUser = (user: SessionUser): SessionUser => ({
+  ...toPublicUser(user),
+  twoFactorSetupRequired: user.twoFactorSetupRequired,
+  permissions: user.permissions,
+});
+
+// Answer to a correct password for an account with 2FA; the login finishes at POST /api/login/two-factor
+export type TwoFactorChallenge = { twoFactorRequired: true };
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  // The user's role requires 2FA, so it cannot be turned off
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+};
+
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Customer = typeof customers.$inferSelect;
 
@@ -238,14 +1043,84 @@ export type Vehicle = typeof vehicles.$inferSelect;
 
 export type InsertService = z.infer<typeof insertServiceSchema>;
 export type Service = typeof services.$inferSelect;
+export type UpdateService = z.infer<typeof updateServiceSchema>;
 
 export type InsertServiceItem = z.infer<typeof insertServiceItemSchema>;
 export type ServiceItem = typeof serviceItems.$inferSelect;
+export type ServiceItemInput = z.infer<typeof serviceItemInputSchema>;
+export type UpdateServiceItem = z.infer<typeof updateServiceItemSchema>;
+
+export type Estimate = typeof estimates.$inferSelect;
+export type EstimateItem = typeof estimateItems.$inferSelect;
+export type InsertEstimate = z.infer<typeof insertEstimateSchema>;
+export type UpdateEstimate = z.infer<typeof updateEstimateSchema>;
+
+export type ServiceAuthorization = typeof serviceAuthorizations.$inferSelect;
+export type InsertServiceAuthorization = z.infer<typeof insertServiceAuthorizationSchema>;
+
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type ClockOn = z.infer<typeof clockOnSchema>;
+export type UpdateTimeEntry = z.infer<typeof updateTimeEntrySchema>;
+
+export type Bay = typeof bays.$inferSelect;
+export type InsertBay = z.infer<typeof insertBaySchema>;
+export type UpdateBay = z.infer<typeof updateBaySchema>;
+
+export type Appointment = typeof appointments.$inferSelect;
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type UpdateAppointment = z.infer<typeof updateAppointmentSchema>;
+
+export type Invoice = typeof invoices.$inferSelect;
+export type CreateInvoice = z.infer<typeof createInvoiceSchema>;
+export type InsertInvoice = typeof invoices.$inferInsert;
+
+export type Payment = typeof payments.$inferSelect;
+export type RecordPayment = z.infer<typeof recordPaymentSchema>;
+export type InsertPayment = typeof payments.$inferInsert;
 
 export type InsertMaintenanceReminder = z.infer<typeof insertMaintenanceReminderSchema>;
 export type MaintenanceReminder = typeof maintenanceReminders.$inferSelect;
+export type UpdateMaintenanceReminder = z.infer<typeof updateMaintenanceReminderSchema>;
+
+export type InsertServiceIntervalRule = z.infer<typeof insertServiceIntervalRuleSchema>;
+export type UpdateServiceIntervalRule = z.infer<typeof updateServiceIntervalRuleSchema>;
+export type ServiceIntervalRule = typeof serviceIntervalRules.$inferSelect;
 
 export type InsertServiceMedia = typeof serviceMedia.$inferInsert;
 export type ServiceMedia = typeof serviceMedia.$inferSelect;
+export type UpdateServiceMedia = z.infer<typeof updateServiceMediaSchema>;
+export type ReorderServiceMedia = z.infer<typeof reorderServiceMediaSchema>;
 
 export type Session = typeof session.$inferSelect;
+
+// A signed-in device as listed to its owner or an admin; the raw session id never leaves the server
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+};
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type InsertLoginThrottle = typeof loginThrottles.$inferInsert;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type RoleSetting = typeof roleSettings.$inferSelect;
+export type InsertRoleSetting = typeof roleSettings.$inferInsert;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type CreateMediaLink = z.infer<typeof createMediaLinkSchema>;
+// Where the gallery loads one derivative size from; browsers without WebP support use the JPEG
+export type MediaDerivativeUrls = { width: number; height: number; webp: string; jpeg: string };
+// Signed URL that opens one media file without signing in until expiresAt
+export type MediaLink = { url: string; expiresAt: Date };
+// What the owner sees in the token list; the hash never leaves the server
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+// Returned once on creation; the plain token cannot be shown again
+export type CreatedApiToken = ApiTokenSummary & { token: string };
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { projectServiceDue } from "./service-intervals";
+
+const at = (date: string) => new Date(`${date}T12:00:00Z`);
+
+const visit = (date: string, odometer: number | null, serviceType = "Oil change") => ({
+  serviceDate: at(date),
+  odometer,
+  serviceType,
+});
+
+// 3,100 km in the 31 days between the visits: 100 km a day
+const history = [visit("2026-01-01", 40000, "Tyres"), visit("2026-02-01", 43100)];
+
+describe("projectServiceDue", () => {
+  it("counts months from the last service for a date-only rule", () => {
+    const rule = { serviceType: "oil change", intervalKm: null, intervalMonths: 6 };
+
+    const ok = projectServiceDue(rule, history, at("2026-03-01"));
+    expect(ok).toMatchObject({ lastServiceDate: at("2026-02-01"), dueOdometer: null, dueDateByDistance: null });
+    expect(ok.dueDate).toEqual(at("2026-08-01"));
+    expect(ok.state).toBe("ok");
+
+    expect(projectServiceDue(rule, history, at("2026-07-25")).state).toBe("due_soon");
+    expect(projectServiceDue(rule, history, at("2026-08-02")).state).toBe("overdue");
+  });
+
+  it("turns the distance into a date from the average km a day for a km-only rule", () => {
+    const rule = { serviceType: "Oil change", intervalKm: 10000, intervalMonths: null };
+
+    const projection = projectServiceDue(rule, history, at("2026-03-01"));
+    expect(projection).toMatchObject({
+      kmPerDay: 100,
+      dueOdometer: 53100,
+      estimatedOdometer: 45900,
+      dueDateByTime: null,
+      state: "ok",
+    });
+    expect(projection.dueDate).toEqual(at("2026-05-12"));
+
+    // Overdue once the estimated odometer passes the due reading
+    expect(projectServiceDue(rule, history, at("2026-05-13")).state).toBe("overdue");
+  });
+
+  it("uses whichever of the distance and time intervals comes first", () => {
+    const byDistance = projectServiceDue(
+      { serviceType: "Oil change", intervalKm: 10000, intervalMonths: 12 },
+      history,
+      at("2026-03-01"),
+    );
+    expect(byDistance.dueDateByTime).toEqual(at("2027-02-01"));
+    expect(byDistance.dueDate).toEqual(byDistance.dueDateByDistance);
+
+    const byTime = projectServiceDue(
+      { serviceType: "Oil change", intervalKm: 20000, intervalMonths: 3 },
+      history,
+      at("2026-03-01"),
+    );
+    expect(byTime.dueDateByDistance).toEqual(at("2026-08-20"));
+    expect(byTime.dueDate).toEqual(at("2026-05-01"));
+  });
+
+  it("is unknown without a matching service or without the odometer a km rule needs", () => {
+    const rule = { serviceType: "Oil change", intervalKm: 10000, intervalMonths: null };
+
+    expect(projectServiceDue(rule, [], at("2026-03-01"))).toMatchObject({
+      state: "unknown",
+      lastServiceDate: null,
+      kmPerDay: null,
+      estimatedOdometer: null,
+    });
+    expect(projectServiceDue(rule, [visit("2026-02-01", 43100, "Brakes")], at("2026-03-01")).state).toBe("unknown");
+    expect(projectServiceDue(rule, [visit("2026-02-01", null)], at("2026-03-01")).state).toBe("unknown");
+  });
+
+  it("has no distance date from a single reading, but still knows the due odometer", () => {
+    const projection = projectServiceDue(
+      { serviceType: "Oil change", intervalKm: 10000, intervalMonths: null },
+      [visit("2026-02-01", 43100)],
+      at("2026-03-01"),
+    );
+
+    expect(projection).toMatchObject({
+      kmPerDay: null,
+      estimatedOdometer: 43100,
+      dueOdometer: 53100,
+      dueDate: null,
+      state: "ok",
+    });
+  });
+
+  it("ignores the driving rate when the odometer went down", () => {
+    const replacedCluster = [visit("2026-01-01", 60000, "Tyres"), visit("2026-02-01", 58000)];
+
+    const projection = projectServiceDue(
+      { serviceType: "Oil change", intervalKm: 10000, intervalMonths: 6 },
+      replacedCluster,
+      at("2026-03-01"),
+    );
+
+    expect(projection).toMatchObject({
+      kmPerDay: null,
+      estimatedOdometer: 58000,
+      dueOdometer: 68000,
+      dueDateByDistance: null,
+      state: "ok",
+    });
+    expect(projection.dueDate).toEqual(at("2026-08-01"));
+  });
+});
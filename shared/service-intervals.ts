@@ -0,0 +1,154 @@
+import { addMonths, differenceInCalendarDays } from "date-fns";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const SERVICE_DUE_SOON_DAYS = 14;
+
+type IntervalRule = {
+  serviceType: string;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+};
+
+type ServiceHistoryEntry = {
+  serviceDate: Date | string;
+  odometer: number | null;
+  serviceType: string | null;
+};
+
+export type ServiceDueState = "overdue" | "due_soon" | "ok" | "unknown";
+
+export type ServiceDueProjection = {
+  serviceType: string;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  lastServiceDate: Date | null;
+  lastServiceOdometer: number | null;
+  dueOdometer: number | null;
+  dueDateByTime: Date | null;
+  dueDateByDistance: Date | null;
+  dueDate: Date | null;
+  estimatedOdometer: number | null;
+  kmPerDay: number | null;
+  state: ServiceDueState;
+};
+
+type OdometerReading = {
+  date: Date;
+  odometer: number;
+};
+
+const toDate = (value: Date | string): Date => (value instanceof Date ? value : new Date(value));
+
+function collectReadings(history: ServiceHistoryEntry[]): OdometerReading[] {
+  return history
+    .filter((entry): entry is ServiceHistoryEntry & { odometer: number } => typeof entry.odometer === "number")
+    .map((entry) => ({ date: toDate(entry.serviceDate), odometer: entry.odometer }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Average distance driven per day across the vehicle's recorded odometer readings.
+// Returns null until there are two readings at least a day apart.
+export function estimateKmPerDay(history: ServiceHistoryEntry[]): number | null {
+  const readings = collectReadings(history);
+  if (readings.length < 2) {
+    return null;
+  }
+
+  const first = readings[0];
+  const last = readings[readings.length - 1];
+  const days = (last.date.getTime() - first.date.getTime()) / DAY_MS;
+  const distance = last.odometer - first.odometer;
+
+  if (days < 1 || distance < 0) {
+    return null;
+  }
+
+  return distance / days;
+}
+
+export function estimateOdometer(history: ServiceHistoryEntry[], at: Date = new Date()): number | null {
+  const readings = collectReadings(history);
+  if (readings.length === 0) {
+    return null;
+  }
+
+  const last = readings[readings.length - 1];
+  const kmPerDay = estimateKmPerDay(history);
+  if (kmPerDay === null) {
+    return last.odometer;
+  }
+
+  const elapsedDays = Math.max((at.getTime() - last.date.getTime()) / DAY_MS, 0);
+  return Math.round(last.odometer + kmPerDay * elapsedDays);
+}
+
+const earliest = (...dates: Array<Date | null>): Date | null =>
+  dates.reduce<Date | null>((best, date) => (date && (!best || date < best) ? date : best), null);
+
+// Projects when a service type is next due for a vehicle, whichever of the distance or
+// time interval comes first. Distance is converted to a date using the average km/day.
+export function projectServiceDue(
+  rule: IntervalRule,
+  history: ServiceHistoryEntry[],
+  now: Date = new Date(),
+): ServiceDueProjection {
+  const kmPerDay = estimateKmPerDay(history);
+  const estimatedOdometer = estimateOdometer(history, now);
+  const lastService = history
+    .filter((entry) => entry.serviceType?.toLowerCase() === rule.serviceType.toLowerCase())
+    .map((entry) => ({ ...entry, serviceDate: toDate(entry.serviceDate) }))
+    .sort((a, b) => b.serviceDate.getTime() - a.serviceDate.getTime())[0];
+
+  const base: ServiceDueProjection = {
+    serviceType: rule.serviceType,
+    intervalKm: rule.intervalKm,
+    intervalMonths: rule.intervalMonths,
+    lastServiceDate: lastService?.serviceDate ?? null,
+    lastServiceOdometer: lastService?.odometer ?? null,
+    dueOdometer: null,
+    dueDateByTime: null,
+    dueDateByDistance: null,
+    dueDate: null,
+    estimatedOdometer,
+    kmPerDay,
+    state: "unknown",
+  };
+
+  if (!lastService) {
+    return base;
+  }
+
+  const dueDateByTime = rule.intervalMonths ? addMonths(lastService.serviceDate, rule.intervalMonths) : null;
+
+  let dueOdometer: number | null = null;
+  let dueDateByDistance: Date | null = null;
+  if (rule.intervalKm && lastService.odometer !== null) {
+    dueOdometer = lastService.odometer + rule.intervalKm;
+    if (kmPerDay && kmPerDay > 0) {
+      dueDateByDistance = new Date(lastService.serviceDate.getTime() + (rule.intervalKm / kmPerDay) * DAY_MS);
+    }
+  }
+
+  const dueDate = earliest(dueDateByTime, dueDateByDistance);
+  const passedDistance = dueOdometer !== null && estimatedOdometer !== null && estimatedOdometer >= dueOdometer;
+
+  let state: ServiceDueState = "unknown";
+  if (dueDate || dueOdometer !== null) {
+    if (passedDistance || (dueDate && dueDate < now)) {
+      state = "overdue";
+    } else if (dueDate && differenceInCalendarDays(dueDate, now) <= SERVICE_DUE_SOON_DAYS) {
+      state = "due_soon";
+    } else {
+      state = "ok";
+    }
+  }
+
+  return {
+    ...base,
+    dueOdometer,
+    dueDateByTime,
+    dueDateByDistance,
+    dueDate,
+    state,
+  };
+}
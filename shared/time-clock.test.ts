@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { clockedLaborChanges, summarizeTechnicianProductivity, type ProductivityEntry } from "./time-clock";
+
+const entry = (overrides: Partial<ProductivityEntry>): ProductivityEntry => ({
+  technicianId: "tech-1",
+  technicianName: "Sam",
+  serviceId: 1,
+  serviceItemId: 10,
+  startedAt: "2026-01-05T08:00:00Z",
+  endedAt: "2026-01-05T12:00:00Z",
+  itemLaborHours: "4",
+  itemClockedHours: 4,
+  ...overrides,
+});
+
+describe("clockedLaborChanges", () => {
+  it("leaves billed hours alone on lines priced by hand", () => {
+    expect(clockedLaborChanges({ billsClockedTime: false }, 5.5)).toEqual({ clockedHours: "5.50" });
+  });
+
+  it("bills the clocked time on the time clock's own labor line", () => {
+    expect(clockedLaborChanges({ billsClockedTime: true }, 1.25)).toEqual({
+      clockedHours: "1.25",
+      laborHours: "1.25",
+    });
+  });
+});
+
+describe("summarizeTechnicianProductivity", () => {
+  it("compares billed hours against clocked hours when they differ", () => {
+    // Four hours clocked against a line billed at three hours
+    const [summary] = summarizeTechnicianProductivity([entry({ itemLaborHours: "3" })]);
+
+    expect(summary.clockedHours).toBe(4);
+    expect(summary.billedHours).toBe(3);
+    expect(summary.efficiency).toBe(0.75);
+  });
+
+  it("shares a line's billed hours between technicians by time clocked", () => {
+    const summaries = summarizeTechnicianProductivity([
+      entry({ itemLaborHours: "6", itemClockedHours: 4, endedAt: "2026-01-05T11:00:00Z" }),
+      entry({
+        technicianId: "tech-2",
+        technicianName: "Alex",
+        itemLaborHours: "6",
+        itemClockedHours: 4,
+        endedAt: "2026-01-05T09:00:00Z",
+      }),
+    ]);
+
+    expect(summaries.map((summary) => [summary.technicianName, summary.billedHours, summary.efficiency])).toEqual([
+      ["Alex", 1.5, 1.5],
+      ["Sam", 4.5, 1.5],
+    ]);
+  });
+
+  it("bills nothing for time not booked to a line item", () => {
+    const [summary] = summarizeTechnicianProductivity([entry({ serviceItemId: null, itemClockedHours: 0 })]);
+
+    expect(summary.billedHours).toBe(0);
+    expect(summary.efficiency).toBe(0);
+  });
+});
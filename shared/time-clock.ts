@@ -0,0 +1,84 @@
+import { roundCurrency, toAmount } from "./pricing";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type ClockedSpan = {
+  startedAt: Date | string;
+  endedAt: Date | string | null;
+};
+
+// A clocked entry in the reporting window, with the line item it is booked against.
+export type ProductivityEntry = ClockedSpan & {
+  technicianId: string;
+  technicianName: string;
+  serviceId: number;
+  serviceItemId: number | null;
+  // Billed labor hours on the line item and all hours ever clocked against it
+  itemLaborHours: string | number | null;
+  itemClockedHours: number;
+};
+
+export type TechnicianProductivity = {
+  technicianId: string;
+  technicianName: string;
+  services: number;
+  clockedHours: number;
+  billedHours: number;
+  // Billed ÷ clocked; null when nothing was clocked
+  efficiency: number | null;
+};
+
+const toDate = (value: Date | string): Date => (value instanceof Date ? value : new Date(value));
+
+// Hours in a clocked span; open spans run until `now`.
+export function clockedHours(span: ClockedSpan, now = new Date()): number {
+  const end = span.endedAt ? toDate(span.endedAt) : now;
+  return Math.max(0, (end.getTime() - toDate(span.startedAt).getTime()) / HOUR_MS);
+}
+
+// Column changes when an item's clocked total moves. Billed labor hours only follow the clock on
+// the labor line the time clock created; hours entered by hand are left for the efficiency report.
+export function clockedLaborChanges(
+  item: { billsClockedTime: boolean },
+  hours: number,
+): { clockedHours: string; laborHours?: string } {
+  const clocked = hours.toFixed(2);
+  return item.billsClockedTime ? { clockedHours: clocked, laborHours: clocked } : { clockedHours: clocked };
+}
+
+// Billed hours on a line item are shared between its entries in proportion to the time clocked.
+export function summarizeTechnicianProductivity(entries: ProductivityEntry[]): TechnicianProductivity[] {
+  const byTechnician = new Map<string, TechnicianProductivity & { serviceIds: Set<number> }>();
+
+  for (const entry of entries) {
+    const hours = clockedHours(entry);
+    const billed =
+      entry.serviceItemId !== null && entry.itemClockedHours > 0
+        ? toAmount(entry.itemLaborHours) * (hours / entry.itemClockedHours)
+        : 0;
+
+    const summary = byTechnician.get(entry.technicianId) ?? {
+      technicianId: entry.technicianId,
+      technicianName: entry.technicianName,
+      services: 0,
+      clockedHours: 0,
+      billedHours: 0,
+      efficiency: null,
+      serviceIds: new Set<number>(),
+    };
+    summary.clockedHours += hours;
+    summary.billedHours += billed;
+    summary.serviceIds.add(entry.serviceId);
+    byTechnician.set(entry.technicianId, summary);
+  }
+
+  return Array.from(byTechnician.values())
+    .map(({ serviceIds, ...summary }) => ({
+      ...summary,
+      services: serviceIds.size,
+      clockedHours: roundCurrency(summary.clockedHours),
+      billedHours: roundCurrency(summary.billedHours),
+      efficiency: summary.clockedHours > 0 ? roundCurrency(summary.billedHours / summary.clockedHours) : null,
+    }))
+    .sort((a, b) => a.technicianName.localeCompare(b.technicianName));
+}